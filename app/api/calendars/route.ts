@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUserKey } from "@/lib/auth";
+import { getAuthorizedSession, googleErrorResponse } from "@/lib/api-auth";
+import { GoogleMeetAPI } from "@/lib/google-meet-api";
+import {
+  getSelectedCalendarIds,
+  setSelectedCalendarIds,
+} from "@/lib/calendar-settings";
+import { logger, withRequestLogging } from "@/lib/logger";
+
+// カレンダー一覧と、会議との照合に使うカレンダーの選択状態を返す
+export const GET = withRequestLogging(async function GET() {
+  try {
+    const auth = await getAuthorizedSession();
+    if ("response" in auth) return auth.response;
+    const { session } = auth;
+
+    const [calendars, selectedIds] = await Promise.all([
+      new GoogleMeetAPI(session.accessToken).listCalendars(),
+      getSelectedCalendarIds(getSessionUserKey(session)),
+    ]);
+
+    return NextResponse.json({
+      calendars: calendars.map((calendar) => ({
+        ...calendar,
+        selected:
+          selectedIds.includes(calendar.id) ||
+          (calendar.primary && selectedIds.includes("primary")),
+      })),
+    });
+  } catch (error) {
+    logger.error("Error in calendars API", { error });
+    return googleErrorResponse(error, "Failed to fetch calendars");
+  }
+});
+
+export const PUT = withRequestLogging(async function PUT(
+  request: NextRequest
+) {
+  try {
+    const auth = await getAuthorizedSession();
+    if ("response" in auth) return auth.response;
+    const { session } = auth;
+
+    const userKey = getSessionUserKey(session);
+    if (!userKey) {
+      return NextResponse.json(
+        { error: "Calendar settings require a user email in the session" },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const calendarIds: unknown = body?.calendarIds;
+    if (
+      !Array.isArray(calendarIds) ||
+      calendarIds.length === 0 ||
+      !calendarIds.every((id) => typeof id === "string")
+    ) {
+      return NextResponse.json(
+        { error: "calendarIds must be a non-empty array of strings" },
+        { status: 400 }
+      );
+    }
+
+    // ユーザーのカレンダーリストにあるものだけを受け付ける
+    const calendars = await new GoogleMeetAPI(
+      session.accessToken
+    ).listCalendars();
+    const available = new Set(calendars.map((calendar) => calendar.id));
+    const unknownIds = calendarIds.filter((id) => !available.has(id));
+    if (unknownIds.length > 0) {
+      return NextResponse.json(
+        { error: `Unknown calendars: ${unknownIds.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const saved = await setSelectedCalendarIds(userKey, calendarIds);
+    return NextResponse.json({ calendarIds: saved });
+  } catch (error) {
+    logger.error("Error in calendars API", { error });
+    return googleErrorResponse(error, "Failed to save calendar settings");
+  }
+});
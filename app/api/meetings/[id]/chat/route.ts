@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUserKey } from "@/lib/auth";
+import { getAuthorizedSession, googleErrorResponse } from "@/lib/api-auth";
+import {
+  createMeetingProvider,
+  getDefaultMeetingSource,
+  parseMeetingSource,
+} from "@/lib/meeting-provider";
+import { logger, withRequestLogging } from "@/lib/logger";
+
+// 会議中のチャット（～Chat ファイル）を解析したメッセージ
+export const GET = withRequestLogging(async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await getAuthorizedSession();
+    if ("response" in auth) return auth.response;
+    const { session } = auth;
+
+    const { id } = await params;
+    const searchParams = request.nextUrl.searchParams;
+    const provider = createMeetingProvider(
+      session.accessToken,
+      parseMeetingSource(searchParams.get("source")) ||
+        getDefaultMeetingSource(),
+      {
+        userKey: getSessionUserKey(session),
+        forceRefresh: searchParams.get("refresh") === "1",
+      }
+    );
+
+    const chat = await provider.getMeetingChat(id);
+    if (!chat) {
+      return NextResponse.json(
+        { error: "Meeting chat not found" },
+        { status: 404 }
+      );
+    }
+
+    logger.info("Parsed meeting chat", {
+      meetingId: id,
+      fileId: chat.fileId,
+      messages: chat.messages.length,
+    });
+    return NextResponse.json({ chat });
+  } catch (error) {
+    logger.error("Error in meeting chat API", { error });
+    return googleErrorResponse(error, "Failed to fetch meeting chat");
+  }
+});
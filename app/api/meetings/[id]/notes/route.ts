@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUserKey } from "@/lib/auth";
+import { getAuthorizedSession, googleErrorResponse } from "@/lib/api-auth";
+import {
+  createMeetingProvider,
+  getDefaultMeetingSource,
+  parseMeetingSource,
+} from "@/lib/meeting-provider";
+import { logger, withRequestLogging } from "@/lib/logger";
+
+// Gemini の会議メモ（まとめ・詳細・次のステップ）
+export const GET = withRequestLogging(async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await getAuthorizedSession();
+    if ("response" in auth) return auth.response;
+    const { session } = auth;
+
+    const { id } = await params;
+    const searchParams = request.nextUrl.searchParams;
+    const provider = createMeetingProvider(
+      session.accessToken,
+      parseMeetingSource(searchParams.get("source")) ||
+        getDefaultMeetingSource(),
+      {
+        userKey: getSessionUserKey(session),
+        forceRefresh: searchParams.get("refresh") === "1",
+      }
+    );
+
+    const notes = await provider.getMeetingNotes(id);
+    if (!notes) {
+      return NextResponse.json(
+        { error: "Meeting notes not found" },
+        { status: 404 }
+      );
+    }
+
+    logger.info("Parsed meeting notes", {
+      meetingId: id,
+      documentId: notes.documentId,
+      topics: notes.topics.length,
+      nextSteps: notes.nextSteps.length,
+    });
+    return NextResponse.json({ notes });
+  } catch (error) {
+    logger.error("Error in meeting notes API", { error });
+    return googleErrorResponse(error, "Failed to fetch meeting notes");
+  }
+});
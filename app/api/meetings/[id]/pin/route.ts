@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUserKey } from "@/lib/auth";
+import { getAuthorizedSession, googleErrorResponse } from "@/lib/api-auth";
+import { GoogleMeetAPI } from "@/lib/google-meet-api";
+import {
+  createMeetingProvider,
+  getDefaultMeetingSource,
+  parseMeetingSource,
+} from "@/lib/meeting-provider";
+import { getMeetingPin, MeetingPinUpdate, setMeetingPin } from "@/lib/pin-store";
+import { logger, withRequestLogging } from "@/lib/logger";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+async function requireUser(): Promise<
+  { error: NextResponse } | { accessToken: string; userKey: string }
+> {
+  const auth = await getAuthorizedSession();
+  if ("response" in auth) return { error: auth.response };
+  const { session } = auth;
+
+  const userKey = getSessionUserKey(session);
+  if (!userKey) {
+    return {
+      error: NextResponse.json(
+        { error: "Pins require a user email in the session" },
+        { status: 400 }
+      ),
+    };
+  }
+
+  return { accessToken: session.accessToken, userKey };
+}
+
+export const GET = withRequestLogging(async function GET(
+  _request: NextRequest,
+  { params }: RouteContext
+) {
+  try {
+    const user = await requireUser();
+    if ("error" in user) return user.error;
+
+    const { id } = await params;
+    const pin = await getMeetingPin(user.userKey, id);
+    return NextResponse.json({ pin });
+  } catch (error) {
+    logger.error("Error in meeting pin API", { error });
+    return NextResponse.json({ error: "Failed to fetch pin" }, { status: 500 });
+  }
+});
+
+// 文字起こし・カレンダー予定の紐付けを固定する（null で個別に解除）
+export const PUT = withRequestLogging(async function PUT(
+  request: NextRequest,
+  { params }: RouteContext
+) {
+  try {
+    const user = await requireUser();
+    if ("error" in user) return user.error;
+
+    const { id } = await params;
+    const body = (await request.json().catch(() => null)) as
+      | MeetingPinUpdate
+      | null;
+    if (!body || typeof body !== "object") {
+      return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+    }
+
+    for (const key of ["transcriptId", "calendarEventId", "calendarId"] as const) {
+      const value = body[key];
+      if (value !== undefined && value !== null && typeof value !== "string") {
+        return NextResponse.json({ error: `Invalid ${key}` }, { status: 400 });
+      }
+    }
+
+    // 固定する対象がユーザーからアクセスできることを確認する
+    if (body.transcriptId) {
+      const source =
+        parseMeetingSource(request.nextUrl.searchParams.get("source")) ||
+        getDefaultMeetingSource();
+      const transcript = await createMeetingProvider(
+        user.accessToken,
+        source
+      ).getTranscriptById(id, body.transcriptId);
+      if (!transcript) {
+        return NextResponse.json(
+          { error: "Transcript not found" },
+          { status: 404 }
+        );
+      }
+    }
+
+    if (body.calendarEventId) {
+      const event = await new GoogleMeetAPI(user.accessToken).getCalendarEvent(
+        body.calendarId || "primary",
+        body.calendarEventId
+      );
+      if (!event) {
+        return NextResponse.json(
+          { error: "Calendar event not found" },
+          { status: 404 }
+        );
+      }
+    }
+
+    const pin = await setMeetingPin(user.userKey, id, {
+      transcriptId: body.transcriptId,
+      calendarEventId: body.calendarEventId,
+      calendarId: body.calendarEventId ? body.calendarId || "primary" : body.calendarId,
+    });
+    return NextResponse.json({ pin });
+  } catch (error) {
+    logger.error("Error in meeting pin API", { error });
+    return googleErrorResponse(error, "Failed to save pin");
+  }
+});
+
+export const DELETE = withRequestLogging(async function DELETE(
+  _request: NextRequest,
+  { params }: RouteContext
+) {
+  try {
+    const user = await requireUser();
+    if ("error" in user) return user.error;
+
+    const { id } = await params;
+    await setMeetingPin(user.userKey, id, {
+      transcriptId: null,
+      calendarEventId: null,
+    });
+    return NextResponse.json({ pin: null });
+  } catch (error) {
+    logger.error("Error in meeting pin API", { error });
+    return NextResponse.json({ error: "Failed to delete pin" }, { status: 500 });
+  }
+});
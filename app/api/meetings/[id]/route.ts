@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUserKey } from "@/lib/auth";
+import { getAuthorizedSession, googleErrorResponse } from "@/lib/api-auth";
+import {
+  createMeetingProvider,
+  getDefaultMeetingSource,
+  parseMeetingSource,
+} from "@/lib/meeting-provider";
+import { logger, withRequestLogging } from "@/lib/logger";
+
+// 会議のメモ・文字起こし・録画・チャットとカレンダー予定をまとめて返す
+export const GET = withRequestLogging(async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await getAuthorizedSession();
+    if ("response" in auth) return auth.response;
+    const { session } = auth;
+
+    const { id } = await params;
+    const searchParams = request.nextUrl.searchParams;
+    const provider = createMeetingProvider(
+      session.accessToken,
+      parseMeetingSource(searchParams.get("source")) ||
+        getDefaultMeetingSource(),
+      {
+        userKey: getSessionUserKey(session),
+        forceRefresh: searchParams.get("refresh") === "1",
+      }
+    );
+
+    const bundle = await provider.getMeetingBundle(id);
+    if (!bundle) {
+      return NextResponse.json({ error: "Meeting not found" }, { status: 404 });
+    }
+
+    logger.info("Fetched meeting bundle", {
+      meetingId: id,
+      source: provider.source,
+      notes: !!bundle.notes,
+      transcript: !!bundle.transcript,
+      recording: !!bundle.recording,
+      chat: !!bundle.chat,
+    });
+    return NextResponse.json({ bundle });
+  } catch (error) {
+    logger.error("Error in meeting detail API", { error });
+    return googleErrorResponse(error, "Failed to fetch meeting");
+  }
+});
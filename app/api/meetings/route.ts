@@ -1,27 +1,59 @@
-import { NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth/next'
-import { GoogleMeetAPI } from '@/lib/google-meet-api'
-import { authOptions } from '@/lib/auth'
+import { NextRequest, NextResponse } from 'next/server'
+import { MeetingListOptions } from '@/lib/google-meet-api'
+import { getMeetingsWithFallback, parseMeetingSource } from '@/lib/meeting-provider'
+import { getSessionUserKey } from '@/lib/auth'
+import { getAuthorizedSession, googleErrorResponse } from '@/lib/api-auth'
+import { logger, withRequestLogging } from '@/lib/logger'
 
-export async function GET() {
+export const GET = withRequestLogging(async function GET(
+  request: NextRequest
+) {
   try {
-    const session = await getServerSession(authOptions)
-    
-    console.log('Session in meetings API:', session)
-    
-    if (!session || !session.accessToken) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const auth = await getAuthorizedSession()
+    if ('response' in auth) return auth.response
+    const { session } = auth
+
+    const searchParams = request.nextUrl.searchParams
+    const options: MeetingListOptions = {
+      cursor: searchParams.get('cursor') || undefined,
+      createdFrom: searchParams.get('from') || undefined,
+      createdTo: searchParams.get('to') || undefined,
+      query: searchParams.get('q') || undefined,
     }
 
-    const meetAPI = new GoogleMeetAPI(session.accessToken)
-    const meetings = await meetAPI.getMeetings()
+    const pageSize = searchParams.get('pageSize')
+    if (pageSize) {
+      const parsed = Number(pageSize)
+      if (!Number.isInteger(parsed) || parsed <= 0) {
+        return NextResponse.json({ error: 'Invalid pageSize' }, { status: 400 })
+      }
+      options.pageSize = parsed
+    }
 
-    return NextResponse.json({ meetings })
-  } catch (error) {
-    console.error('Error in meetings API:', error)
-    return NextResponse.json(
-      { error: 'Failed to fetch meetings' }, 
-      { status: 500 }
+    for (const [key, value] of [['from', options.createdFrom], ['to', options.createdTo]]) {
+      if (value && Number.isNaN(new Date(value).getTime())) {
+        return NextResponse.json({ error: `Invalid ${key} date` }, { status: 400 })
+      }
+    }
+
+    const { meetings, nextCursor, source, fetchedAt } = await getMeetingsWithFallback(
+      session.accessToken,
+      options,
+      parseMeetingSource(searchParams.get('source')),
+      {
+        userKey: getSessionUserKey(session),
+        forceRefresh: searchParams.get('refresh') === '1',
+      }
     )
+
+    return NextResponse.json({
+      meetings,
+      nextCursor: nextCursor ?? null,
+      source,
+      fetchedAt: fetchedAt ?? new Date().toISOString(),
+    })
+  } catch (error) {
+    logger.error('Error in meetings API', { error })
+    return googleErrorResponse(error, 'Failed to fetch meetings')
   }
-}
\ No newline at end of file
+})
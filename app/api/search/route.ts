@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUserKey } from "@/lib/auth";
+import { getAuthorizedSession, googleErrorResponse } from "@/lib/api-auth";
+import { getSearchIndex } from "@/lib/search-service";
+import { logger, withRequestLogging } from "@/lib/logger";
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+
+export const GET = withRequestLogging(async function GET(
+  request: NextRequest
+) {
+  try {
+    const auth = await getAuthorizedSession();
+    if ("response" in auth) return auth.response;
+    const { session } = auth;
+
+    const searchParams = request.nextUrl.searchParams;
+    const query = searchParams.get("q")?.trim();
+    if (!query) {
+      return NextResponse.json(
+        { error: "Query parameter 'q' is required" },
+        { status: 400 }
+      );
+    }
+
+    const limit = Math.min(
+      Number(searchParams.get("limit")) || DEFAULT_LIMIT,
+      MAX_LIMIT
+    );
+    const userKey = getSessionUserKey(session);
+    const index = await getSearchIndex(session.accessToken, userKey, {
+      refresh: searchParams.get("refresh") === "1",
+    });
+
+    const results = index.search(query, limit);
+    logger.info("Search completed", { results: results.length });
+
+    return NextResponse.json({
+      query,
+      results,
+      indexedTranscripts: index.size,
+      truncated: index.truncated,
+      failedTranscripts: index.failedCount,
+      indexedAt: index.builtAt.toISOString(),
+    });
+  } catch (error) {
+    logger.error("Error in search API", { error });
+    return googleErrorResponse(error, "Failed to search transcripts");
+  }
+});
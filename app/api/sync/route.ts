@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { getSessionUserKey } from "@/lib/auth";
+import { getAuthorizedSession, googleErrorResponse } from "@/lib/api-auth";
+import { GoogleMeetAPI } from "@/lib/google-meet-api";
+import { isDriveSyncEnabled } from "@/lib/drive-sync";
+import { logger, withRequestLogging } from "@/lib/logger";
+
+// Drive の変更を取り込み、前回からの差分件数を返す
+export const POST = withRequestLogging(async function POST() {
+  try {
+    const auth = await getAuthorizedSession();
+    if ("response" in auth) return auth.response;
+    const { session } = auth;
+
+    const userKey = getSessionUserKey(session);
+    if (!userKey) {
+      return NextResponse.json(
+        { error: "User email is required to sync" },
+        { status: 400 }
+      );
+    }
+    if (!isDriveSyncEnabled()) {
+      return NextResponse.json({ enabled: false });
+    }
+
+    const result = await new GoogleMeetAPI(session.accessToken, {
+      userKey,
+    }).syncMeetingIndex({ force: true });
+
+    return NextResponse.json({
+      enabled: true,
+      added: result.added,
+      updated: result.updated,
+      removed: result.removed,
+      newTranscripts: result.newTranscripts,
+      syncedAt: result.index.syncedAt,
+    });
+  } catch (error) {
+    logger.error("Error in sync API", { error });
+    return googleErrorResponse(error, "Failed to sync Drive changes");
+  }
+});
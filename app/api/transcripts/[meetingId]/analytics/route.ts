@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUserKey } from "@/lib/auth";
+import { getAuthorizedSession, googleErrorResponse } from "@/lib/api-auth";
+import {
+  createMeetingProvider,
+  getTranscriptForMeeting,
+  getDefaultMeetingSource,
+  parseMeetingSource,
+} from "@/lib/meeting-provider";
+import { analyzeSpeakers } from "@/lib/speaker-analytics";
+import { logger, withRequestLogging } from "@/lib/logger";
+
+// 話者ごとの発話時間・発言回数・割り込みと、発言しなかった招待者
+export const GET = withRequestLogging(async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ meetingId: string }> }
+) {
+  try {
+    const auth = await getAuthorizedSession();
+    if ("response" in auth) return auth.response;
+    const { session } = auth;
+
+    const { meetingId } = await params;
+    const searchParams = request.nextUrl.searchParams;
+    const source =
+      parseMeetingSource(searchParams.get("source")) ||
+      getDefaultMeetingSource();
+    const userKey = getSessionUserKey(session);
+
+    const [transcript, meeting] = await Promise.all([
+      getTranscriptForMeeting(session.accessToken, meetingId, {
+        source,
+        transcriptId: searchParams.get("transcriptId") || undefined,
+        userKey,
+      }),
+      createMeetingProvider(session.accessToken, source, {
+        userKey,
+      }).getMeeting(meetingId),
+    ]);
+
+    if (!transcript) {
+      return NextResponse.json(
+        { error: "Transcript not found" },
+        { status: 404 }
+      );
+    }
+
+    const analytics = analyzeSpeakers(
+      transcript.entries || [],
+      meeting?.calendarEvent
+    );
+    logger.info("Analyzed speakers", {
+      meetingId,
+      transcriptId: transcript.id,
+      basis: analytics.basis,
+      speakers: analytics.speakers.length,
+      silentAttendees: analytics.silentAttendees.length,
+    });
+
+    return NextResponse.json({ transcriptId: transcript.id, analytics });
+  } catch (error) {
+    logger.error("Error in speaker analytics API", { error });
+    return googleErrorResponse(error, "Failed to analyze speakers");
+  }
+});
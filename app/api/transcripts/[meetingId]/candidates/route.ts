@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUserKey } from "@/lib/auth";
+import { getAuthorizedSession, googleErrorResponse } from "@/lib/api-auth";
+import {
+  createMeetingProvider,
+  getDefaultMeetingSource,
+  parseMeetingSource,
+} from "@/lib/meeting-provider";
+import { logger, withRequestLogging } from "@/lib/logger";
+
+// 文字起こし候補の一覧（本文なし）を返す
+export const GET = withRequestLogging(async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ meetingId: string }> }
+) {
+  try {
+    const auth = await getAuthorizedSession();
+    if ("response" in auth) return auth.response;
+    const { session } = auth;
+
+    const { meetingId } = await params;
+    const searchParams = request.nextUrl.searchParams;
+    const source =
+      parseMeetingSource(searchParams.get("source")) ||
+      getDefaultMeetingSource();
+    const transcripts = await createMeetingProvider(
+      session.accessToken,
+      source,
+      {
+        userKey: getSessionUserKey(session),
+        forceRefresh: searchParams.get("refresh") === "1",
+      }
+    ).getAllTranscripts(meetingId);
+
+    const candidates = transcripts.map((transcript) => ({
+      ...transcript,
+      content: undefined,
+      entries: undefined,
+    }));
+
+    return NextResponse.json({ candidates });
+  } catch (error) {
+    logger.error("Error in transcript candidates API", { error });
+    return googleErrorResponse(error, "Failed to fetch transcript candidates");
+  }
+});
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUserKey } from "@/lib/auth";
+import { getAuthorizedSession, googleErrorResponse } from "@/lib/api-auth";
+import {
+  createMeetingProvider,
+  getTranscriptForMeeting,
+  getDefaultMeetingSource,
+  parseMeetingSource,
+} from "@/lib/meeting-provider";
+import {
+  exportTranscript,
+  isTranscriptExportFormat,
+  TRANSCRIPT_EXPORT_FORMATS,
+} from "@/lib/transcript-export";
+import { logger, withRequestLogging } from "@/lib/logger";
+
+export const GET = withRequestLogging(async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ meetingId: string }> }
+) {
+  try {
+    const auth = await getAuthorizedSession();
+    if ("response" in auth) return auth.response;
+    const { session } = auth;
+
+    const { meetingId } = await params;
+    const searchParams = request.nextUrl.searchParams;
+    const format = searchParams.get("format");
+
+    if (!isTranscriptExportFormat(format)) {
+      return NextResponse.json(
+        {
+          error: `Unsupported format. Use one of: ${TRANSCRIPT_EXPORT_FORMATS.join(", ")}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const source =
+      parseMeetingSource(searchParams.get("source")) ||
+      getDefaultMeetingSource();
+    const userKey = getSessionUserKey(session);
+    const [transcript, meeting] = await Promise.all([
+      getTranscriptForMeeting(session.accessToken, meetingId, {
+        source,
+        transcriptId: searchParams.get("transcriptId") || undefined,
+        userKey,
+      }),
+      createMeetingProvider(session.accessToken, source, { userKey }).getMeeting(
+        meetingId
+      ),
+    ]);
+
+    if (!transcript) {
+      return NextResponse.json(
+        { error: "Transcript not found" },
+        { status: 404 }
+      );
+    }
+
+    const result = exportTranscript(format, {
+      meeting,
+      transcript,
+      entries: transcript.entries || [],
+    });
+    logger.info("Exporting transcript", {
+      meetingId,
+      transcriptId: transcript.id,
+      format,
+    });
+
+    return new NextResponse(result.body, {
+      headers: {
+        "Content-Type": result.contentType,
+        "Content-Disposition": `attachment; filename="transcript.${format}"; filename*=UTF-8''${encodeURIComponent(result.fileName)}`,
+      },
+    });
+  } catch (error) {
+    logger.error("Error in transcript export API", { error });
+    return googleErrorResponse(error, "Failed to export transcript");
+  }
+});
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUserKey } from "@/lib/auth";
+import { getAuthorizedSession, googleErrorResponse } from "@/lib/api-auth";
+import {
+  createMeetingProvider,
+  getTranscriptForMeeting,
+  getDefaultMeetingSource,
+  parseMeetingSource,
+} from "@/lib/meeting-provider";
+import {
+  createMinutesProvider,
+  generateMinutes,
+  MinutesProviderError,
+} from "@/lib/meeting-minutes";
+import { cached, userCacheKey } from "@/lib/cache";
+import { logger, withRequestLogging } from "@/lib/logger";
+
+// 生成した議事録は文字起こしが更新されるまで使い回す
+const MINUTES_TTL_MS = 24 * 60 * 60 * 1000;
+
+// 文字起こしとカレンダー予定から構造化された議事録を生成する
+export const GET = withRequestLogging(async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ meetingId: string }> }
+) {
+  try {
+    const auth = await getAuthorizedSession();
+    if ("response" in auth) return auth.response;
+    const { session } = auth;
+
+    const { meetingId } = await params;
+    const searchParams = request.nextUrl.searchParams;
+    const source =
+      parseMeetingSource(searchParams.get("source")) ||
+      getDefaultMeetingSource();
+    const userKey = getSessionUserKey(session);
+
+    const [transcript, meeting] = await Promise.all([
+      getTranscriptForMeeting(session.accessToken, meetingId, {
+        source,
+        transcriptId: searchParams.get("transcriptId") || undefined,
+        userKey,
+      }),
+      createMeetingProvider(session.accessToken, source, {
+        userKey,
+      }).getMeeting(meetingId),
+    ]);
+
+    if (!transcript) {
+      return NextResponse.json(
+        { error: "Transcript not found" },
+        { status: 404 }
+      );
+    }
+
+    const provider = createMinutesProvider();
+    const input = {
+      entries: transcript.entries || [],
+      calendarEvent: meeting?.calendarEvent,
+      meetingName: meeting?.name,
+    };
+    // ユーザーを識別できない場合はキャッシュしない（アクセストークンをキーに使わない）
+    const minutes = userKey
+      ? (
+          await cached(
+            userCacheKey(userKey, "minutes", [
+              transcript.id,
+              provider.name,
+              provider.model,
+              meeting?.calendarEvent?.eventId,
+            ]),
+            () => generateMinutes(input, provider),
+            {
+              ttlMs: MINUTES_TTL_MS,
+              version: transcript.modifiedTime,
+              forceRefresh: searchParams.get("refresh") === "1",
+            }
+          )
+        ).value
+      : await generateMinutes(input, provider);
+
+    logger.info("Generated meeting minutes", {
+      meetingId,
+      transcriptId: transcript.id,
+      provider: minutes.provider,
+      decisions: minutes.decisions.length,
+      actionItems: minutes.actionItems.length,
+    });
+
+    return NextResponse.json({ transcriptId: transcript.id, minutes });
+  } catch (error) {
+    logger.error("Error in meeting minutes API", { error });
+    if (error instanceof MinutesProviderError) {
+      return NextResponse.json(
+        { error: "Failed to generate minutes with the model server" },
+        { status: 502 }
+      );
+    }
+    return googleErrorResponse(error, "Failed to generate minutes");
+  }
+});
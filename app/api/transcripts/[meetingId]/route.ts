@@ -1,60 +1,56 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getServerSession } from "next-auth/next";
-import { GoogleMeetAPI } from "@/lib/google-meet-api";
-import { authOptions } from "@/lib/auth";
-
-export async function GET(
+import { getSessionUserKey } from "@/lib/auth";
+import { getAuthorizedSession, googleErrorResponse } from "@/lib/api-auth";
+import {
+  getTranscriptForMeeting,
+  parseMeetingSource,
+} from "@/lib/meeting-provider";
+import { logger, withRequestLogging } from "@/lib/logger";
+
+export const GET = withRequestLogging(async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ meetingId: string }> }
 ) {
   try {
-    console.log("=== Transcript API Request ===");
-    const session = await getServerSession(authOptions);
-
-    if (!session || !session.accessToken) {
-      console.log("No session or access token found");
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+    const auth = await getAuthorizedSession();
+    if ("response" in auth) return auth.response;
+    const { session } = auth;
 
     const { meetingId } = await params;
-    console.log(`Fetching transcript for meeting ID: ${meetingId}`);
-
-    const meetAPI = new GoogleMeetAPI(session.accessToken);
 
     const searchParams = request.nextUrl.searchParams;
     const transcriptId = searchParams.get("transcriptId");
-    console.log(`Transcript ID parameter: ${transcriptId}`);
 
-    let result;
-    if (transcriptId) {
-      console.log("Using specific transcript ID");
-      result = await meetAPI.getTranscript(meetingId);
-    } else {
-      console.log("Getting all transcripts and selecting first one");
-      const transcripts = await meetAPI.getAllTranscripts(meetingId);
-      console.log(`Found ${transcripts.length} transcripts`);
-      result = transcripts.length > 0 ? transcripts[0] : null;
-    }
+    const result = await getTranscriptForMeeting(
+      session.accessToken,
+      meetingId,
+      {
+        source: parseMeetingSource(searchParams.get("source")),
+        transcriptId: transcriptId || undefined,
+        userKey: getSessionUserKey(session),
+        forceRefresh: searchParams.get("refresh") === "1",
+      }
+    );
 
     if (!result) {
-      console.log("No transcript found, returning 404");
+      logger.info("Transcript not found", { meetingId, transcriptId });
       return NextResponse.json(
         { error: "Transcript not found" },
         { status: 404 }
       );
     }
 
-    console.log(
-      `Returning transcript: ${result.name} (${
-        result.content?.length || 0
-      } characters)`
-    );
-    return NextResponse.json({ transcript: result });
+    logger.info("Returning transcript", {
+      meetingId,
+      transcriptId: result.id,
+      characters: result.content?.length || 0,
+    });
+    return NextResponse.json({
+      transcript: result,
+      fetchedAt: result.fetchedAt ?? new Date().toISOString(),
+    });
   } catch (error) {
-    console.error("Error in transcript API:", error);
-    return NextResponse.json(
-      { error: "Failed to fetch transcript" },
-      { status: 500 }
-    );
+    logger.error("Error in transcript API", { error });
+    return googleErrorResponse(error, "Failed to fetch transcript");
   }
-}
+});
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUserKey } from "@/lib/auth";
+import { getAuthorizedSession, googleErrorResponse } from "@/lib/api-auth";
+import {
+  getTranscriptForMeeting,
+  parseMeetingSource,
+} from "@/lib/meeting-provider";
+import { summarizeTranscript } from "@/lib/transcript-summary";
+import { logger, withRequestLogging } from "@/lib/logger";
+
+// 文字起こしの要約・アクションアイテム・決定事項（外部サービスを使わずに抽出する）
+export const GET = withRequestLogging(async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ meetingId: string }> }
+) {
+  try {
+    const auth = await getAuthorizedSession();
+    if ("response" in auth) return auth.response;
+    const { session } = auth;
+
+    const { meetingId } = await params;
+    const searchParams = request.nextUrl.searchParams;
+    const maxSentences = searchParams.get("sentences");
+    if (
+      maxSentences &&
+      (!Number.isInteger(Number(maxSentences)) || Number(maxSentences) <= 0)
+    ) {
+      return NextResponse.json(
+        { error: "Invalid sentences parameter" },
+        { status: 400 }
+      );
+    }
+
+    const transcript = await getTranscriptForMeeting(
+      session.accessToken,
+      meetingId,
+      {
+        source: parseMeetingSource(searchParams.get("source")),
+        transcriptId: searchParams.get("transcriptId") || undefined,
+        userKey: getSessionUserKey(session),
+      }
+    );
+
+    if (!transcript) {
+      return NextResponse.json(
+        { error: "Transcript not found" },
+        { status: 404 }
+      );
+    }
+
+    const summary = summarizeTranscript(transcript.entries || [], {
+      maxSentences: maxSentences ? Number(maxSentences) : undefined,
+    });
+    logger.info("Summarized transcript", {
+      meetingId,
+      transcriptId: transcript.id,
+      sentences: summary.sentences.length,
+      actionItems: summary.actionItems.length,
+      decisions: summary.decisions.length,
+    });
+
+    return NextResponse.json({ transcriptId: transcript.id, summary });
+  } catch (error) {
+    logger.error("Error in transcript summary API", { error });
+    return googleErrorResponse(error, "Failed to summarize transcript");
+  }
+});
@@ -0,0 +1,77 @@
+"use client";
+
+import { use } from "react";
+import { useRouter } from "next/navigation";
+import { useSession, signIn } from "next-auth/react";
+import Link from "next/link";
+import MeetingDetail from "@/components/MeetingDetail";
+import ReauthPrompt from "@/components/ReauthPrompt";
+
+export default function MeetingPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<{ source?: string }>;
+}) {
+  const { id } = use(params);
+  const { source } = use(searchParams);
+  const router = useRouter();
+  const { data: session, status } = useSession();
+
+  if (status === "loading") {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        <span className="ml-2">読み込み中...</span>
+      </div>
+    );
+  }
+
+  if (!session) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="bg-white p-6 rounded-lg shadow-md text-center">
+          <h2 className="text-xl font-semibold mb-4">ログインが必要です</h2>
+          <button
+            onClick={() => signIn("google")}
+            className="bg-blue-600 text-white px-6 py-3 rounded-lg font-medium hover:bg-blue-700 transition-colors"
+          >
+            Googleでログイン
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-6xl mx-auto px-6 py-4 flex items-center justify-between">
+          <h1 className="text-2xl font-bold text-gray-900">
+            Google Meet 文字起こし
+          </h1>
+          <Link
+            href="/"
+            className="text-sm font-medium text-blue-600 hover:text-blue-800"
+          >
+            会議一覧へ
+          </Link>
+        </div>
+      </header>
+
+      <main className="py-8">
+        {session.error && (
+          <div className="max-w-4xl mx-auto px-6 mb-4">
+            <ReauthPrompt />
+          </div>
+        )}
+        <MeetingDetail
+          meetingId={id}
+          source={source}
+          onBack={() => router.push("/")}
+        />
+      </main>
+    </div>
+  );
+}
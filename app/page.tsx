@@ -1,15 +1,22 @@
 "use client";
 
-import { useState } from "react";
+import { useRouter } from "next/navigation";
 import { useSession, signIn, signOut } from "next-auth/react";
 import Image from "next/image";
+import Link from "next/link";
 import { Meeting } from "@/lib/google-meet-api";
 import MeetingList from "@/components/MeetingList";
-import TranscriptViewer from "@/components/TranscriptViewer";
+import ReauthPrompt from "@/components/ReauthPrompt";
 
 export default function Home() {
   const { data: session, status } = useSession();
-  const [selectedMeeting, setSelectedMeeting] = useState<Meeting | null>(null);
+  const router = useRouter();
+
+  // 会議ごとの詳細ページ（メモ・文字起こし・録画・チャット）を開く
+  const openMeeting = (meeting: Meeting) => {
+    const query = meeting.source ? `?source=${meeting.source}` : "";
+    router.push(`/meetings/${encodeURIComponent(meeting.id)}${query}`);
+  };
 
   if (status === "loading") {
     return (
@@ -79,6 +86,13 @@ export default function Home() {
           </h1>
 
           <div className="flex items-center space-x-4">
+            <Link
+              href="/search"
+              className="text-sm font-medium text-blue-600 hover:text-blue-800"
+            >
+              文字起こし検索
+            </Link>
+
             <div className="flex items-center space-x-2">
               {session.user?.image && (
                 <Image
@@ -105,14 +119,12 @@ export default function Home() {
       </header>
 
       <main className="py-8">
-        {selectedMeeting ? (
-          <TranscriptViewer
-            meeting={selectedMeeting}
-            onBack={() => setSelectedMeeting(null)}
-          />
-        ) : (
-          <MeetingList onMeetingSelect={setSelectedMeeting} />
+        {session.error && (
+          <div className="max-w-4xl mx-auto px-6 mb-4">
+            <ReauthPrompt />
+          </div>
         )}
+        <MeetingList onMeetingSelect={openMeeting} />
       </main>
     </div>
   );
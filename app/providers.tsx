@@ -8,7 +8,8 @@ export default function Providers({
   children: React.ReactNode
 }) {
   return (
-    <SessionProvider>
+    // 定期的にセッションを取得し、期限切れ前にアクセストークンを更新させる
+    <SessionProvider refetchInterval={5 * 60}>
       {children}
     </SessionProvider>
   )
@@ -0,0 +1,83 @@
+"use client";
+
+import { useState } from "react";
+import { useSession, signIn } from "next-auth/react";
+import Link from "next/link";
+import { Meeting } from "@/lib/google-meet-api";
+import TranscriptSearch from "@/components/TranscriptSearch";
+import TranscriptViewer from "@/components/TranscriptViewer";
+import ReauthPrompt from "@/components/ReauthPrompt";
+
+export default function SearchPage() {
+  const { data: session, status } = useSession();
+  const [selected, setSelected] = useState<{
+    meeting: Meeting;
+    entryIndex: number;
+  } | null>(null);
+
+  if (status === "loading") {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        <span className="ml-2">読み込み中...</span>
+      </div>
+    );
+  }
+
+  if (!session) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="bg-white p-6 rounded-lg shadow-md text-center">
+          <h2 className="text-xl font-semibold mb-4">ログインが必要です</h2>
+          <button
+            onClick={() => signIn("google")}
+            className="bg-blue-600 text-white px-6 py-3 rounded-lg font-medium hover:bg-blue-700 transition-colors"
+          >
+            Googleでログイン
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-6xl mx-auto px-6 py-4 flex items-center justify-between">
+          <h1 className="text-2xl font-bold text-gray-900">
+            Google Meet 文字起こし
+          </h1>
+          <Link
+            href="/"
+            className="text-sm font-medium text-blue-600 hover:text-blue-800"
+          >
+            会議一覧へ
+          </Link>
+        </div>
+      </header>
+
+      <main className="py-8">
+        {session.error && (
+          <div className="max-w-4xl mx-auto px-6 mb-4">
+            <ReauthPrompt />
+          </div>
+        )}
+        {/* 検索結果は非表示にするだけで保持し、戻ったときに再検索しない */}
+        <div className={selected ? "hidden" : ""}>
+          <TranscriptSearch
+            onHitSelect={(meeting, entryIndex) =>
+              setSelected({ meeting, entryIndex })
+            }
+          />
+        </div>
+        {selected && (
+          <TranscriptViewer
+            meeting={selected.meeting}
+            initialEntryIndex={selected.entryIndex}
+            onBack={() => setSelected(null)}
+          />
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { CalendarInfo } from "@/lib/google-meet-api";
+
+interface CalendarOption extends CalendarInfo {
+  selected: boolean;
+}
+
+interface CalendarSelectorProps {
+  onSaved: () => void;
+  onClose: () => void;
+}
+
+// 会議との照合に使うカレンダーを選択する
+export default function CalendarSelector({
+  onSaved,
+  onClose,
+}: CalendarSelectorProps) {
+  const [calendars, setCalendars] = useState<CalendarOption[]>([]);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchCalendars = async () => {
+      try {
+        const response = await fetch("/api/calendars");
+        if (!response.ok) {
+          throw new Error("カレンダー一覧の取得に失敗しました");
+        }
+
+        const data = await response.json();
+        const options: CalendarOption[] = data.calendars || [];
+        setCalendars(options);
+        setSelectedIds(
+          new Set(options.filter((c) => c.selected).map((c) => c.id))
+        );
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "不明なエラーが発生しました");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchCalendars();
+  }, []);
+
+  const toggle = (calendarId: string) => {
+    setSelectedIds((current) => {
+      const next = new Set(current);
+      if (next.has(calendarId)) {
+        next.delete(calendarId);
+      } else {
+        next.add(calendarId);
+      }
+      return next;
+    });
+  };
+
+  const save = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      const response = await fetch("/api/calendars", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ calendarIds: [...selectedIds] }),
+      });
+      if (!response.ok) {
+        throw new Error("カレンダー設定の保存に失敗しました");
+      }
+      onSaved();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "不明なエラーが発生しました");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="mb-6 p-4 bg-white border rounded-lg shadow-sm">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-semibold">照合に使うカレンダー</h3>
+        <button
+          onClick={onClose}
+          className="text-sm text-gray-500 hover:text-gray-700"
+        >
+          閉じる
+        </button>
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-gray-500">読み込み中...</p>
+      ) : (
+        <ul className="space-y-1 max-h-64 overflow-y-auto mb-3">
+          {calendars.map((calendar) => (
+            <li key={calendar.id}>
+              <label className="flex items-center gap-2 text-sm cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={selectedIds.has(calendar.id)}
+                  onChange={() => toggle(calendar.id)}
+                />
+                <span
+                  className="inline-block w-3 h-3 rounded-full"
+                  style={{ backgroundColor: calendar.backgroundColor || "#9ca3af" }}
+                />
+                {calendar.summary}
+                {calendar.primary && (
+                  <span className="text-xs text-gray-500">（メイン）</span>
+                )}
+              </label>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && <p className="text-sm text-red-600 mb-2">{error}</p>}
+
+      <button
+        onClick={save}
+        disabled={saving || loading || selectedIds.size === 0}
+        className="bg-blue-600 text-white px-4 py-2 rounded text-sm hover:bg-blue-700 disabled:opacity-50"
+      >
+        {saving ? "保存中..." : "保存して再照合"}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+'use client'
+
+import { MatchConfidence, MatchResult } from '@/lib/google-meet-api'
+
+interface MatchBadgeProps {
+  match: MatchResult
+  className?: string
+}
+
+const CONFIDENCE_STYLES: Record<MatchConfidence, { label: string; className: string }> = {
+  high: { label: '一致度: 高', className: 'bg-green-100 text-green-800 border-green-300' },
+  medium: { label: '一致度: 中', className: 'bg-yellow-100 text-yellow-800 border-yellow-300' },
+  low: { label: '一致度: 低', className: 'bg-red-100 text-red-800 border-red-300' },
+}
+
+// 自動照合の信頼度を表示し、ツールチップで根拠を示す
+export default function MatchBadge({ match, className = '' }: MatchBadgeProps) {
+  const style = CONFIDENCE_STYLES[match.confidence]
+  const tooltip = [
+    `スコア ${match.score}`,
+    ...match.reasons.map((reason) => `・${reason.label} (+${Math.round(reason.points)})`),
+  ].join('\n')
+
+  return (
+    <span
+      title={tooltip}
+      className={`inline-flex items-center text-xs px-2 py-0.5 rounded border cursor-help whitespace-nowrap ${style.className} ${className}`}
+    >
+      {style.label}
+    </span>
+  )
+}
@@ -0,0 +1,204 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type {
+  MeetingArtifact,
+  MeetingArtifactKind,
+  MeetingBundle,
+} from "@/lib/meeting-bundle";
+import TranscriptViewer from "./TranscriptViewer";
+import ReauthPrompt from "./ReauthPrompt";
+
+interface MeetingDetailProps {
+  meetingId: string;
+  source?: string;
+  onBack: () => void;
+}
+
+const ARTIFACT_SLOTS: Array<{ kind: MeetingArtifactKind; label: string }> = [
+  { kind: "notes", label: "Gemini のメモ" },
+  { kind: "transcript", label: "文字起こし" },
+  { kind: "recording", label: "録画" },
+  { kind: "chat", label: "チャット" },
+];
+
+const RESPONSE_STATUS_LABELS: Record<string, string> = {
+  accepted: "参加予定",
+  declined: "不参加",
+  tentative: "未定",
+  needsAction: "未回答",
+};
+
+export default function MeetingDetail({
+  meetingId,
+  source,
+  onBack,
+}: MeetingDetailProps) {
+  const [bundle, setBundle] = useState<MeetingBundle | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [reauthRequired, setReauthRequired] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchBundle = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const query = source ? `?source=${encodeURIComponent(source)}` : "";
+        const response = await fetch(
+          `/api/meetings/${encodeURIComponent(meetingId)}${query}`
+        );
+
+        if (!response.ok) {
+          if (response.status === 401) {
+            setReauthRequired(true);
+            throw new Error("ログインの有効期限が切れました");
+          }
+          if (response.status === 404) {
+            throw new Error("会議が見つかりません");
+          }
+          throw new Error("会議の取得に失敗しました");
+        }
+
+        const data = await response.json();
+        if (!cancelled) setBundle(data.bundle);
+      } catch (err) {
+        if (!cancelled) {
+          setError(
+            err instanceof Error ? err.message : "不明なエラーが発生しました"
+          );
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchBundle();
+    return () => {
+      cancelled = true;
+    };
+  }, [meetingId, source]);
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleString("ja-JP");
+  };
+
+  const renderArtifact = (label: string, artifact: MeetingArtifact | null) => (
+    <div key={label} className="border rounded-lg p-3 bg-white">
+      <p className="text-xs font-semibold text-gray-500 mb-1">{label}</p>
+      {artifact ? (
+        <>
+          <p className="text-sm text-gray-900 truncate" title={artifact.name}>
+            {artifact.name}
+          </p>
+          {artifact.webViewLink && (
+            <a
+              href={artifact.webViewLink}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-xs text-blue-600 hover:text-blue-800"
+            >
+              開く
+            </a>
+          )}
+        </>
+      ) : (
+        <p className="text-sm text-gray-400">見つかりません</p>
+      )}
+    </div>
+  );
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        <span className="ml-2">会議を読み込み中...</span>
+      </div>
+    );
+  }
+
+  if (error || !bundle) {
+    return (
+      <div className="w-full max-w-4xl mx-auto p-6">
+        {reauthRequired ? (
+          <ReauthPrompt />
+        ) : (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded">
+            <p className="mb-2">{error || "会議が見つかりません"}</p>
+            <button
+              onClick={onBack}
+              className="bg-red-600 text-white px-4 py-2 rounded hover:bg-red-700"
+            >
+              会議一覧へ戻る
+            </button>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  const event = bundle.calendarEvent;
+
+  return (
+    <div>
+      <div className="w-full max-w-4xl mx-auto px-6 pt-6">
+        {event && (
+          <div className="mb-4 p-4 bg-blue-50 rounded-lg text-sm">
+            <h3 className="font-semibold text-blue-900 mb-1">
+              📅 {event.summary || "カレンダー予定"}
+            </h3>
+            {event.startTime && (
+              <p className="text-blue-800">
+                {formatDate(event.startTime)}
+                {event.endTime && ` 〜 ${formatDate(event.endTime)}`}
+              </p>
+            )}
+            {event.organizer && (
+              <p className="text-blue-800">
+                主催者: {event.organizer.displayName || event.organizer.email}
+              </p>
+            )}
+            {event.attendees && event.attendees.length > 0 && (
+              <p className="text-blue-800">
+                参加者:{" "}
+                {event.attendees
+                  .map(
+                    (attendee) =>
+                      `${attendee.displayName || attendee.email}${
+                        attendee.responseStatus
+                          ? `（${
+                              RESPONSE_STATUS_LABELS[attendee.responseStatus] ||
+                              attendee.responseStatus
+                            }）`
+                          : ""
+                      }`
+                  )
+                  .join("、")}
+              </p>
+            )}
+            {event.meetLink && (
+              <a
+                href={event.meetLink}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-blue-600 hover:text-blue-800"
+              >
+                Meet リンク
+              </a>
+            )}
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          {ARTIFACT_SLOTS.map((slot) =>
+            renderArtifact(slot.label, bundle[slot.kind])
+          )}
+        </div>
+      </div>
+
+      <TranscriptViewer meeting={bundle.meeting} onBack={onBack} />
+    </div>
+  );
+}
@@ -1,32 +1,127 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { Meeting } from "@/lib/google-meet-api";
+import {
+  Meeting,
+  MeetingCalendarEvent,
+  MeetingSource,
+} from "@/lib/google-meet-api";
+import MatchBadge from "./MatchBadge";
+import ReauthPrompt from "./ReauthPrompt";
+import CalendarSelector from "./CalendarSelector";
+
+const PAGE_SIZE = 10;
 
 interface MeetingListProps {
   onMeetingSelect: (meeting: Meeting) => void;
 }
 
+interface MeetingFilters {
+  query: string;
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: MeetingFilters = { query: "", from: "", to: "" };
+// Drive の変更を確認する間隔
+const SYNC_POLL_INTERVAL_MS = 60 * 1000;
+
+interface SyncChanges {
+  count: number;
+  newTranscripts: number;
+}
+
 export default function MeetingList({ onMeetingSelect }: MeetingListProps) {
   const [meetings, setMeetings] = useState<Meeting[]>([]);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // トークンの期限切れ（401）で再ログインが必要
+  const [reauthRequired, setReauthRequired] = useState(false);
+  const [showCalendarSelector, setShowCalendarSelector] = useState(false);
+  const [fetchedAt, setFetchedAt] = useState<string | null>(null);
+  // 一覧の取得後に Drive で見つかった変更
+  const [syncChanges, setSyncChanges] = useState<SyncChanges | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  // 続きのページは最初のページと同じ取得元から読み込む
+  const [source, setSource] = useState<MeetingSource | null>(null);
+  const [filters, setFilters] = useState<MeetingFilters>(EMPTY_FILTERS);
+  const [appliedFilters, setAppliedFilters] =
+    useState<MeetingFilters>(EMPTY_FILTERS);
 
   useEffect(() => {
     fetchMeetings();
+  }, []); // eslint-disable-line react-hooks/exhaustive-deps
+
+  useEffect(() => {
+    const pollChanges = async () => {
+      try {
+        const response = await fetch("/api/sync", { method: "POST" });
+        if (!response.ok) return;
+
+        const data = await response.json();
+        const count = (data.added || 0) + (data.updated || 0) + (data.removed || 0);
+        if (count > 0) {
+          setSyncChanges((current) => ({
+            count: (current?.count || 0) + count,
+            newTranscripts:
+              (current?.newTranscripts || 0) + (data.newTranscripts || 0),
+          }));
+        }
+      } catch {
+        // 変更の確認に失敗しても一覧の表示は続ける
+      }
+    };
+
+    const timer = setInterval(pollChanges, SYNC_POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
   }, []);
 
-  const fetchMeetings = async () => {
+  const buildQueryString = (
+    activeFilters: MeetingFilters,
+    cursor?: string,
+    refresh = false
+  ) => {
+    const params = new URLSearchParams({ pageSize: String(PAGE_SIZE) });
+    if (refresh) params.set("refresh", "1");
+    if (cursor) params.set("cursor", cursor);
+    if (cursor && source) params.set("source", source);
+    if (activeFilters.query.trim()) params.set("q", activeFilters.query.trim());
+    // 日付入力はローカル日付のため、その日の始まり・終わりに変換する
+    if (activeFilters.from) {
+      params.set("from", new Date(`${activeFilters.from}T00:00:00`).toISOString());
+    }
+    if (activeFilters.to) {
+      params.set("to", new Date(`${activeFilters.to}T23:59:59.999`).toISOString());
+    }
+    return params.toString();
+  };
+
+  const fetchMeetings = async (
+    activeFilters: MeetingFilters = appliedFilters,
+    refresh = false
+  ) => {
     try {
       setLoading(true);
-      const response = await fetch("/api/meetings");
+      setError(null);
+      const response = await fetch(
+        `/api/meetings?${buildQueryString(activeFilters, undefined, refresh)}`
+      );
 
+      if (response.status === 401) {
+        setReauthRequired(true);
+        return;
+      }
       if (!response.ok) {
         throw new Error("Failed to fetch meetings");
       }
 
       const data = await response.json();
       setMeetings(data.meetings || []);
+      setNextCursor(data.nextCursor || null);
+      setSource(data.source || null);
+      setFetchedAt(data.fetchedAt || null);
+      setSyncChanges(null);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Unknown error occurred");
     } finally {
@@ -34,6 +129,96 @@ export default function MeetingList({ onMeetingSelect }: MeetingListProps) {
     }
   };
 
+  // カレンダー予定を会議に固定する（null で固定を解除）
+  const pinCalendarEvent = async (
+    meeting: Meeting,
+    event: MeetingCalendarEvent | null
+  ) => {
+    try {
+      const query = meeting.source ? `?source=${meeting.source}` : "";
+      const response = await fetch(`/api/meetings/${meeting.id}/pin${query}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(
+          event
+            ? { calendarEventId: event.eventId, calendarId: event.calendarId }
+            : { calendarEventId: null }
+        ),
+      });
+      if (!response.ok) {
+        throw new Error("Failed to save pin");
+      }
+
+      setMeetings((current) =>
+        current.map((item) => {
+          if (item.id !== meeting.id) return item;
+          if (!event) {
+            return item.calendarEvent
+              ? {
+                  ...item,
+                  calendarEvent: { ...item.calendarEvent, pinned: false },
+                }
+              : item;
+          }
+
+          // 固定した候補と入れ替え、元の予定は候補に戻す
+          const alternates = (item.calendarAlternates || []).filter(
+            (alternate) => alternate.eventId !== event.eventId
+          );
+          if (item.calendarEvent && item.calendarEvent.eventId !== event.eventId) {
+            alternates.unshift({ ...item.calendarEvent, pinned: false });
+          }
+          return {
+            ...item,
+            calendarEvent: { ...event, pinned: true },
+            calendarAlternates: alternates,
+          };
+        })
+      );
+    } catch {
+      alert("予定の固定に失敗しました");
+    }
+  };
+
+  const fetchMoreMeetings = async () => {
+    if (!nextCursor) return;
+
+    try {
+      setLoadingMore(true);
+      const response = await fetch(
+        `/api/meetings?${buildQueryString(appliedFilters, nextCursor)}`
+      );
+
+      if (response.status === 401) {
+        setReauthRequired(true);
+        return;
+      }
+      if (!response.ok) {
+        throw new Error("Failed to fetch meetings");
+      }
+
+      const data = await response.json();
+      setMeetings((prev) => [...prev, ...(data.meetings || [])]);
+      setNextCursor(data.nextCursor || null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error occurred");
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const applyFilters = (e: React.FormEvent) => {
+    e.preventDefault();
+    setAppliedFilters(filters);
+    fetchMeetings(filters);
+  };
+
+  const clearFilters = () => {
+    setFilters(EMPTY_FILTERS);
+    setAppliedFilters(EMPTY_FILTERS);
+    fetchMeetings(EMPTY_FILTERS);
+  };
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleString("ja-JP");
   };
@@ -62,6 +247,15 @@ export default function MeetingList({ onMeetingSelect }: MeetingListProps) {
     );
   }
 
+  if (reauthRequired) {
+    return (
+      <div className="w-full max-w-4xl mx-auto p-6">
+        <h2 className="text-2xl font-bold mb-4">会議一覧</h2>
+        <ReauthPrompt />
+      </div>
+    );
+  }
+
   if (error) {
     return (
       <div className="w-full max-w-4xl mx-auto p-6">
@@ -69,7 +263,7 @@ export default function MeetingList({ onMeetingSelect }: MeetingListProps) {
         <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded">
           <p>エラー: {error}</p>
           <button
-            onClick={fetchMeetings}
+            onClick={() => fetchMeetings()}
             className="mt-2 bg-red-600 text-white px-4 py-2 rounded hover:bg-red-700"
           >
             再試行
@@ -83,26 +277,114 @@ export default function MeetingList({ onMeetingSelect }: MeetingListProps) {
     <div className="w-full max-w-4xl mx-auto p-6">
       <div className="flex justify-between items-center mb-6">
         <h2 className="text-2xl font-bold">会議一覧</h2>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setShowCalendarSelector((current) => !current)}
+            className="bg-white border border-blue-600 text-blue-600 px-4 py-2 rounded hover:bg-blue-50"
+          >
+            カレンダー設定
+          </button>
+          {fetchedAt && (
+            <span className="text-xs text-gray-500">
+              取得: {new Date(fetchedAt).toLocaleTimeString("ja-JP")}
+            </span>
+          )}
+          <button
+            onClick={() => fetchMeetings(appliedFilters, true)}
+            title="キャッシュを使わずに取得し直す"
+            className="bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700 flex items-center gap-2"
+          >
+            <svg
+              className="w-4 h-4"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
+              />
+            </svg>
+            更新
+          </button>
+        </div>
+      </div>
+
+      {syncChanges && (
+        <div className="mb-6 p-3 bg-yellow-50 border border-yellow-300 rounded flex items-center justify-between text-sm">
+          <span>
+            Drive に新しい変更があります（{syncChanges.count}件
+            {syncChanges.newTranscripts > 0 &&
+              `、うち文字起こし ${syncChanges.newTranscripts}件`}
+            ）
+          </span>
+          <button
+            onClick={() => fetchMeetings(appliedFilters)}
+            className="bg-yellow-500 text-white px-3 py-1 rounded hover:bg-yellow-600"
+          >
+            再読み込み
+          </button>
+        </div>
+      )}
+
+      {showCalendarSelector && (
+        <CalendarSelector
+          onClose={() => setShowCalendarSelector(false)}
+          onSaved={() => {
+            setShowCalendarSelector(false);
+            fetchMeetings(appliedFilters, true);
+          }}
+        />
+      )}
+
+      <form
+        onSubmit={applyFilters}
+        className="mb-6 p-4 bg-gray-100 rounded-lg flex flex-wrap items-end gap-3 text-sm"
+      >
+        <label className="flex flex-col flex-1 min-w-[12rem]">
+          <span className="font-semibold mb-1">キーワード</span>
+          <input
+            type="text"
+            value={filters.query}
+            onChange={(e) => setFilters({ ...filters, query: e.target.value })}
+            placeholder="会議名・本文で検索"
+            className="border rounded px-3 py-2 bg-white"
+          />
+        </label>
+        <label className="flex flex-col">
+          <span className="font-semibold mb-1">作成日（から）</span>
+          <input
+            type="date"
+            value={filters.from}
+            onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+            className="border rounded px-3 py-2 bg-white"
+          />
+        </label>
+        <label className="flex flex-col">
+          <span className="font-semibold mb-1">作成日（まで）</span>
+          <input
+            type="date"
+            value={filters.to}
+            onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+            className="border rounded px-3 py-2 bg-white"
+          />
+        </label>
         <button
-          onClick={fetchMeetings}
-          className="bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700 flex items-center gap-2"
+          type="submit"
+          className="bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700"
         >
-          <svg
-            className="w-4 h-4"
-            fill="none"
-            stroke="currentColor"
-            viewBox="0 0 24 24"
-          >
-            <path
-              strokeLinecap="round"
-              strokeLinejoin="round"
-              strokeWidth={2}
-              d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
-            />
-          </svg>
-          更新
+          絞り込み
         </button>
-      </div>
+        <button
+          type="button"
+          onClick={clearFilters}
+          className="bg-gray-200 text-gray-700 px-4 py-2 rounded hover:bg-gray-300"
+        >
+          クリア
+        </button>
+      </form>
 
       {meetings.length === 0 ? (
         <div className="text-center py-8 text-gray-500">
@@ -120,11 +402,26 @@ export default function MeetingList({ onMeetingSelect }: MeetingListProps) {
                 <div className="flex-1">
                   <h3 className="font-semibold text-lg mb-2">{meeting.name}</h3>
                   <div className="space-y-1 text-sm text-gray-600">
-                    <p>作成日時: {formatDate(meeting.createdTime)}</p>
-                    {meeting.modifiedTime && (
-                      <p>最終更新: {formatDate(meeting.modifiedTime)}</p>
+                    {meeting.source === "meet" ? (
+                      <>
+                        <p>
+                          開始: {formatDate(meeting.createdTime)}
+                          {meeting.endTime &&
+                            ` 〜 終了: ${formatDate(meeting.endTime)}`}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          Meet 会議記録: {meeting.conferenceRecord}
+                        </p>
+                      </>
+                    ) : (
+                      <>
+                        <p>作成日時: {formatDate(meeting.createdTime)}</p>
+                        {meeting.modifiedTime && (
+                          <p>最終更新: {formatDate(meeting.modifiedTime)}</p>
+                        )}
+                        <p>ファイルサイズ: {getFileSize(meeting.size)}</p>
+                      </>
                     )}
-                    <p>ファイルサイズ: {getFileSize(meeting.size)}</p>
                     {meeting.meetingCode && (
                       <p>
                         会議コード:{" "}
@@ -135,9 +432,39 @@ export default function MeetingList({ onMeetingSelect }: MeetingListProps) {
                     {/* カレンダー情報 */}
                     {meeting.calendarEvent && (
                       <div className="mt-2 p-2 bg-blue-50 rounded border-l-4 border-blue-200">
-                        <p className="font-medium text-blue-800">
-                          📅 カレンダー予定と連携済み
-                        </p>
+                        <div className="flex items-center justify-between">
+                          <p className="font-medium text-blue-800">
+                            📅 カレンダー予定と連携済み
+                            {meeting.calendarEvent.pinned && (
+                              <span className="ml-2 text-xs bg-amber-100 text-amber-800 px-2 py-0.5 rounded">
+                                📌 固定
+                              </span>
+                            )}
+                            {!meeting.calendarEvent.pinned &&
+                              meeting.calendarEvent.match && (
+                                <MatchBadge
+                                  match={meeting.calendarEvent.match}
+                                  className="ml-2"
+                                />
+                              )}
+                          </p>
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              pinCalendarEvent(
+                                meeting,
+                                meeting.calendarEvent?.pinned
+                                  ? null
+                                  : meeting.calendarEvent || null
+                              );
+                            }}
+                            className="text-xs text-blue-700 hover:text-blue-900 underline"
+                          >
+                            {meeting.calendarEvent.pinned
+                              ? "固定を解除"
+                              : "この予定を固定"}
+                          </button>
+                        </div>
                         <p>
                           <strong>予定名:</strong>{" "}
                           {meeting.calendarEvent.summary}
@@ -169,6 +496,42 @@ export default function MeetingList({ onMeetingSelect }: MeetingListProps) {
                         </p>
                       </div>
                     )}
+                    {meeting.calendarAlternates &&
+                      meeting.calendarAlternates.length > 0 && (
+                        <details
+                          className="mt-2 text-xs"
+                          onClick={(e) => e.stopPropagation()}
+                        >
+                          <summary className="cursor-pointer text-blue-700">
+                            他の予定候補（{meeting.calendarAlternates.length}件）
+                          </summary>
+                          <ul className="mt-1 space-y-1">
+                            {meeting.calendarAlternates.map((alternate) => (
+                              <li
+                                key={alternate.eventId}
+                                className="flex items-center gap-2 p-1 bg-gray-50 rounded"
+                              >
+                                <span className="flex-1">
+                                  {alternate.summary || "（タイトルなし）"}
+                                  {alternate.startTime &&
+                                    ` ・ ${formatDate(alternate.startTime)}`}
+                                </span>
+                                {alternate.match && (
+                                  <MatchBadge match={alternate.match} />
+                                )}
+                                <button
+                                  onClick={() =>
+                                    pinCalendarEvent(meeting, alternate)
+                                  }
+                                  className="text-blue-700 hover:text-blue-900 underline whitespace-nowrap"
+                                >
+                                  この予定を固定
+                                </button>
+                              </li>
+                            ))}
+                          </ul>
+                        </details>
+                      )}
                   </div>
                 </div>
                 <div className="flex items-center text-blue-600">
@@ -216,6 +579,21 @@ export default function MeetingList({ onMeetingSelect }: MeetingListProps) {
               )}
             </div>
           ))}
+
+          {nextCursor && (
+            <div className="flex justify-center pt-2">
+              <button
+                onClick={fetchMoreMeetings}
+                disabled={loadingMore}
+                className="bg-white border border-blue-600 text-blue-600 px-6 py-2 rounded hover:bg-blue-50 disabled:opacity-50 flex items-center gap-2"
+              >
+                {loadingMore && (
+                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
+                )}
+                {loadingMore ? "読み込み中..." : "さらに読み込む"}
+              </button>
+            </div>
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,119 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { MeetingNotes as Notes } from '@/lib/meeting-notes'
+
+interface MeetingNotesProps {
+  // 会議メモ API の URL
+  notesUrl: string
+  // メモ内の「(00:05:12)」から文字起こしの該当箇所へ移動する
+  onTimestampClick?: (timestamp: string) => void
+}
+
+export default function MeetingNotes({ notesUrl, onTimestampClick }: MeetingNotesProps) {
+  const [notes, setNotes] = useState<Notes | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const fetchNotes = async () => {
+      try {
+        setLoading(true)
+        const response = await fetch(notesUrl)
+        // メモがない会議も多いため、取得できなければ何も表示しない
+        const data = response.ok ? await response.json() : null
+        if (!cancelled) setNotes(data?.notes || null)
+      } catch {
+        if (!cancelled) setNotes(null)
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    fetchNotes()
+    return () => {
+      cancelled = true
+    }
+  }, [notesUrl])
+
+  if (loading || !notes) return null
+
+  const isEmpty = notes.summary.length === 0 && notes.topics.length === 0 && notes.nextSteps.length === 0
+
+  return (
+    <details open className="mb-4 bg-white border rounded-lg p-6 shadow-sm">
+      <summary className="cursor-pointer text-lg font-semibold">Gemini のメモ</summary>
+
+      <div className="mt-4 space-y-6">
+        {isEmpty && <p className="text-sm text-gray-500">メモの内容を読み取れませんでした</p>}
+
+        {notes.summary.length > 0 && (
+          <section>
+            <h4 className="font-semibold mb-2">まとめ</h4>
+            <div className="space-y-2 text-sm text-gray-900">
+              {notes.summary.map((paragraph, index) => (
+                <p key={index}>{paragraph}</p>
+              ))}
+            </div>
+          </section>
+        )}
+
+        {notes.topics.length > 0 && (
+          <section>
+            <h4 className="font-semibold mb-2">詳細</h4>
+            <ul className="space-y-2 text-sm list-disc pl-5">
+              {notes.topics.map((topic, index) => (
+                <li key={index} className="text-gray-900">
+                  {topic.title && <span className="font-semibold">{topic.title}: </span>}
+                  {topic.text}
+                  {topic.timestamp && (
+                    <button
+                      onClick={() => onTimestampClick?.(topic.timestamp!)}
+                      className="ml-2 text-xs text-blue-600 hover:text-blue-800 font-mono"
+                      title="文字起こしで表示"
+                    >
+                      {topic.timestamp}
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        {notes.nextSteps.length > 0 && (
+          <section>
+            <h4 className="font-semibold mb-2">次のステップ</h4>
+            <ul className="space-y-2">
+              {notes.nextSteps.map((step, index) => (
+                <li key={index} className="flex items-start gap-3 text-sm">
+                  <span className="flex-1 text-gray-900">{step.task}</span>
+                  {step.assignees.map((assignee) => (
+                    <span
+                      key={assignee}
+                      className="text-xs bg-blue-100 text-blue-800 px-2 py-0.5 rounded whitespace-nowrap"
+                    >
+                      担当: {assignee}
+                    </span>
+                  ))}
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        {notes.webViewLink && (
+          <a
+            href={notes.webViewLink}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="inline-block text-blue-600 hover:text-blue-800 text-sm"
+          >
+            Google ドキュメントでメモを開く
+          </a>
+        )}
+      </div>
+    </details>
+  )
+}
@@ -0,0 +1,20 @@
+'use client'
+
+import { signIn } from 'next-auth/react'
+
+// アクセストークンの更新に失敗した場合に再ログインを促す
+export default function ReauthPrompt() {
+  return (
+    <div className="bg-yellow-50 border border-yellow-300 text-yellow-800 px-4 py-3 rounded flex items-center justify-between gap-4">
+      <p className="text-sm">
+        ログインの有効期限が切れました。続けるには再度ログインしてください。
+      </p>
+      <button
+        onClick={() => signIn('google')}
+        className="bg-blue-600 text-white px-4 py-2 rounded text-sm whitespace-nowrap hover:bg-blue-700"
+      >
+        再ログイン
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,201 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import type { TranscriptEntry } from '@/lib/google-meet-api'
+import type { SpeakerAnalytics as Analytics, SpeakerStats } from '@/lib/speaker-analytics'
+import { SPEAKER_COLORS, UNKNOWN_COLOR, UNKNOWN_SPEAKER } from './TranscriptTimeline'
+
+interface SpeakerAnalyticsProps {
+  // 話者分析 API の URL（表示中の文字起こしを指定したもの）
+  analyticsUrl: string
+  // タイムラインと同じ色を割り当てるための発話一覧
+  entries: TranscriptEntry[]
+  onEntryClick?: (entryIndex: number) => void
+}
+
+const RESPONSE_STATUS_LABELS: Record<string, string> = {
+  accepted: '参加予定',
+  declined: '不参加',
+  tentative: '未定',
+  needsAction: '未回答',
+}
+
+const formatDuration = (ms: number) => {
+  const totalSeconds = Math.round(ms / 1000)
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = totalSeconds % 60
+  return minutes > 0 ? `${minutes}分${seconds}秒` : `${seconds}秒`
+}
+
+const formatPercent = (share: number) => `${Math.round(share * 1000) / 10}%`
+
+export default function SpeakerAnalytics({ analyticsUrl, entries, onEntryClick }: SpeakerAnalyticsProps) {
+  const [analytics, setAnalytics] = useState<Analytics | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const fetchAnalytics = async () => {
+      try {
+        setLoading(true)
+        setError(null)
+        const response = await fetch(analyticsUrl)
+        if (!response.ok) {
+          throw new Error('話者分析に失敗しました')
+        }
+        const data = await response.json()
+        if (!cancelled) setAnalytics(data.analytics)
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : '不明なエラーが発生しました')
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    fetchAnalytics()
+    return () => {
+      cancelled = true
+    }
+  }, [analyticsUrl])
+
+  // タイムラインと同じく、登場順に色を割り当てる
+  const colorOf = useMemo(() => {
+    const colors = new Map<string, (typeof SPEAKER_COLORS)[number]>()
+    for (const entry of entries) {
+      if (entry.speaker && !colors.has(entry.speaker)) {
+        colors.set(entry.speaker, SPEAKER_COLORS[colors.size % SPEAKER_COLORS.length])
+      }
+    }
+    return (speaker?: string) => (speaker && colors.get(speaker)) || UNKNOWN_COLOR
+  }, [entries])
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center py-8">
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+        <span className="ml-2 text-sm">話者を分析中...</span>
+      </div>
+    )
+  }
+
+  if (error || !analytics) {
+    return (
+      <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded text-sm">
+        {error || '話者を分析できませんでした'}
+      </div>
+    )
+  }
+
+  if (analytics.speakers.length === 0) {
+    return <p className="text-sm text-gray-500">分析できる発話がありません</p>
+  }
+
+  const byTime = analytics.basis === 'time'
+  const formatAmount = (stats: SpeakerStats) =>
+    byTime && stats.talkTimeMs !== undefined ? formatDuration(stats.talkTimeMs) : `${stats.characters}文字`
+  const formatMonologue = (stats: SpeakerStats) =>
+    stats.longestMonologue.durationMs !== undefined
+      ? formatDuration(stats.longestMonologue.durationMs)
+      : `${stats.longestMonologue.characters}文字`
+
+  return (
+    <div className="space-y-6">
+      <section>
+        <h4 className="font-semibold mb-2">発言のバランス</h4>
+        <div className="flex h-4 rounded overflow-hidden bg-gray-100">
+          {analytics.speakers.map((stats) => (
+            <div
+              key={stats.speaker || UNKNOWN_SPEAKER}
+              className={colorOf(stats.speaker).avatar}
+              style={{ width: `${stats.share * 100}%` }}
+              title={`${stats.speaker || UNKNOWN_SPEAKER}: ${formatPercent(stats.share)}`}
+            />
+          ))}
+        </div>
+        <div className="mt-4 space-y-2">
+          {analytics.speakers.map((stats) => {
+            const color = colorOf(stats.speaker)
+            return (
+              <div key={stats.speaker || UNKNOWN_SPEAKER} className="flex items-center gap-3 text-sm">
+                <span className={`w-32 truncate ${color.text}`}>{stats.speaker || UNKNOWN_SPEAKER}</span>
+                <div className="flex-1 h-3 bg-gray-100 rounded">
+                  <div className={`h-3 rounded ${color.avatar}`} style={{ width: `${stats.share * 100}%` }} />
+                </div>
+                <span className="w-28 text-right text-gray-700 whitespace-nowrap">
+                  {formatAmount(stats)}（{formatPercent(stats.share)}）
+                </span>
+              </div>
+            )
+          })}
+        </div>
+      </section>
+
+      <section>
+        <h4 className="font-semibold mb-2">話者ごとの集計</h4>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-gray-600">
+                <th className="py-2 pr-4 font-medium">話者</th>
+                <th className="py-2 pr-4 font-medium">{byTime ? '発話時間' : '文字数'}</th>
+                <th className="py-2 pr-4 font-medium">発言回数</th>
+                <th className="py-2 pr-4 font-medium">最長の発言</th>
+                {byTime && <th className="py-2 pr-4 font-medium">割り込み / 割り込まれ</th>}
+              </tr>
+            </thead>
+            <tbody>
+              {analytics.speakers.map((stats) => (
+                <tr key={stats.speaker || UNKNOWN_SPEAKER} className="border-b last:border-b-0">
+                  <td className={`py-2 pr-4 ${colorOf(stats.speaker).text}`}>{stats.speaker || UNKNOWN_SPEAKER}</td>
+                  <td className="py-2 pr-4">{formatAmount(stats)}</td>
+                  <td className="py-2 pr-4">{stats.turns}回</td>
+                  <td className="py-2 pr-4">
+                    <button
+                      onClick={() => onEntryClick?.(stats.longestMonologue.entryIndex)}
+                      className="text-blue-600 hover:text-blue-800"
+                      title="タイムラインで表示"
+                    >
+                      {formatMonologue(stats)}
+                    </button>
+                  </td>
+                  {byTime && (
+                    <td className="py-2 pr-4">
+                      {stats.interruptions} / {stats.interrupted}
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </section>
+
+      {analytics.silentAttendees.length > 0 && (
+        <section>
+          <h4 className="font-semibold mb-2">発言のなかった招待者</h4>
+          <ul className="space-y-1 text-sm">
+            {analytics.silentAttendees.map((attendee) => (
+              <li key={attendee.email} className="flex items-center gap-2">
+                <span className="text-gray-900">{attendee.displayName || attendee.email}</span>
+                {attendee.displayName && <span className="text-gray-500">{attendee.email}</span>}
+                {attendee.responseStatus && (
+                  <span className="text-xs bg-gray-100 text-gray-700 px-2 py-0.5 rounded">
+                    {RESPONSE_STATUS_LABELS[attendee.responseStatus] || attendee.responseStatus}
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      <p className="text-xs text-gray-500">
+        {byTime
+          ? `発話時刻から集計しています（合計 ${formatDuration(analytics.totalTalkTimeMs || 0)}、重なり ${analytics.overlaps}回）`
+          : `発話時刻がないため文字数で集計しています（合計 ${analytics.totalCharacters}文字）`}
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,185 @@
+"use client";
+
+import { useState } from "react";
+import { Meeting } from "@/lib/google-meet-api";
+import type { SearchResult, SearchEntryHit } from "@/lib/transcript-search";
+import ReauthPrompt from "./ReauthPrompt";
+
+interface TranscriptSearchProps {
+  onHitSelect: (meeting: Meeting, entryIndex: number) => void;
+}
+
+export default function TranscriptSearch({ onHitSelect }: TranscriptSearchProps) {
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<SearchResult[] | null>(null);
+  const [indexedTranscripts, setIndexedTranscripts] = useState(0);
+  const [truncated, setTruncated] = useState(false);
+  const [failedTranscripts, setFailedTranscripts] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reauthRequired, setReauthRequired] = useState(false);
+
+  const runSearch = async (refresh = false) => {
+    if (!query.trim()) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+      const params = new URLSearchParams({ q: query.trim() });
+      if (refresh) params.set("refresh", "1");
+      const response = await fetch(`/api/search?${params.toString()}`);
+
+      if (response.status === 401) {
+        setReauthRequired(true);
+        return;
+      }
+      if (!response.ok) {
+        throw new Error("検索に失敗しました");
+      }
+
+      const data = await response.json();
+      setResults(data.results || []);
+      setIndexedTranscripts(data.indexedTranscripts || 0);
+      setTruncated(!!data.truncated);
+      setFailedTranscripts(data.failedTranscripts || 0);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "不明なエラーが発生しました");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    runSearch();
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleString("ja-JP");
+  };
+
+  const renderSnippet = (hit: SearchEntryHit) => {
+    const parts: React.ReactNode[] = [];
+    let cursor = 0;
+    hit.highlights.forEach(([start, end], index) => {
+      if (start > cursor) parts.push(hit.snippet.slice(cursor, start));
+      parts.push(
+        <mark key={index} className="bg-yellow-200 rounded px-0.5">
+          {hit.snippet.slice(start, end)}
+        </mark>
+      );
+      cursor = end;
+    });
+    parts.push(hit.snippet.slice(cursor));
+    return parts;
+  };
+
+  return (
+    <div className="w-full max-w-4xl mx-auto p-6">
+      <h2 className="text-2xl font-bold mb-6">文字起こし検索</h2>
+
+      <form onSubmit={handleSubmit} className="flex gap-2 mb-6">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="例: 決定事項, リリース日, action item"
+          className="flex-1 border rounded px-3 py-2"
+        />
+        <button
+          type="submit"
+          disabled={loading || !query.trim()}
+          className="bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700 disabled:opacity-50"
+        >
+          検索
+        </button>
+        <button
+          type="button"
+          onClick={() => runSearch(true)}
+          disabled={loading || !query.trim()}
+          className="bg-gray-100 text-gray-700 px-4 py-2 rounded hover:bg-gray-200 disabled:opacity-50"
+          title="文字起こしを再取得して検索"
+        >
+          再インデックス
+        </button>
+      </form>
+
+      {loading && (
+        <div className="flex justify-center items-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          <span className="ml-2">検索中...</span>
+        </div>
+      )}
+
+      {reauthRequired && <ReauthPrompt />}
+
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded">
+          <p>エラー: {error}</p>
+        </div>
+      )}
+
+      {!loading && results && (
+        <>
+          <p className="text-sm text-gray-500 mb-4">
+            {indexedTranscripts}件の文字起こしから {results.length}件の会議が見つかりました
+          </p>
+
+          {(truncated || failedTranscripts > 0) && (
+            <div className="bg-yellow-50 border border-yellow-300 text-yellow-800 text-sm px-4 py-2 rounded mb-4">
+              {truncated && <p>会議が多いため、直近の会議のみを検索しました。</p>}
+              {failedTranscripts > 0 && (
+                <p>
+                  {failedTranscripts}件の会議の文字起こしを取得できなかったため、検索結果に含まれていません。
+                </p>
+              )}
+            </div>
+          )}
+
+          {results.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">
+              <p>一致する発言が見つかりません</p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {results.map((result) => (
+                <div key={`${result.meeting.id}-${result.transcriptId}`} className="border rounded-lg p-4">
+                  <div className="flex justify-between items-start mb-3">
+                    <div>
+                      <h3 className="font-semibold text-lg">{result.meeting.name}</h3>
+                      <p className="text-sm text-gray-600">
+                        {formatDate(result.meeting.createdTime)} ・ {result.transcriptName}
+                      </p>
+                    </div>
+                    <span className="text-xs text-gray-400">
+                      スコア {result.score.toFixed(2)}
+                    </span>
+                  </div>
+
+                  <ul className="space-y-2">
+                    {result.hits.map((hit) => (
+                      <li key={hit.entryIndex}>
+                        <button
+                          onClick={() => onHitSelect(result.meeting, hit.entryIndex)}
+                          className="w-full text-left p-2 rounded hover:bg-blue-50 text-sm"
+                        >
+                          <span className="font-mono text-xs text-blue-600 mr-2">
+                            {hit.timestamp || `#${hit.entryIndex + 1}`}
+                          </span>
+                          {hit.speaker && (
+                            <span className="font-semibold mr-2">{hit.speaker}</span>
+                          )}
+                          <span className="text-gray-800">{renderSnippet(hit)}</span>
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
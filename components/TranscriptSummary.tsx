@@ -0,0 +1,125 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { ExtractedItem, TranscriptSummary as Summary } from '@/lib/transcript-summary'
+
+interface TranscriptSummaryProps {
+  // 要約 API の URL（表示中の文字起こしを指定したもの）
+  summaryUrl: string
+  onEntryClick?: (entryIndex: number) => void
+}
+
+export default function TranscriptSummary({ summaryUrl, onEntryClick }: TranscriptSummaryProps) {
+  const [summary, setSummary] = useState<Summary | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const fetchSummary = async () => {
+      try {
+        setLoading(true)
+        setError(null)
+        const response = await fetch(summaryUrl)
+        if (!response.ok) {
+          throw new Error('要約の作成に失敗しました')
+        }
+        const data = await response.json()
+        if (!cancelled) setSummary(data.summary)
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : '不明なエラーが発生しました')
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    fetchSummary()
+    return () => {
+      cancelled = true
+    }
+  }, [summaryUrl])
+
+  const renderSource = (entryIndex: number, speaker?: string, timestamp?: string) => (
+    <button
+      onClick={() => onEntryClick?.(entryIndex)}
+      className="text-xs text-blue-600 hover:text-blue-800 font-mono whitespace-nowrap"
+      title="タイムラインで表示"
+    >
+      {timestamp || `#${entryIndex + 1}`}
+      {speaker && <span className="ml-1 font-sans text-gray-600">{speaker}</span>}
+    </button>
+  )
+
+  const renderItems = (items: ExtractedItem[], emptyLabel: string) => {
+    if (items.length === 0) {
+      return <p className="text-sm text-gray-500">{emptyLabel}</p>
+    }
+    return (
+      <ul className="space-y-2">
+        {items.map((item, index) => (
+          <li key={`${item.entryIndex}-${index}`} className="flex items-start gap-3 text-sm">
+            {renderSource(item.entryIndex, item.speaker, item.timestamp)}
+            <span className="flex-1 text-gray-900">{item.text}</span>
+            {item.assignee && (
+              <span className="text-xs bg-blue-100 text-blue-800 px-2 py-0.5 rounded whitespace-nowrap">
+                担当: {item.assignee}
+              </span>
+            )}
+          </li>
+        ))}
+      </ul>
+    )
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center py-8">
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+        <span className="ml-2 text-sm">要約を作成中...</span>
+      </div>
+    )
+  }
+
+  if (error || !summary) {
+    return (
+      <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded text-sm">
+        {error || '要約を作成できませんでした'}
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <section>
+        <h4 className="font-semibold mb-2">要約</h4>
+        {summary.sentences.length === 0 ? (
+          <p className="text-sm text-gray-500">要約できる発話がありません</p>
+        ) : (
+          <ul className="space-y-2">
+            {summary.sentences.map((sentence, index) => (
+              <li key={`${sentence.entryIndex}-${index}`} className="flex items-start gap-3 text-sm">
+                {renderSource(sentence.entryIndex, sentence.speaker, sentence.timestamp)}
+                <span className="flex-1 text-gray-900">{sentence.text}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <section>
+        <h4 className="font-semibold mb-2">決定事項</h4>
+        {renderItems(summary.decisions, '決定事項は見つかりませんでした')}
+      </section>
+
+      <section>
+        <h4 className="font-semibold mb-2">アクションアイテム</h4>
+        {renderItems(summary.actionItems, 'アクションアイテムは見つかりませんでした')}
+      </section>
+
+      <p className="text-xs text-gray-500">
+        発話から自動で抽出した結果です（{summary.sentenceCount}文を解析）
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,251 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { TranscriptEntry } from '@/lib/google-meet-api'
+import { ChatMessage, splitChatLinks } from '@/lib/chat-parser'
+
+interface TranscriptTimelineProps {
+  entries: TranscriptEntry[]
+  // 発話の時刻に合わせて差し込む会議中のチャット
+  chatMessages?: ChatMessage[]
+  activeIndex?: number | null
+  onTimestampClick?: (entry: TranscriptEntry) => void
+}
+
+interface SpeakerRun {
+  speaker: string
+  entries: TranscriptEntry[]
+}
+
+type TimelineItem = { kind: 'run'; run: SpeakerRun } | { kind: 'chat'; message: ChatMessage }
+
+export const UNKNOWN_SPEAKER = '不明な話者'
+
+// 話者ごとの表示色（Tailwind のクラスはビルド時に検出されるよう静的に列挙する）
+export const SPEAKER_COLORS = [
+  { avatar: 'bg-blue-600', border: 'border-blue-300', text: 'text-blue-800' },
+  { avatar: 'bg-emerald-600', border: 'border-emerald-300', text: 'text-emerald-800' },
+  { avatar: 'bg-amber-600', border: 'border-amber-300', text: 'text-amber-800' },
+  { avatar: 'bg-rose-600', border: 'border-rose-300', text: 'text-rose-800' },
+  { avatar: 'bg-violet-600', border: 'border-violet-300', text: 'text-violet-800' },
+  { avatar: 'bg-cyan-600', border: 'border-cyan-300', text: 'text-cyan-800' },
+  { avatar: 'bg-lime-600', border: 'border-lime-300', text: 'text-lime-800' },
+  { avatar: 'bg-fuchsia-600', border: 'border-fuchsia-300', text: 'text-fuchsia-800' },
+]
+
+export const UNKNOWN_COLOR = { avatar: 'bg-gray-500', border: 'border-gray-300', text: 'text-gray-700' }
+
+export function getSpeakerInitials(speaker: string) {
+  const words = speaker.trim().split(/\s+/).filter(Boolean)
+  if (words.length === 0) return '?'
+
+  // 英字名は頭文字2つ、日本語名は姓の1文字目
+  if (/^[A-Za-z]/.test(words[0])) {
+    return words
+      .slice(0, 2)
+      .map((word) => word[0].toUpperCase())
+      .join('')
+  }
+  return Array.from(words[0])[0]
+}
+
+export default function TranscriptTimeline({
+  entries,
+  chatMessages = [],
+  activeIndex,
+  onTimestampClick,
+}: TranscriptTimelineProps) {
+  const [collapsedRuns, setCollapsedRuns] = useState<Set<number>>(new Set())
+
+  const speakers = useMemo(() => {
+    const counts = new Map<string, number>()
+    for (const entry of entries) {
+      const speaker = entry.speaker || UNKNOWN_SPEAKER
+      counts.set(speaker, (counts.get(speaker) || 0) + 1)
+    }
+    return Array.from(counts.entries()).map(([name, turns]) => ({ name, turns }))
+  }, [entries])
+
+  const colorOf = useMemo(() => {
+    const colors = new Map<string, (typeof SPEAKER_COLORS)[number]>()
+    speakers
+      .filter((speaker) => speaker.name !== UNKNOWN_SPEAKER)
+      .forEach((speaker, index) => {
+        colors.set(speaker.name, SPEAKER_COLORS[index % SPEAKER_COLORS.length])
+      })
+    return (speaker: string) => colors.get(speaker) || UNKNOWN_COLOR
+  }, [speakers])
+
+  // 同じ話者の連続した発話をひとまとまりにし、その間に送られたチャットを差し込む
+  const items = useMemo(() => {
+    const result: TimelineItem[] = []
+    const timedMessages = chatMessages
+      .filter((message) => message.offsetMs !== undefined)
+      .sort((a, b) => a.offsetMs! - b.offsetMs!)
+    let nextMessage = 0
+
+    for (const entry of entries) {
+      if (entry.startMs !== undefined) {
+        while (nextMessage < timedMessages.length && timedMessages[nextMessage].offsetMs! <= entry.startMs) {
+          result.push({ kind: 'chat', message: timedMessages[nextMessage++] })
+        }
+      }
+
+      const speaker = entry.speaker || UNKNOWN_SPEAKER
+      const last = result[result.length - 1]
+      if (last?.kind === 'run' && last.run.speaker === speaker) {
+        last.run.entries.push(entry)
+      } else {
+        result.push({ kind: 'run', run: { speaker, entries: [entry] } })
+      }
+    }
+
+    // 最後の発話より後のチャットと、時刻のないチャットは末尾に並べる
+    for (const message of [
+      ...timedMessages.slice(nextMessage),
+      ...chatMessages.filter((item) => item.offsetMs === undefined),
+    ]) {
+      result.push({ kind: 'chat', message })
+    }
+    return result
+  }, [entries, chatMessages])
+
+  // 折りたたみはまとまりの先頭の発話番号で覚える（チャットの表示切り替えでずれないように）
+  const toggleRun = (runIndex: number) => {
+    setCollapsedRuns((prev) => {
+      const next = new Set(prev)
+      if (next.has(runIndex)) {
+        next.delete(runIndex)
+      } else {
+        next.add(runIndex)
+      }
+      return next
+    })
+  }
+
+  if (entries.length === 0) {
+    return <p className="text-gray-500">表示できる発話がありません</p>
+  }
+
+  return (
+    <div>
+      <div className="sticky top-0 z-10 bg-white/95 backdrop-blur border-b pb-3 mb-4 flex flex-wrap gap-3">
+        {speakers.map((speaker) => {
+          const color = colorOf(speaker.name)
+          return (
+            <div key={speaker.name} className="flex items-center gap-2 text-sm">
+              <span
+                className={`${color.avatar} text-white rounded-full w-6 h-6 flex items-center justify-center text-xs font-semibold`}
+              >
+                {getSpeakerInitials(speaker.name)}
+              </span>
+              <span className={color.text}>{speaker.name}</span>
+              <span className="text-gray-400">({speaker.turns})</span>
+            </div>
+          )
+        })}
+      </div>
+
+      <ol className="space-y-4">
+        {items.map((item) => {
+          if (item.kind === 'chat') {
+            const { message } = item
+            return (
+              <li key={`chat-${message.index}`} className="flex gap-3">
+                <div
+                  className="bg-gray-100 text-gray-500 rounded-full w-9 h-9 flex-shrink-0 flex items-center justify-center"
+                  title="チャット"
+                >
+                  💬
+                </div>
+                <div className="flex-1 bg-gray-50 border border-dashed border-gray-300 rounded-lg px-3 py-2 text-sm">
+                  <div className="flex items-center gap-2 mb-1 text-xs text-gray-500">
+                    <span className="font-semibold text-gray-700">{message.sender || '不明な送信者'}</span>
+                    <span>チャット</span>
+                    {message.timestamp && <span className="font-mono">{message.timestamp}</span>}
+                  </div>
+                  <p className="whitespace-pre-wrap break-words text-gray-800">
+                    {splitChatLinks(message.text).map((part, index) =>
+                      part.href ? (
+                        <a
+                          key={index}
+                          href={part.href}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-blue-600 hover:text-blue-800 underline"
+                        >
+                          {part.text}
+                        </a>
+                      ) : (
+                        <span key={index}>{part.text}</span>
+                      )
+                    )}
+                  </p>
+                </div>
+              </li>
+            )
+          }
+
+          const { run } = item
+          const runIndex = run.entries[0].index
+          const color = colorOf(run.speaker)
+          const collapsed = collapsedRuns.has(runIndex)
+          const visibleEntries = collapsed ? run.entries.slice(0, 1) : run.entries
+
+          return (
+            <li key={`${run.speaker}-${runIndex}`} className="flex gap-3">
+              <div
+                className={`${color.avatar} text-white rounded-full w-9 h-9 flex-shrink-0 flex items-center justify-center text-sm font-semibold`}
+                title={run.speaker}
+              >
+                {getSpeakerInitials(run.speaker)}
+              </div>
+
+              <div className={`flex-1 border-l-4 ${color.border} pl-3`}>
+                <div className="flex items-center gap-2 mb-1">
+                  <span className={`font-semibold ${color.text}`}>{run.speaker}</span>
+                  {run.entries.length > 1 && (
+                    <button
+                      onClick={() => toggleRun(runIndex)}
+                      className="text-xs text-gray-500 hover:text-gray-700"
+                    >
+                      {collapsed
+                        ? `▶ 残り${run.entries.length - 1}件を表示`
+                        : `▼ ${run.entries.length}件の発話を折りたたむ`}
+                    </button>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  {visibleEntries.map((entry) => (
+                    <div
+                      key={entry.index}
+                      id={`entry-${entry.index}`}
+                      className={`flex gap-3 rounded px-2 py-1 ${
+                        activeIndex === entry.index ? 'bg-yellow-100' : ''
+                      }`}
+                    >
+                      {entry.timestamp ? (
+                        <button
+                          onClick={() => onTimestampClick?.(entry)}
+                          className="font-mono text-xs text-blue-600 hover:underline pt-1 flex-shrink-0"
+                        >
+                          {entry.timestamp}
+                        </button>
+                      ) : (
+                        <span className="w-14 flex-shrink-0" />
+                      )}
+                      <p className="whitespace-pre-wrap text-gray-900 leading-relaxed">
+                        {entry.text}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </li>
+          )
+        })}
+      </ol>
+    </div>
+  )
+}
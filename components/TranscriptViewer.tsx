@@ -1,26 +1,67 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { Meeting, Transcript } from '@/lib/google-meet-api'
+import { Meeting, Transcript, TranscriptEntry } from '@/lib/google-meet-api'
+import TranscriptTimeline from './TranscriptTimeline'
+import MatchBadge from './MatchBadge'
+import ReauthPrompt from './ReauthPrompt'
+import TranscriptSummary from './TranscriptSummary'
+import SpeakerAnalytics from './SpeakerAnalytics'
+import MeetingNotes from './MeetingNotes'
+import { parseTimestampToMs } from '@/lib/transcript-parser'
+import type { ChatMessage } from '@/lib/chat-parser'
+
+const EXPORT_OPTIONS = [
+  { format: 'srt', label: '字幕 (SRT)' },
+  { format: 'vtt', label: '字幕 (WebVTT)' },
+  { format: 'md', label: 'Markdown' },
+  { format: 'html', label: 'HTML' },
+  { format: 'json', label: 'JSON' },
+] as const
+
+const CONFIDENCE_LABELS = { high: '高', medium: '中', low: '低' } as const
 
 interface TranscriptViewerProps {
   meeting: Meeting
   onBack: () => void
+  // 検索結果などから開いた場合に表示する発話
+  initialEntryIndex?: number
 }
 
-export default function TranscriptViewer({ meeting, onBack }: TranscriptViewerProps) {
+export default function TranscriptViewer({ meeting, onBack, initialEntryIndex }: TranscriptViewerProps) {
   const [transcript, setTranscript] = useState<Transcript | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const [reauthRequired, setReauthRequired] = useState(false)
+  const [fetchedAt, setFetchedAt] = useState<string | null>(null)
+  const [viewMode, setViewMode] = useState<'timeline' | 'raw' | 'summary' | 'analytics'>('timeline')
+  const [activeIndex, setActiveIndex] = useState<number | null>(null)
+  const [candidates, setCandidates] = useState<Transcript[]>([])
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([])
+  const [showChat, setShowChat] = useState(true)
+  // 手動で選択した文字起こし（未選択時は自動選択）
+  const [selectedTranscriptId, setSelectedTranscriptId] = useState<string | null>(null)
 
-  const fetchTranscript = async () => {
+  const buildQuery = (extra: Record<string, string> = {}, transcriptId = selectedTranscriptId) => {
+    const params = new URLSearchParams(extra)
+    if (meeting.source) params.set('source', meeting.source)
+    if (transcriptId) params.set('transcriptId', transcriptId)
+    const query = params.toString()
+    return query ? `?${query}` : ''
+  }
+
+  const fetchTranscript = async (transcriptId = selectedTranscriptId, refresh = false) => {
     try {
       setLoading(true)
       setError(null)
       
-      const response = await fetch(`/api/transcripts/${meeting.id}`)
+      const response = await fetch(`/api/transcripts/${meeting.id}${buildQuery(refresh ? { refresh: '1' } : {}, transcriptId)}`)
       
       if (!response.ok) {
+        if (response.status === 401) {
+          setReauthRequired(true)
+          throw new Error('ログインの有効期限が切れました')
+        }
         if (response.status === 404) {
           throw new Error('この会議の文字起こしが見つかりません')
         }
@@ -29,6 +70,7 @@ export default function TranscriptViewer({ meeting, onBack }: TranscriptViewerPr
       
       const data = await response.json()
       setTranscript(data.transcript)
+      setFetchedAt(data.fetchedAt || null)
     } catch (err) {
       setError(err instanceof Error ? err.message : '不明なエラーが発生しました')
     } finally {
@@ -36,10 +78,162 @@ export default function TranscriptViewer({ meeting, onBack }: TranscriptViewerPr
     }
   }
 
+  const fetchCandidates = async (refresh = false) => {
+    try {
+      const params = new URLSearchParams()
+      if (meeting.source) params.set('source', meeting.source)
+      if (refresh) params.set('refresh', '1')
+      const query = params.toString() ? `?${params.toString()}` : ''
+      const response = await fetch(`/api/transcripts/${meeting.id}/candidates${query}`)
+      if (!response.ok) return
+
+      const data = await response.json()
+      setCandidates(data.candidates || [])
+    } catch {
+      // 候補一覧が取れなくても自動選択の文字起こしは表示できる
+      setCandidates([])
+    }
+  }
+
+  const fetchChat = async () => {
+    try {
+      const response = await fetch(`/api/meetings/${meeting.id}/chat${buildQuery({}, null)}`)
+      // チャットを保存していない会議も多いため、取得できなければ表示しない
+      const data = response.ok ? await response.json() : null
+      setChatMessages(data?.chat?.messages || [])
+    } catch {
+      setChatMessages([])
+    }
+  }
+
+  const pinnedTranscriptId = candidates.find((candidate) => candidate.pinned)?.id || null
+  const [pinning, setPinning] = useState(false)
+
+  // 表示中の文字起こしをこの会議に固定する（固定中なら解除）
+  const togglePin = async () => {
+    const currentId = selectedTranscriptId || transcript?.id
+    if (!currentId) return
+
+    try {
+      setPinning(true)
+      const transcriptId = pinnedTranscriptId === currentId ? null : currentId
+      const response = await fetch(`/api/meetings/${meeting.id}/pin${buildQuery({}, null)}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ transcriptId }),
+      })
+      if (!response.ok) {
+        throw new Error('固定の保存に失敗しました')
+      }
+      await fetchCandidates()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : '固定の保存に失敗しました')
+    } finally {
+      setPinning(false)
+    }
+  }
+
+  const selectTranscript = (transcriptId: string) => {
+    setSelectedTranscriptId(transcriptId)
+    setActiveIndex(null)
+    fetchTranscript(transcriptId)
+  }
+
   useEffect(() => {
-    fetchTranscript()
+    setSelectedTranscriptId(null)
+    fetchTranscript(null)
+    fetchCandidates()
+    fetchChat()
   }, [meeting.id]) // eslint-disable-line react-hooks/exhaustive-deps
 
+  useEffect(() => {
+    if (!transcript || initialEntryIndex === undefined || selectedTranscriptId) return
+    setViewMode('timeline')
+    setActiveIndex(initialEntryIndex)
+    // タイムラインの描画後にスクロールする
+    requestAnimationFrame(() => {
+      document
+        .getElementById(`entry-${initialEntryIndex}`)
+        ?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+    })
+  }, [transcript, initialEntryIndex]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  const buildExportUrl = (format: string) => {
+    return `/api/transcripts/${meeting.id}/export${buildQuery({ format }, selectedTranscriptId || transcript?.id)}`
+  }
+
+  const buildSummaryUrl = () => {
+    return `/api/transcripts/${meeting.id}/summary${buildQuery({}, selectedTranscriptId || transcript?.id)}`
+  }
+
+  const buildAnalyticsUrl = () => {
+    return `/api/transcripts/${meeting.id}/analytics${buildQuery({}, selectedTranscriptId || transcript?.id)}`
+  }
+
+  // 要約・話者分析から発話を選んだらタイムラインに切り替えて表示する
+  const showEntry = (entryIndex: number) => {
+    const entry = transcript?.entries?.find((item) => item.index === entryIndex)
+    if (!entry) return
+    setViewMode('timeline')
+    requestAnimationFrame(() => handleTimestampClick(entry))
+  }
+
+  // メモの「(00:05:12)」から、その時刻に話していた発話を表示する
+  const showTimestamp = (timestamp: string) => {
+    const ms = parseTimestampToMs(timestamp)
+    if (ms === undefined) return
+    const entry = transcript?.entries
+      ?.filter((item) => item.startMs !== undefined && item.startMs <= ms)
+      .pop()
+    if (entry) showEntry(entry.index)
+  }
+
+  const renderPicker = () => {
+    if (candidates.length < 2) return null
+    const currentId = selectedTranscriptId || transcript?.id
+    const isPinned = !!currentId && currentId === pinnedTranscriptId
+
+    return (
+      <div className="mb-4 flex items-center gap-2 text-sm">
+        <label htmlFor="transcript-picker" className="font-semibold whitespace-nowrap">
+          文字起こしファイル:
+        </label>
+        <select
+          id="transcript-picker"
+          value={selectedTranscriptId || transcript?.id || ''}
+          onChange={(e) => selectTranscript(e.target.value)}
+          className="flex-1 border rounded px-2 py-1 bg-white"
+        >
+          {candidates.map((candidate) => (
+            <option key={candidate.id} value={candidate.id}>
+              {candidate.pinned && '📌 '}
+              {candidate.name}
+              {candidate.createdTime && ` (${new Date(candidate.createdTime).toLocaleString('ja-JP')})`}
+              {candidate.match && ` ・ 一致度 ${CONFIDENCE_LABELS[candidate.match.confidence]} (${candidate.match.score})`}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={togglePin}
+          disabled={pinning || !currentId}
+          title={isPinned ? '自動選択に戻す' : '次回からこの文字起こしを表示する'}
+          className={`px-3 py-1 rounded border whitespace-nowrap disabled:opacity-50 ${isPinned ? 'bg-amber-100 border-amber-400 text-amber-800 hover:bg-amber-200' : 'bg-white hover:bg-gray-100'}`}
+        >
+          {isPinned ? '📌 固定を解除' : '📌 固定'}
+        </button>
+      </div>
+    )
+  }
+
+  const handleTimestampClick = (entry: TranscriptEntry) => {
+    setActiveIndex(entry.index)
+    // 発話へのリンクを共有できるよう URL のハッシュを更新する
+    window.history.replaceState(null, '', `#entry-${entry.index}`)
+    document
+      .getElementById(`entry-${entry.index}`)
+      ?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+  }
+
   const formatTime = (timeString: string) => {
     try {
       const date = new Date(timeString)
@@ -92,15 +286,21 @@ export default function TranscriptViewer({ meeting, onBack }: TranscriptViewerPr
           <h2 className="text-2xl font-bold">文字起こし - {meeting.name}</h2>
         </div>
         
-        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded">
-          <p className="mb-2">{error}</p>
-          <button 
-            onClick={fetchTranscript}
-            className="bg-red-600 text-white px-4 py-2 rounded hover:bg-red-700"
-          >
-            再試行
-          </button>
-        </div>
+        {renderPicker()}
+
+        {reauthRequired ? (
+          <ReauthPrompt />
+        ) : (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded">
+            <p className="mb-2">{error}</p>
+            <button 
+              onClick={() => fetchTranscript()}
+              className="bg-red-600 text-white px-4 py-2 rounded hover:bg-red-700"
+            >
+              再試行
+            </button>
+          </div>
+        )}
       </div>
     )
   }
@@ -120,17 +320,51 @@ export default function TranscriptViewer({ meeting, onBack }: TranscriptViewerPr
           <h2 className="text-2xl font-bold">文字起こし - {meeting.name}</h2>
         </div>
         
-        <button
-          onClick={fetchTranscript}
-          className="bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700 flex items-center gap-2"
-        >
-          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
-          </svg>
-          更新
-        </button>
+        <div className="flex items-center gap-2">
+          {transcript && (
+            <details className="relative">
+              <summary className="list-none cursor-pointer bg-white border border-blue-600 text-blue-600 px-4 py-2 rounded hover:bg-blue-50 flex items-center gap-2">
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                </svg>
+                ダウンロード
+              </summary>
+              <div className="absolute right-0 mt-1 w-48 bg-white border rounded-lg shadow-lg z-20 py-1">
+                {EXPORT_OPTIONS.map((option) => (
+                  <a
+                    key={option.format}
+                    href={buildExportUrl(option.format)}
+                    className="block px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+                  >
+                    {option.label}
+                  </a>
+                ))}
+              </div>
+            </details>
+          )}
+          {fetchedAt && (
+            <span className="text-xs text-gray-500">
+              取得: {new Date(fetchedAt).toLocaleTimeString('ja-JP')}
+            </span>
+          )}
+          <button
+            onClick={() => {
+              fetchTranscript(selectedTranscriptId, true)
+              fetchCandidates(true)
+            }}
+            title="キャッシュを使わずに取得し直す"
+            className="bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700 flex items-center gap-2"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+            </svg>
+            更新
+          </button>
+        </div>
       </div>
 
+      {renderPicker()}
+
       {transcript && (
         <div className="mb-4 p-4 bg-gray-100 rounded-lg">
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
@@ -153,6 +387,13 @@ export default function TranscriptViewer({ meeting, onBack }: TranscriptViewerPr
               <span className="font-semibold">形式:</span>
               <br />
               文字起こし
+              {transcript.pinned ? (
+                <span className="ml-2 text-xs bg-amber-100 text-amber-800 px-2 py-0.5 rounded">
+                  📌 固定
+                </span>
+              ) : (
+                transcript.match && <MatchBadge match={transcript.match} className="ml-2" />
+              )}
             </div>
           </div>
           {transcript.webViewLink && (
@@ -173,6 +414,8 @@ export default function TranscriptViewer({ meeting, onBack }: TranscriptViewerPr
         </div>
       )}
 
+      <MeetingNotes notesUrl={`/api/meetings/${meeting.id}/notes${buildQuery({}, null)}`} onTimestampClick={showTimestamp} />
+
       {!transcript || !transcript.content ? (
         <div className="text-center py-12 text-gray-500">
           <svg className="w-12 h-12 mx-auto mb-4 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -182,12 +425,64 @@ export default function TranscriptViewer({ meeting, onBack }: TranscriptViewerPr
         </div>
       ) : (
         <div className="bg-white border rounded-lg p-6 shadow-sm">
-          <h3 className="text-lg font-semibold mb-4">文字起こし内容</h3>
-          <div className="prose prose-gray max-w-none">
-            <div className="whitespace-pre-wrap text-gray-900 leading-relaxed">
-              {transcript.content}
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold">文字起こし内容</h3>
+            {viewMode === 'timeline' && chatMessages.length > 0 && (
+              <label className="ml-auto mr-3 flex items-center gap-1 text-sm text-gray-700">
+                <input type="checkbox" checked={showChat} onChange={(e) => setShowChat(e.target.checked)} />
+                チャットを表示（{chatMessages.length}件）
+              </label>
+            )}
+            <div className="flex rounded-lg border overflow-hidden text-sm">
+              <button
+                onClick={() => setViewMode('timeline')}
+                className={`px-3 py-1 ${viewMode === 'timeline' ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'}`}
+              >
+                タイムライン
+              </button>
+              <button
+                onClick={() => setViewMode('raw')}
+                className={`px-3 py-1 ${viewMode === 'raw' ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'}`}
+              >
+                テキスト
+              </button>
+              <button
+                onClick={() => setViewMode('summary')}
+                className={`px-3 py-1 ${viewMode === 'summary' ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'}`}
+              >
+                要約
+              </button>
+              <button
+                onClick={() => setViewMode('analytics')}
+                className={`px-3 py-1 ${viewMode === 'analytics' ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'}`}
+              >
+                話者分析
+              </button>
             </div>
           </div>
+          {viewMode === 'summary' ? (
+            <TranscriptSummary summaryUrl={buildSummaryUrl()} onEntryClick={showEntry} />
+          ) : viewMode === 'analytics' ? (
+            <SpeakerAnalytics
+              analyticsUrl={buildAnalyticsUrl()}
+              entries={transcript.entries || []}
+              onEntryClick={showEntry}
+            />
+          ) : viewMode === 'timeline' && transcript.entries && transcript.entries.length > 0 ? (
+            <TranscriptTimeline
+              key={transcript.id}
+              entries={transcript.entries}
+              chatMessages={showChat ? chatMessages : []}
+              activeIndex={activeIndex}
+              onTimestampClick={handleTimestampClick}
+            />
+          ) : (
+            <div className="prose prose-gray max-w-none">
+              <div className="whitespace-pre-wrap text-gray-900 leading-relaxed">
+                {transcript.content}
+              </div>
+            </div>
+          )}
         </div>
       )}
     </div>
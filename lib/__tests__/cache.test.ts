@@ -0,0 +1,153 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  CacheEntry,
+  cached,
+  FileCache,
+  MemoryLRUCache,
+  userCacheKey,
+} from "../cache";
+
+const entry = (value: string): CacheEntry<string> => ({
+  value,
+  fetchedAt: 0,
+  expiresAt: Number.MAX_SAFE_INTEGER,
+});
+
+describe("MemoryLRUCache", () => {
+  it("evicts the least recently used entry", async () => {
+    const cache = new MemoryLRUCache(2);
+    await cache.set("a", entry("A"));
+    await cache.set("b", entry("B"));
+    // 読んだ a は最近使ったものになり、b が追い出される
+    await cache.get("a");
+    await cache.set("c", entry("C"));
+
+    expect(await cache.get("a")).toBeDefined();
+    expect(await cache.get("b")).toBeUndefined();
+    expect(await cache.get("c")).toBeDefined();
+  });
+
+  it("does not count overwriting a key as a new entry", async () => {
+    const cache = new MemoryLRUCache(2);
+    await cache.set("a", entry("A1"));
+    await cache.set("b", entry("B"));
+    await cache.set("a", entry("A2"));
+
+    expect((await cache.get("a"))?.value).toBe("A2");
+    expect(await cache.get("b")).toBeDefined();
+  });
+});
+
+describe("cached", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2024-05-01T00:00:00Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("returns the cached value until the TTL expires", async () => {
+    const store = new MemoryLRUCache();
+    const loader = vi
+      .fn<() => Promise<string>>()
+      .mockResolvedValueOnce("first")
+      .mockResolvedValueOnce("second");
+
+    const first = await cached("key", loader, { ttlMs: 1000, store });
+    vi.advanceTimersByTime(999);
+    const hit = await cached("key", loader, { ttlMs: 1000, store });
+    vi.advanceTimersByTime(1);
+    const expired = await cached("key", loader, { ttlMs: 1000, store });
+
+    expect([first.value, hit.value, expired.value]).toEqual([
+      "first",
+      "first",
+      "second",
+    ]);
+    // キャッシュから返した場合は元の取得時刻
+    expect(hit.fetchedAt).toBe(first.fetchedAt);
+    expect(expired.fetchedAt).toBe(first.fetchedAt + 1000);
+    expect(loader).toHaveBeenCalledTimes(2);
+  });
+
+  it("reloads when the version changes or a refresh is forced", async () => {
+    const store = new MemoryLRUCache();
+    const loader = vi.fn(async () => "value");
+
+    await cached("key", loader, { ttlMs: 60000, version: "v1", store });
+    await cached("key", loader, { ttlMs: 60000, version: "v1", store });
+    await cached("key", loader, { ttlMs: 60000, version: "v2", store });
+    await cached("key", loader, {
+      ttlMs: 60000,
+      version: "v2",
+      forceRefresh: true,
+      store,
+    });
+
+    expect(loader).toHaveBeenCalledTimes(3);
+  });
+
+  it("does not cache a failed load", async () => {
+    const store = new MemoryLRUCache();
+    const loader = vi
+      .fn<() => Promise<string>>()
+      .mockRejectedValueOnce(new Error("boom"))
+      .mockResolvedValueOnce("ok");
+
+    await expect(
+      cached("key", loader, { ttlMs: 1000, store })
+    ).rejects.toThrow("boom");
+    await expect(
+      cached("key", loader, { ttlMs: 1000, store })
+    ).resolves.toMatchObject({ value: "ok" });
+  });
+
+  it("keeps each user's results separate", async () => {
+    const store = new MemoryLRUCache();
+    const keyParts = ["query", 10, undefined];
+
+    await cached(
+      userCacheKey("alice", "meetings", keyParts),
+      async () => "A",
+      { ttlMs: 60000, store }
+    );
+    const bob = await cached(
+      userCacheKey("bob", "meetings", keyParts),
+      async () => "B",
+      { ttlMs: 60000, store }
+    );
+
+    expect(bob.value).toBe("B");
+    expect(userCacheKey("alice", "meetings", keyParts)).not.toBe(
+      userCacheKey("alice", "calendar-events", keyParts)
+    );
+  });
+});
+
+describe("FileCache", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "file-cache-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it("survives a new instance and deletes entries", async () => {
+    await new FileCache(directory).set("user:key", entry("value"));
+
+    const reopened = new FileCache(directory);
+    expect((await reopened.get("user:key"))?.value).toBe("value");
+    expect(await reopened.get("user:other")).toBeUndefined();
+
+    await reopened.delete("user:key");
+    expect(await reopened.get("user:key")).toBeUndefined();
+  });
+});
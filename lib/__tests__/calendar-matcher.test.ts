@@ -0,0 +1,207 @@
+import { describe, expect, it } from "vitest";
+import type { calendar_v3 } from "googleapis";
+import {
+  assignCalendarEvents,
+  CalendarMatchCandidate,
+  compareCandidates,
+  extractMeetingIdentifiers,
+  mergeTimeWindows,
+  scoreCalendarEvent,
+} from "../calendar-matcher";
+import type { Meeting } from "../google-meet-api";
+import { createMatchResult } from "../match-result";
+import { parseSessionStartTime } from "../meeting-bundle";
+import fixture from "./fixtures/calendar-match.json";
+
+// Drive 上の会議ファイル（同名の定例が2回ある）とその時間帯のカレンダー予定
+// ファイルは会議の終了後に作成されるため、開始時刻はファイル名から求める
+const MEETINGS: Meeting[] = fixture.driveFiles.map((file) => ({
+  id: file.id,
+  name: file.name,
+  createdTime: file.createdTime,
+  startTime: parseSessionStartTime(file.name),
+  meetingCode: extractMeetingIdentifiers(file.name).meetingCode,
+  source: "drive",
+}));
+const EVENTS: calendar_v3.Schema$Event[] = fixture.events;
+
+const meeting = (id: string) => MEETINGS.find((item) => item.id === id)!;
+const event = (id: string) => EVENTS.find((item) => item.id === id)!;
+
+const candidates: CalendarMatchCandidate<calendar_v3.Schema$Event>[] =
+  MEETINGS.flatMap((item) =>
+    EVENTS.map((calendarEvent) => ({
+      meetingId: item.id,
+      eventId: calendarEvent.id!,
+      event: calendarEvent,
+      match: scoreCalendarEvent(item, calendarEvent),
+    }))
+  );
+const meetingIds = MEETINGS.map((item) => item.id);
+
+describe("scoreCalendarEvent", () => {
+  it("scores the event name, start time and Meet link", () => {
+    const match = scoreCalendarEvent(meeting("file-a"), event("ev-weekly-10"));
+
+    expect(match.reasons.map((reason) => reason.code)).toEqual([
+      "time_proximity",
+      "exact_name",
+      "meet_link",
+    ]);
+    expect(match).toMatchObject({ score: 140, confidence: "medium" });
+  });
+
+  it("measures time proximity from the meeting start, not the file creation", () => {
+    const match = scoreCalendarEvent(meeting("file-a"), event("ev-weekly-10"));
+    const proximity = match.reasons.find(
+      (reason) => reason.code === "time_proximity"
+    );
+
+    expect(proximity).toMatchObject({ points: 50 });
+    // 開始時刻がなければ作成日時で比べる
+    const withoutStart = scoreCalendarEvent(
+      { ...meeting("file-a"), startTime: undefined },
+      event("ev-weekly-10")
+    );
+    expect(
+      withoutStart.reasons.find((reason) => reason.code === "time_proximity")
+        ?.points
+    ).toBe(46.25);
+  });
+
+  it("rates a matching Meet code as high confidence", () => {
+    const match = scoreCalendarEvent(meeting("file-d"), event("ev-1on1"));
+
+    expect(match.reasons.map((reason) => reason.code)).toContain(
+      "extracted_meeting_code"
+    );
+    expect(match.confidence).toBe("high");
+  });
+
+  it("counts a meeting code mentioned in the description", () => {
+    const match = scoreCalendarEvent(meeting("file-d"), {
+      ...event("ev-lunch"),
+      description: "会議コード: abc-defg-hij",
+    });
+
+    expect(match.reasons.map((reason) => reason.code)).toContain(
+      "meeting_code"
+    );
+  });
+
+  it("gives no points to an unrelated event more than six hours away", () => {
+    const match = scoreCalendarEvent(meeting("file-a"), event("ev-offsite"));
+
+    expect(match).toEqual({ score: 0, confidence: "low", reasons: [] });
+  });
+});
+
+describe("assignCalendarEvents", () => {
+  it("assigns each event to at most one meeting", () => {
+    const assignments = assignCalendarEvents(meetingIds, candidates);
+
+    expect(assignments.get("file-a")?.selected?.eventId).toBe("ev-weekly-10");
+    expect(assignments.get("file-b")?.selected?.eventId).toBe("ev-weekly-11");
+    expect(assignments.get("file-c")?.selected?.eventId).toBe("ev-interview");
+    expect(assignments.get("file-d")?.selected?.eventId).toBe("ev-1on1");
+  });
+
+  it("gives a contended event to the higher-scoring meeting", () => {
+    // 10時の予定だけが残っている場合、時刻の近い file-a が取り、file-b は割り当てなし
+    const assignments = assignCalendarEvents(
+      meetingIds,
+      candidates.filter((candidate) => candidate.eventId !== "ev-weekly-11")
+    );
+
+    expect(assignments.get("file-a")?.selected?.eventId).toBe("ev-weekly-10");
+    expect(assignments.get("file-b")?.selected).toBeUndefined();
+    expect(
+      assignments
+        .get("file-b")
+        ?.alternates.map((candidate) => candidate.eventId)
+    ).toEqual(["ev-weekly-10", "ev-interview", "ev-lunch"]);
+  });
+
+  it("ranks alternates by score and drops low scores", () => {
+    const assignments = assignCalendarEvents(meetingIds, candidates, {
+      maxAlternates: 10,
+    });
+    const alternates = assignments.get("file-a")!.alternates;
+
+    // 6時間以上離れたオフサイトは候補に残らない
+    expect(alternates.map((candidate) => candidate.eventId)).toEqual([
+      "ev-weekly-11",
+      "ev-interview",
+      "ev-lunch",
+      "ev-1on1",
+    ]);
+    expect(alternates.map((candidate) => candidate.match.score)).toEqual([
+      135, 40, 40, 35,
+    ]);
+  });
+
+  it("limits the number of alternates", () => {
+    const assignments = assignCalendarEvents(meetingIds, candidates, {
+      maxAlternates: 1,
+    });
+
+    expect(assignments.get("file-a")!.alternates).toHaveLength(1);
+  });
+
+  it("never assigns or suggests reserved (pinned) events", () => {
+    const assignments = assignCalendarEvents(meetingIds, candidates, {
+      reservedEventIds: ["ev-weekly-10"],
+    });
+
+    // 残った11時の予定は、より近い file-b に割り当てられる
+    expect(assignments.get("file-a")?.selected).toBeUndefined();
+    expect(assignments.get("file-b")?.selected?.eventId).toBe("ev-weekly-11");
+    for (const assignment of assignments.values()) {
+      expect(
+        assignment.alternates.map((candidate) => candidate.eventId)
+      ).not.toContain("ev-weekly-10");
+    }
+  });
+
+  it("breaks ties deterministically regardless of input order", () => {
+    const tied = (meetingId: string, eventId: string) => ({
+      meetingId,
+      eventId,
+      event: eventId,
+      match: createMatchResult(
+        [{ code: "exact_name", label: "会議名が完全一致", points: 80 }],
+        { high: 150, medium: 80 }
+      ),
+    });
+    const input = [tied("m2", "e1"), tied("m1", "e2"), tied("m1", "e1")];
+
+    const forward = assignCalendarEvents(["m1", "m2"], input);
+    const reversed = assignCalendarEvents(["m1", "m2"], [...input].reverse());
+
+    // 同点は会議 ID・予定 ID の順に割り当てる
+    expect(forward.get("m1")?.selected?.eventId).toBe("e1");
+    expect(forward.get("m2")?.selected).toBeUndefined();
+    expect(reversed.get("m1")?.selected?.eventId).toBe("e1");
+    expect([...input].sort(compareCandidates)).toEqual([
+      input[2],
+      input[1],
+      input[0],
+    ]);
+  });
+});
+
+describe("mergeTimeWindows", () => {
+  it("merges overlapping and touching windows", () => {
+    expect(
+      mergeTimeWindows([
+        { start: 10, end: 20 },
+        { start: 0, end: 5 },
+        { start: 20, end: 30 },
+        { start: 15, end: 18 },
+      ])
+    ).toEqual([
+      { start: 0, end: 5 },
+      { start: 10, end: 30 },
+    ]);
+  });
+});
@@ -0,0 +1,103 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import { describe, expect, it } from "vitest";
+import { parseChatLog, splitChatLinks } from "../chat-parser";
+
+const readFixture = (name: string) =>
+  readFileSync(join(__dirname, "fixtures", name), "utf8");
+
+describe("parseChatLog", () => {
+  it("parses the SBV export with continuation lines", () => {
+    const messages = parseChatLog(readFixture("chat.sbv"));
+
+    expect(messages).toEqual([
+      {
+        index: 0,
+        sender: "田中 太郎",
+        text: "資料はこちらです https://docs.google.com/document/d/abc）",
+        offsetMs: 5120,
+        timestamp: "00:00:05",
+        links: ["https://docs.google.com/document/d/abc"],
+      },
+      {
+        index: 1,
+        sender: "Sato Hanako",
+        // 本文中のコロンは送信者の区切りとみなさない
+        text: "Agenda:\n1. Release date\n2. Budget: see https://example.com/budget",
+        offsetMs: 90000,
+        timestamp: "00:01:30",
+        links: ["https://example.com/budget"],
+      },
+      {
+        index: 2,
+        text: "no sender here",
+        offsetMs: 120000,
+        timestamp: "00:02:00",
+        links: [],
+      },
+      {
+        index: 3,
+        sender: "鈴木",
+        text: "お疲れさまでした",
+        offsetMs: 3723500,
+        timestamp: "01:02:03",
+        links: [],
+      },
+    ]);
+  });
+
+  it("parses one message per line with inline times", () => {
+    const messages = parseChatLog(
+      [
+        "[00:01:23] 田中: おはようございます",
+        "00:02:05 Sato: Here is the link:",
+        "https://example.com/spec",
+        "1:05 鈴木：了解です",
+      ].join("\n")
+    );
+
+    expect(
+      messages.map(({ sender, text, offsetMs }) => ({ sender, text, offsetMs }))
+    ).toEqual([
+      { sender: "田中", text: "おはようございます", offsetMs: 83000 },
+      {
+        sender: "Sato",
+        text: "Here is the link:\nhttps://example.com/spec",
+        offsetMs: 125000,
+      },
+      { sender: "鈴木", text: "了解です", offsetMs: 65000 },
+    ]);
+    expect(messages[1].links).toEqual(["https://example.com/spec"]);
+  });
+
+  it("keeps text before the first timed line as its own message", () => {
+    expect(parseChatLog("会議のチャット\n[00:00:10] 田中: 開始します")).toEqual([
+      { index: 0, text: "会議のチャット", links: [] },
+      {
+        index: 1,
+        sender: "田中",
+        text: "開始します",
+        offsetMs: 10000,
+        timestamp: "00:00:10",
+        links: [],
+      },
+    ]);
+  });
+
+  it("returns no messages for an empty file", () => {
+    expect(parseChatLog("\uFEFF\n\n")).toEqual([]);
+  });
+});
+
+describe("splitChatLinks", () => {
+  it("splits text around links", () => {
+    expect(splitChatLinks("資料 https://example.com/a と https://b.test")).toEqual(
+      [
+        { text: "資料 " },
+        { text: "https://example.com/a", href: "https://example.com/a" },
+        { text: " と " },
+        { text: "https://b.test", href: "https://b.test" },
+      ]
+    );
+  });
+});
@@ -0,0 +1,137 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import { describe, expect, it } from "vitest";
+import {
+  decodeText,
+  detectEncoding,
+  DOCX_MIME_TYPE,
+  docxExtractor,
+  EXTRACTABLE_MIME_TYPES,
+  extractHeadings,
+  getContentExtractor,
+  GOOGLE_DOC_MIME_TYPE,
+  googleDocExtractor,
+  htmlToText,
+  PDF_MIME_TYPE,
+  pdfExtractor,
+  plainTextExtractor,
+} from "../content-extractors";
+
+const readFixture = (name: string) =>
+  readFileSync(join(__dirname, "fixtures", name));
+
+describe("googleDocExtractor", () => {
+  const html = readFixture("transcript-docs.html").toString("utf-8");
+
+  it("converts a Docs HTML export to lines", () => {
+    expect(htmlToText(html)).toBe(
+      [
+        "定例ミーティング",
+        "参加者: 田中, 佐藤",
+        "📖 文字起こし",
+        "00:00:00",
+        "田中: A & B の資料を確認します。",
+        "項目1",
+        "項目2",
+        "列1",
+        "列2",
+        "1行目",
+        "2行目",
+      ].join("\n")
+    );
+  });
+
+  it("keeps the HTML and its headings", async () => {
+    const content = await googleDocExtractor.extract({
+      data: Buffer.from(html),
+      mimeType: GOOGLE_DOC_MIME_TYPE,
+    });
+
+    expect(content.html).toBe(html);
+    expect(content.headings).toEqual([
+      { level: 1, text: "定例ミーティング" },
+      { level: 2, text: "📖 文字起こし" },
+    ]);
+    expect(extractHeadings("<h3> </h3>")).toEqual([]);
+  });
+});
+
+describe("docxExtractor", () => {
+  it("extracts paragraphs and headings with mammoth", async () => {
+    const content = await docxExtractor.extract({
+      data: readFixture("transcript.docx"),
+      mimeType: DOCX_MIME_TYPE,
+    });
+
+    expect(content.text).toBe(
+      [
+        "定例ミーティング - 文字起こし",
+        "00:00:00",
+        "田中: それでは始めます。",
+        "佐藤: よろしく & お願いします。",
+      ].join("\n")
+    );
+    expect(content.headings).toEqual([
+      { level: 1, text: "定例ミーティング - 文字起こし" },
+    ]);
+  });
+});
+
+describe("pdfExtractor", () => {
+  it("extracts the text of each page with unpdf", async () => {
+    const content = await pdfExtractor.extract({
+      data: readFixture("transcript.pdf"),
+      mimeType: PDF_MIME_TYPE,
+    });
+
+    // ページごとの本文を改行でつなぐ
+    expect(content.text.split("\n")).toEqual([
+      "Weekly sync - Transcript",
+      "00:00:00",
+      "Alice: Let us get started.",
+      "00:00:10",
+      "Bob: Sounds good.",
+    ]);
+  });
+});
+
+describe("plainTextExtractor", () => {
+  const expected =
+    "定例ミーティング - 文字起こし\r\n00:00:00\r\n田中: 議事録を共有します。\r\n";
+
+  it("decodes Shift_JIS text", async () => {
+    const data = readFixture("transcript-sjis.txt");
+
+    expect(detectEncoding(data)).toBe("shift_jis");
+    await expect(
+      plainTextExtractor.extract({ data, mimeType: "text/plain" })
+    ).resolves.toEqual({ text: expected, encoding: "shift_jis" });
+  });
+
+  it("decodes UTF-16 text with a BOM", () => {
+    const data = readFixture("transcript-utf16le.txt");
+
+    expect(detectEncoding(data)).toBe("utf-16le");
+    expect(decodeText(data)).toEqual({ text: expected, encoding: "utf-16le" });
+  });
+
+  it("treats valid UTF-8 with or without a BOM as UTF-8", () => {
+    const utf8 = Buffer.from(expected, "utf-8");
+    const withBom = Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), utf8]);
+
+    expect(decodeText(utf8)).toEqual({ text: expected, encoding: "utf-8" });
+    expect(decodeText(withBom)).toEqual({ text: expected, encoding: "utf-8" });
+  });
+});
+
+describe("getContentExtractor", () => {
+  it("picks the extractor by MIME type", () => {
+    expect(getContentExtractor(GOOGLE_DOC_MIME_TYPE)?.name).toBe("google-doc");
+    expect(getContentExtractor(DOCX_MIME_TYPE)?.name).toBe("docx");
+    expect(getContentExtractor(PDF_MIME_TYPE)?.name).toBe("pdf");
+    expect(getContentExtractor("text/plain")?.name).toBe("text");
+    expect(getContentExtractor("image/png")).toBeUndefined();
+    expect(getContentExtractor(undefined)).toBeUndefined();
+    expect(EXTRACTABLE_MIME_TYPES).toHaveLength(4);
+  });
+});
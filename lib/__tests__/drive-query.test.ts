@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import {
+  and,
+  compareTime,
+  escapeDriveQueryValue,
+  inParents,
+  isTrashed,
+  mimeTypeIn,
+  nameContains,
+  not,
+  or,
+  renderDriveQuery,
+} from "../drive-query";
+
+describe("escapeDriveQueryValue", () => {
+  it("escapes apostrophes and backslashes", () => {
+    expect(escapeDriveQueryValue("Bob's 1:1")).toBe("Bob\\'s 1:1");
+    expect(escapeDriveQueryValue("C:\\notes")).toBe("C:\\\\notes");
+    // バックスラッシュを先にエスケープし、クォートのエスケープを二重にしない
+    expect(escapeDriveQueryValue("\\'")).toBe("\\\\\\'");
+  });
+
+  it("leaves other characters as they are", () => {
+    expect(escapeDriveQueryValue('週次 "定例" (2024)')).toBe(
+      '週次 "定例" (2024)'
+    );
+  });
+});
+
+describe("renderDriveQuery", () => {
+  it("quotes edge-case titles inside contains clauses", () => {
+    expect(renderDriveQuery(nameContains("O'Brien's \\ sync"))).toBe(
+      "name contains 'O\\'Brien\\'s \\\\ sync'"
+    );
+  });
+
+  it("renders nested groups with parentheses", () => {
+    expect(
+      renderDriveQuery(
+        and(
+          isTrashed(false),
+          or(nameContains("transcript"), nameContains("文字起こし")),
+          not(inParents("folder-1"))
+        )
+      )
+    ).toBe(
+      "trashed = false and (name contains 'transcript' or name contains '文字起こし') and not 'folder-1' in parents"
+    );
+  });
+
+  it("flattens same-operator groups and ignores falsy terms", () => {
+    const includeTrash = false;
+    expect(
+      renderDriveQuery(
+        and(
+          and(nameContains("a"), nameContains("b")),
+          includeTrash && isTrashed(true),
+          null,
+          ""
+        )
+      )
+    ).toBe("name contains 'a' and name contains 'b'");
+  });
+
+  it("renders a single term without a group", () => {
+    expect(renderDriveQuery(or(nameContains("a")))).toBe("name contains 'a'");
+    expect(renderDriveQuery(and())).toBeUndefined();
+    expect(renderDriveQuery(mimeTypeIn([]))).toBeUndefined();
+  });
+
+  it("renders mime type lists and time comparisons", () => {
+    expect(
+      renderDriveQuery(
+        and(
+          mimeTypeIn(["text/plain", "application/pdf"]),
+          compareTime("createdTime", ">=", "2024-05-01T00:00:00+09:00")
+        )
+      )
+    ).toBe(
+      "(mimeType = 'text/plain' or mimeType = 'application/pdf') and createdTime >= '2024-04-30T15:00:00.000Z'"
+    );
+  });
+});
@@ -0,0 +1,230 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import type { drive_v3 } from "googleapis";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { classifyFile, DriveSync } from "../drive-sync";
+
+const DOC = "application/vnd.google-apps.document";
+const TEXT = "text/plain";
+
+const meetingFile = (id: string, name = `定例 ${id}～Gemini によるメモ`) => ({
+  id,
+  name,
+  mimeType: DOC,
+  createdTime: "2024-05-01T01:00:00Z",
+});
+const transcriptFile = (id: string) => ({
+  id,
+  name: `定例 ${id} - 文字起こし.txt`,
+  mimeType: TEXT,
+  createdTime: "2024-05-01T01:00:00Z",
+});
+
+// Drive API のうち DriveSync が使う部分だけを差し替える
+function createDrive(options: {
+  startPageToken?: string;
+  filePages?: drive_v3.Schema$File[][];
+  changePages?: Record<string, drive_v3.Schema$ChangeList>;
+}) {
+  const filePages = options.filePages || [[]];
+  const drive = {
+    changes: {
+      getStartPageToken: vi.fn(async () => ({
+        data: { startPageToken: options.startPageToken || "token-1" },
+      })),
+      list: vi.fn(async ({ pageToken }: { pageToken: string }) => {
+        const page = options.changePages?.[pageToken];
+        if (!page) {
+          throw Object.assign(new Error("Invalid page token"), { code: 410 });
+        }
+        return { data: page };
+      }),
+    },
+    files: {
+      list: vi.fn(async ({ pageToken }: { pageToken?: string }) => {
+        const page = Number(pageToken || 0);
+        return {
+          data: {
+            files: filePages[page],
+            nextPageToken:
+              page + 1 < filePages.length ? String(page + 1) : undefined,
+          },
+        };
+      }),
+    },
+  };
+  return drive;
+}
+
+let dataDir: string;
+let userCount = 0;
+
+// 同期の状態はユーザーごとのファイルに保存されるため、テストごとに別のユーザーにする
+function createSync(drive: ReturnType<typeof createDrive>) {
+  return new DriveSync(
+    drive as unknown as drive_v3.Drive,
+    `user-${++userCount}`
+  );
+}
+
+beforeAll(async () => {
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "drive-sync-"));
+  vi.stubEnv("DATA_DIR", dataDir);
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await fs.rm(dataDir, { recursive: true, force: true });
+});
+
+describe("classifyFile", () => {
+  it("tells meeting notes and transcripts apart", () => {
+    expect(classifyFile(meetingFile("m1"))).toBe("meeting");
+    expect(classifyFile(transcriptFile("t1"))).toBe("transcript");
+    expect(classifyFile({ ...meetingFile("m2"), trashed: true })).toBeNull();
+    expect(
+      classifyFile({ id: "x", name: "予算.xlsx", mimeType: "application/zip" })
+    ).toBeNull();
+  });
+});
+
+describe("DriveSync initial build", () => {
+  it("indexes every page and starts from the token taken before listing", async () => {
+    const drive = createDrive({
+      startPageToken: "token-7",
+      filePages: [
+        [meetingFile("m1"), transcriptFile("t1")],
+        [meetingFile("m2"), { id: "x", name: "memo", mimeType: TEXT }],
+      ],
+    });
+
+    const result = await createSync(drive).sync();
+
+    expect(Object.keys(result.index.files).sort()).toEqual(["m1", "m2", "t1"]);
+    expect(result.index.files.t1.kind).toBe("transcript");
+    expect(result.index.startPageToken).toBe("token-7");
+    expect(result.index.truncated).toBe(false);
+    // 既存ファイルの取り込みは追加として数えない
+    expect(result).toMatchObject({ added: 0, newTranscripts: 0 });
+    expect(drive.changes.getStartPageToken).toHaveBeenCalledBefore(
+      drive.files.list
+    );
+  });
+
+  it("marks the index as truncated when the listing hits the limit", async () => {
+    const filePages = Array.from({ length: 12 }, (_, page) =>
+      Array.from({ length: 100 }, (_, i) => meetingFile(`m${page}-${i}`))
+    );
+    const drive = createDrive({ filePages });
+
+    const { index } = await createSync(drive).sync();
+
+    expect(Object.keys(index.files)).toHaveLength(1000);
+    expect(index.truncated).toBe(true);
+    expect(drive.files.list).toHaveBeenCalledTimes(10);
+  });
+});
+
+describe("DriveSync changes", () => {
+  it("applies additions, removals, trashing and renames across pages", async () => {
+    const drive = createDrive({
+      startPageToken: "token-1",
+      filePages: [
+        [
+          meetingFile("m1"),
+          meetingFile("m2"),
+          meetingFile("m3"),
+          transcriptFile("t1"),
+        ],
+      ],
+      changePages: {
+        "token-1": {
+          nextPageToken: "page-2",
+          changes: [
+            { fileId: "t2", file: transcriptFile("t2") },
+            { fileId: "m1", file: { ...meetingFile("m1"), trashed: true } },
+            // 名前が変わって会議メモでなくなった
+            { fileId: "m2", file: { ...meetingFile("m2"), name: "個人メモ" } },
+          ],
+        },
+        "page-2": {
+          newStartPageToken: "token-2",
+          changes: [
+            { fileId: "t1", removed: true },
+            {
+              fileId: "m3",
+              file: meetingFile("m3", "改名した定例～Gemini によるメモ"),
+            },
+            // 対象外のファイルの変更は無視する
+            { fileId: "x", file: { id: "x", name: "memo", mimeType: TEXT } },
+          ],
+        },
+      },
+    });
+    const sync = createSync(drive);
+    await sync.sync();
+
+    const result = await sync.sync({ force: true });
+
+    expect(result).toMatchObject({
+      added: 1,
+      updated: 1,
+      removed: 3,
+      newTranscripts: 1,
+    });
+    expect(Object.keys(result.index.files).sort()).toEqual(["m3", "t2"]);
+    expect(result.index.files.m3.name).toBe("改名した定例～Gemini によるメモ");
+    expect(result.index.startPageToken).toBe("token-2");
+    expect(
+      drive.changes.list.mock.calls.map(([params]) => params.pageToken)
+    ).toEqual(["token-1", "page-2"]);
+  });
+
+  it("skips a recent sync unless forced and resumes from the saved token", async () => {
+    const drive = createDrive({
+      startPageToken: "token-1",
+      filePages: [[meetingFile("m1")]],
+      changePages: {
+        "token-1": { newStartPageToken: "token-2", changes: [] },
+        "token-2": { newStartPageToken: "token-3", changes: [] },
+      },
+    });
+    const sync = createSync(drive);
+    await sync.sync();
+
+    await sync.sync();
+    expect(drive.changes.list).not.toHaveBeenCalled();
+
+    await sync.sync({ force: true });
+    const { index } = await sync.sync({ force: true });
+    expect(
+      drive.changes.list.mock.calls.map(([params]) => params.pageToken)
+    ).toEqual(["token-1", "token-2"]);
+    expect(index.startPageToken).toBe("token-3");
+  });
+
+  it("rebuilds the index when the change token has expired", async () => {
+    const drive = createDrive({
+      startPageToken: "stale-token",
+      filePages: [[meetingFile("m1")]],
+    });
+    const sync = createSync(drive);
+    await sync.sync();
+
+    const result = await sync.sync({ force: true });
+
+    expect(drive.changes.getStartPageToken).toHaveBeenCalledTimes(2);
+    expect(Object.keys(result.index.files)).toEqual(["m1"]);
+  });
+
+  it("shares one run between concurrent calls", async () => {
+    const drive = createDrive({ filePages: [[meetingFile("m1")]] });
+    const sync = createSync(drive);
+
+    const [first, second] = await Promise.all([sync.sync(), sync.sync()]);
+
+    expect(first).toBe(second);
+    expect(drive.files.list).toHaveBeenCalledTimes(1);
+  });
+});
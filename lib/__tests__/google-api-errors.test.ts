@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import { googleErrorResponse, REAUTH_REQUIRED } from "../api-auth";
+import {
+  GoogleApiError,
+  GoogleAuthError,
+  GoogleNotFoundError,
+  GooglePermissionError,
+  GoogleQuotaError,
+  GoogleTimeoutError,
+  GoogleUnavailableError,
+  isRetryableGoogleError,
+  toGoogleApiError,
+} from "../google-api-errors";
+
+function httpError(status: number, reason?: string) {
+  return Object.assign(new Error(`Request failed with status ${status}`), {
+    response: {
+      status,
+      data: reason ? { error: { errors: [{ reason }] } } : undefined,
+    },
+  });
+}
+
+describe("toGoogleApiError", () => {
+  it.each([
+    [401, undefined, GoogleAuthError],
+    [403, undefined, GooglePermissionError],
+    [403, "userRateLimitExceeded", GoogleQuotaError],
+    [403, "dailyLimitExceeded", GoogleQuotaError],
+    [404, undefined, GoogleNotFoundError],
+    [429, undefined, GoogleQuotaError],
+    [500, undefined, GoogleUnavailableError],
+    [503, undefined, GoogleUnavailableError],
+    [400, undefined, GoogleApiError],
+  ])("maps %i (%s) to %O", (status, reason, errorClass) => {
+    const error = toGoogleApiError(httpError(status, reason));
+
+    expect(error).toBeInstanceOf(errorClass);
+    expect(error).toMatchObject({ status, reason });
+  });
+
+  it("finds the status of a wrapped error", () => {
+    const wrapped = new Error("Failed to fetch meeting files", {
+      cause: httpError(404),
+    });
+
+    expect(toGoogleApiError(wrapped)).toBeInstanceOf(GoogleNotFoundError);
+  });
+
+  it("returns an already typed error as is", () => {
+    const timeout = new GoogleTimeoutError("timed out");
+
+    expect(toGoogleApiError(new Error("wrap", { cause: timeout }))).toBe(
+      timeout
+    );
+  });
+
+  it("returns null for errors without a status", () => {
+    expect(toGoogleApiError(new Error("parse failed"))).toBeNull();
+  });
+});
+
+describe("isRetryableGoogleError", () => {
+  it("retries rate limits, server errors, timeouts and dropped connections", () => {
+    expect(isRetryableGoogleError(httpError(429))).toBe(true);
+    expect(isRetryableGoogleError(httpError(502))).toBe(true);
+    expect(
+      isRetryableGoogleError(httpError(403, "rateLimitExceeded"))
+    ).toBe(true);
+    expect(isRetryableGoogleError(new GoogleTimeoutError("timeout"))).toBe(
+      true
+    );
+    expect(
+      isRetryableGoogleError(Object.assign(new Error(), { code: "ECONNRESET" }))
+    ).toBe(true);
+  });
+
+  it("does not retry permission, quota and client errors", () => {
+    expect(isRetryableGoogleError(httpError(403))).toBe(false);
+    expect(isRetryableGoogleError(httpError(403, "quotaExceeded"))).toBe(
+      false
+    );
+    expect(isRetryableGoogleError(httpError(404))).toBe(false);
+    expect(isRetryableGoogleError(httpError(401))).toBe(false);
+  });
+});
+
+describe("googleErrorResponse", () => {
+  it.each([
+    [httpError(401), 401, REAUTH_REQUIRED],
+    [httpError(403), 403, "permission_denied"],
+    [httpError(404), 404, "not_found"],
+    [new GoogleTimeoutError("timed out"), 504, "timeout"],
+    [httpError(503), 503, "unavailable"],
+  ])("maps %s to HTTP %i", async (error, status, code) => {
+    const response = googleErrorResponse(error, "Failed");
+
+    expect(response.status).toBe(status);
+    expect(await response.json()).toMatchObject({ code });
+  });
+
+  it("tells the client when to retry after a quota error", async () => {
+    const error = new GoogleQuotaError("rate limited", { status: 429 });
+    error.retryAfterMs = 2500;
+
+    const response = googleErrorResponse(error, "Failed");
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get("Retry-After")).toBe("3");
+    expect(await response.json()).toMatchObject({
+      code: "quota_exceeded",
+      retryAfterSeconds: 3,
+    });
+  });
+
+  it("falls back to a 500 with the given message", async () => {
+    const response = googleErrorResponse(new Error("boom"), "Failed to load");
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ error: "Failed to load" });
+  });
+});
@@ -0,0 +1,237 @@
+import { google } from "googleapis";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  GoogleNotFoundError,
+  GoogleQuotaError,
+  GoogleTimeoutError,
+  GoogleUnavailableError,
+} from "../google-api-errors";
+import { createGoogleAuth, googleRequest } from "../google-client";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("googleRequest", () => {
+  beforeEach(() => {
+    vi.stubEnv("GOOGLE_API_CONCURRENCY", "2");
+    vi.stubEnv("GOOGLE_API_MAX_RETRIES", "0");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("never runs more than the limit per user across limiter hand-offs", async () => {
+    let active = 0;
+    let maxActive = 0;
+    const task = (ms: number) => async () => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await sleep(ms);
+      active--;
+      return ms;
+    };
+
+    // 最初の波が終わる直前・直後にも新しい呼び出しを重ねる
+    const first = [5, 1, 3, 2, 4].map((ms) =>
+      googleRequest("user@example.com", task(ms))
+    );
+    const second = sleep(3).then(() =>
+      Promise.all(
+        [1, 1, 2].map((ms) => googleRequest("user@example.com", task(ms)))
+      )
+    );
+
+    await expect(Promise.all(first)).resolves.toEqual([5, 1, 3, 2, 4]);
+    await second;
+    expect(maxActive).toBe(2);
+    expect(active).toBe(0);
+  });
+
+  it("limits users independently", async () => {
+    let active = 0;
+    let maxActive = 0;
+    const task = async () => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await sleep(2);
+      active--;
+    };
+
+    await Promise.all(
+      ["a", "a", "a", "b", "b", "b"].map((user) => googleRequest(user, task))
+    );
+    expect(maxActive).toBe(4);
+  });
+});
+
+// gaxios が投げるエラーと同じ形（response.status / response.headers）
+function httpError(status: number, headers: Record<string, string> = {}) {
+  return Object.assign(new Error(`Request failed with status ${status}`), {
+    response: { status, headers },
+  });
+}
+
+describe("googleRequest retries", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2024-05-01T00:00:00Z"));
+    // ジッターを上限に固定して待ち時間を決定的にする
+    vi.spyOn(Math, "random").mockReturnValue(1);
+    vi.stubEnv("GOOGLE_API_MAX_RETRIES", "4");
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+  });
+
+  it("retries 429 and 503 with exponential backoff", async () => {
+    const request = vi
+      .fn()
+      .mockRejectedValueOnce(httpError(429))
+      .mockRejectedValueOnce(httpError(503))
+      .mockResolvedValueOnce("ok");
+
+    const result = googleRequest("backoff", request);
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(request).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(499);
+    expect(request).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(request).toHaveBeenCalledTimes(2);
+    // 2回目の待ち時間は倍になる
+    await vi.advanceTimersByTimeAsync(999);
+    expect(request).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(result).resolves.toBe("ok");
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+
+  it("waits for Retry-After in seconds or as a date", async () => {
+    const request = vi
+      .fn()
+      .mockRejectedValueOnce(httpError(429, { "retry-after": "3" }))
+      .mockRejectedValueOnce(
+        httpError(503, { "retry-after": "Wed, 01 May 2024 00:00:05 GMT" })
+      )
+      .mockResolvedValueOnce("ok");
+
+    const result = googleRequest("retry-after", request);
+
+    await vi.advanceTimersByTimeAsync(2999);
+    expect(request).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(request).toHaveBeenCalledTimes(2);
+    // 2回目は 00:00:03 時点で 00:00:05 まで待つ
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(request).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(result).resolves.toBe("ok");
+  });
+
+  it("caps a long Retry-After at the maximum delay", async () => {
+    const request = vi
+      .fn()
+      .mockRejectedValueOnce(httpError(429, { "retry-after": "3600" }))
+      .mockResolvedValueOnce("ok");
+
+    const result = googleRequest("retry-after-cap", request);
+
+    await vi.advanceTimersByTimeAsync(16000);
+    await expect(result).resolves.toBe("ok");
+  });
+
+  it("gives up after the retry limit with a typed error", async () => {
+    vi.stubEnv("GOOGLE_API_MAX_RETRIES", "2");
+    const request = vi.fn().mockRejectedValue(httpError(503));
+
+    const result = expect(googleRequest("limit", request)).rejects.toThrow(
+      GoogleUnavailableError
+    );
+    await vi.advanceTimersByTimeAsync(60000);
+
+    await result;
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+
+  it("keeps Retry-After on the quota error after the last attempt", async () => {
+    vi.stubEnv("GOOGLE_API_MAX_RETRIES", "0");
+    const request = vi
+      .fn()
+      .mockRejectedValue(httpError(429, { "retry-after": "7" }));
+
+    const error = await googleRequest("quota", request).catch(
+      (e: GoogleQuotaError) => e
+    );
+
+    expect(error).toBeInstanceOf(GoogleQuotaError);
+    expect(error).toMatchObject({ retryAfterMs: 7000 });
+  });
+
+  it("does not retry errors that will not go away", async () => {
+    const request = vi.fn().mockRejectedValue(httpError(404));
+
+    await expect(googleRequest("not-found", request)).rejects.toThrow(
+      GoogleNotFoundError
+    );
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it("aborts a request that exceeds the timeout", async () => {
+    vi.stubEnv("GOOGLE_API_MAX_RETRIES", "0");
+    vi.stubEnv("GOOGLE_API_TIMEOUT_MS", "1000");
+    let signal: AbortSignal | undefined;
+    const request = vi.fn(
+      (abortSignal: AbortSignal) =>
+        new Promise((_, reject) => {
+          signal = abortSignal;
+          abortSignal.addEventListener("abort", () =>
+            reject(new Error("aborted"))
+          );
+        })
+    );
+
+    const result = expect(googleRequest("timeout", request)).rejects.toThrow(
+      GoogleTimeoutError
+    );
+    await vi.advanceTimersByTimeAsync(1000);
+
+    await result;
+    expect(signal?.aborted).toBe(true);
+  });
+});
+
+describe("createGoogleAuth", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(Math, "random").mockReturnValue(0);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("routes requests through googleRequest with gaxios retries disabled", async () => {
+    const request = vi
+      .spyOn(google.auth.OAuth2.prototype, "request")
+      .mockRejectedValueOnce(httpError(503))
+      .mockResolvedValueOnce({ data: "ok" } as never);
+    const auth = createGoogleAuth("token", { userKey: "auth-user" });
+
+    const result = auth.request({ url: "https://example.com" });
+    await vi.advanceTimersByTimeAsync(0);
+
+    await expect(result).resolves.toEqual({ data: "ok" });
+    expect(request).toHaveBeenCalledTimes(2);
+    expect(request).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        url: "https://example.com",
+        retry: false,
+        signal: expect.any(AbortSignal),
+      })
+    );
+  });
+});
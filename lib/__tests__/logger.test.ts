@@ -0,0 +1,39 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createLogger } from "../logger";
+
+describe("logger", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it("appends redacted fields to text output", () => {
+    vi.stubEnv("LOG_FORMAT", "text");
+    vi.stubEnv("LOG_LEVEL", "info");
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    createLogger({ scope: "drive" }).error("Failed to fetch", {
+      fileId: "abc",
+      accessToken: "ya29.secret",
+      error: new Error("quota exceeded"),
+    });
+
+    const line = error.mock.calls[0][0] as string;
+    expect(line).toMatch(/^\S+ ERROR \[drive\] Failed to fetch \{/);
+    expect(JSON.parse(line.slice(line.indexOf("{")))).toEqual({
+      fileId: "abc",
+      accessToken: "[REDACTED]",
+      error: { name: "Error", message: "quota exceeded" },
+    });
+  });
+
+  it("omits the field suffix when there are no fields", () => {
+    vi.stubEnv("LOG_FORMAT", "text");
+    vi.stubEnv("LOG_LEVEL", "info");
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    createLogger().info("Started");
+
+    expect(log.mock.calls[0][0]).toMatch(/^\S+ INFO Started$/);
+  });
+});
@@ -0,0 +1,241 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { AddressInfo } from "net";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { MeetRestAPI } from "../meet-rest-api";
+
+// Meet REST API のモック HTTP サーバー（会議記録は3ページに分かれている）
+const RECORD_PAGES = [
+  [
+    {
+      name: "conferenceRecords/rec-1",
+      space: "spaces/space-1",
+      startTime: "2024-05-01T01:00:00Z",
+    },
+    {
+      name: "conferenceRecords/rec-2",
+      space: "spaces/space-2",
+      startTime: "2024-05-01T02:00:00Z",
+    },
+  ],
+  [
+    {
+      name: "conferenceRecords/rec-3",
+      space: "spaces/space-3",
+      startTime: "2024-05-02T01:00:00Z",
+    },
+    {
+      name: "conferenceRecords/rec-4",
+      space: "spaces/space-4",
+      startTime: "2024-05-02T02:00:00Z",
+    },
+  ],
+  [
+    {
+      name: "conferenceRecords/rec-5",
+      space: "spaces/space-5",
+      startTime: "2024-05-03T01:00:00Z",
+      endTime: "2024-05-03T02:00:00Z",
+    },
+  ],
+];
+
+const SPACES: Record<string, { meetingCode: string; meetingUri: string }> = {
+  "space-1": {
+    meetingCode: "aaa-bbbb-ccc",
+    meetingUri: "https://meet.google.com/aaa-bbbb-ccc",
+  },
+  "space-2": {
+    meetingCode: "ddd-eeee-fff",
+    meetingUri: "https://meet.google.com/ddd-eeee-fff",
+  },
+  "space-3": {
+    meetingCode: "ggg-hhhh-iii",
+    meetingUri: "https://meet.google.com/ggg-hhhh-iii",
+  },
+  "space-4": {
+    meetingCode: "jjj-kkkk-lll",
+    meetingUri: "https://meet.google.com/jjj-kkkk-lll",
+  },
+  "space-5": {
+    meetingCode: "xyz-wxyz-xyz",
+    meetingUri: "https://meet.google.com/xyz-wxyz-xyz",
+  },
+};
+
+let server: Server;
+let rootUrl: string;
+let requests: string[];
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "content-type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function handle(req: IncomingMessage, res: ServerResponse) {
+  const url = new URL(req.url || "/", "http://localhost");
+  requests.push(`${url.pathname}${url.search}`);
+  const path = decodeURIComponent(url.pathname);
+  let match: RegExpMatchArray | null;
+
+  if (path === "/v2/conferenceRecords") {
+    const page = Number(url.searchParams.get("pageToken") || 0);
+    return sendJson(res, 200, {
+      conferenceRecords: RECORD_PAGES[page],
+      ...(page + 1 < RECORD_PAGES.length && {
+        nextPageToken: String(page + 1),
+      }),
+    });
+  }
+  if ((match = path.match(/^\/v2\/spaces\/([^/]+)$/))) {
+    const space = SPACES[match[1]];
+    return space
+      ? sendJson(res, 200, { name: `spaces/${match[1]}`, ...space })
+      : sendJson(res, 404, { error: { code: 404, message: "Not found" } });
+  }
+  if (path === "/v2/conferenceRecords/rec-1/participants") {
+    return sendJson(res, 200, {
+      participants: [
+        {
+          name: "conferenceRecords/rec-1/participants/p1",
+          signedinUser: { displayName: "田中" },
+        },
+        {
+          name: "conferenceRecords/rec-1/participants/p2",
+          anonymousUser: { displayName: "Guest" },
+        },
+      ],
+    });
+  }
+  if (path === "/v2/conferenceRecords/rec-1/transcripts") {
+    return sendJson(res, 200, {
+      transcripts: [
+        {
+          name: "conferenceRecords/rec-1/transcripts/t1",
+          startTime: "2024-05-01T01:00:00Z",
+        },
+      ],
+    });
+  }
+  if (path === "/v2/conferenceRecords/rec-1/transcripts/t1/entries") {
+    const pageToken = url.searchParams.get("pageToken");
+    return sendJson(
+      res,
+      200,
+      pageToken
+        ? {
+            transcriptEntries: [
+              {
+                participant: "conferenceRecords/rec-1/participants/p2",
+                text: "Hello",
+                startTime: "2024-05-01T01:00:05Z",
+                endTime: "2024-05-01T01:00:07Z",
+              },
+            ],
+          }
+        : {
+            transcriptEntries: [
+              {
+                participant: "conferenceRecords/rec-1/participants/p1",
+                text: "始めます",
+                startTime: "2024-05-01T01:00:00Z",
+                endTime: "2024-05-01T01:00:03Z",
+              },
+            ],
+            nextPageToken: "next",
+          }
+    );
+  }
+  if (path === "/v2/conferenceRecords/rec-1") {
+    return sendJson(res, 200, RECORD_PAGES[0][0]);
+  }
+  return sendJson(res, 404, { error: { code: 404, message: "Not found" } });
+}
+
+beforeAll(async () => {
+  server = createServer(handle);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  rootUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+  requests = [];
+});
+
+describe("MeetRestAPI.listConferenceRecords", () => {
+  it("maps conference records and their spaces to meetings", async () => {
+    const api = new MeetRestAPI("test-token", { rootUrl });
+    const page = await api.listConferenceRecords({ pageSize: 2 });
+
+    expect(page.source).toBe("meet");
+    expect(page.nextCursor).toBe("1");
+    expect(page.meetings.map((meeting) => meeting.id)).toEqual([
+      "rec-1",
+      "rec-2",
+    ]);
+    expect(page.meetings[0]).toMatchObject({
+      name: "Google Meet aaa-bbbb-ccc",
+      meetingCode: "aaa-bbbb-ccc",
+      webViewLink: "https://meet.google.com/aaa-bbbb-ccc",
+      conferenceRecord: "conferenceRecords/rec-1",
+    });
+  });
+
+  it("passes the created range as a start_time filter", async () => {
+    const api = new MeetRestAPI("test-token", { rootUrl });
+    await api.listConferenceRecords({
+      pageSize: 2,
+      createdFrom: "2024-05-01T00:00:00Z",
+    });
+
+    const listRequest = requests.find((request) =>
+      request.startsWith("/v2/conferenceRecords?")
+    );
+    expect(
+      new URL(listRequest!, "http://localhost").searchParams.get("filter")
+    ).toBe('start_time>="2024-05-01T00:00:00.000Z"');
+  });
+
+  it("keeps fetching pages until the query fills the page", async () => {
+    const api = new MeetRestAPI("test-token", { rootUrl });
+    const page = await api.listConferenceRecords({ pageSize: 2, query: "xyz" });
+
+    expect(page.meetings.map((meeting) => meeting.id)).toEqual(["rec-5"]);
+    expect(page.nextCursor).toBeUndefined();
+  });
+
+  it("does not return an empty page with a cursor when nothing matches", async () => {
+    const api = new MeetRestAPI("test-token", { rootUrl });
+    const page = await api.listConferenceRecords({
+      pageSize: 2,
+      query: "no-such-meeting",
+    });
+
+    expect(page.meetings).toEqual([]);
+    expect(page.nextCursor).toBeUndefined();
+  });
+});
+
+describe("MeetRestAPI.getConferenceRecord", () => {
+  it("returns null for a missing record", async () => {
+    const api = new MeetRestAPI("test-token", { rootUrl });
+    await expect(api.getConferenceRecord("missing")).resolves.toBeNull();
+  });
+});
+
+describe("MeetRestAPI.getTranscriptsWithEntries", () => {
+  it("resolves speakers and offsets across entry pages", async () => {
+    const api = new MeetRestAPI("test-token", { rootUrl });
+    const [transcript] = await api.getTranscriptsWithEntries("rec-1");
+
+    expect(transcript.id).toBe("t1");
+    expect(transcript.entries).toMatchObject([
+      { index: 0, speaker: "田中", text: "始めます", startMs: 0, endMs: 3000 },
+      { index: 1, speaker: "Guest", text: "Hello", startMs: 5000, endMs: 7000 },
+    ]);
+    expect(transcript.content).toBe("田中: 始めます\nGuest: Hello");
+  });
+});
@@ -0,0 +1,159 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { GoogleMeetAPI, Meeting } from "../google-meet-api";
+import {
+  createMeetingBundle,
+  MeetingArtifact,
+  parseSessionStartTime,
+} from "../meeting-bundle";
+import { DriveProvider } from "../meeting-provider";
+
+const MEETING: Meeting = {
+  id: "notes-1",
+  name: "週次定例",
+  createdTime: "2024-05-01T01:45:00Z",
+  startTime: "2024-05-01T01:00:00Z",
+};
+
+const artifact = (
+  kind: MeetingArtifact["kind"],
+  id: string,
+  createdTime?: string
+): MeetingArtifact => ({ kind, id, name: `週次定例 ${id}`, createdTime });
+
+describe("parseSessionStartTime", () => {
+  it("converts the session date and time in a file name to UTC", () => {
+    expect(
+      parseSessionStartTime("週次定例 (2024-05-01 10:00 GMT+09:00)～Transcript")
+    ).toBe("2024-05-01T01:00:00.000Z");
+    expect(
+      parseSessionStartTime("定例 - 2025/08/25 13:58 JST - 文字起こし")
+    ).toBe("2025-08-25T04:58:00.000Z");
+    expect(parseSessionStartTime("Sync (2024-05-01 09:30 GMT-5)～Chat")).toBe(
+      "2024-05-01T14:30:00.000Z"
+    );
+  });
+
+  it("returns undefined without a date or a time zone", () => {
+    expect(parseSessionStartTime("採用面談～Gemini によるメモ")).toBeUndefined();
+    expect(parseSessionStartTime("定例 2024-05-01 10:00")).toBeUndefined();
+  });
+});
+
+describe("createMeetingBundle", () => {
+  it("leaves every slot empty when the meeting has no files", () => {
+    expect(createMeetingBundle(MEETING, [])).toEqual({
+      meeting: MEETING,
+      notes: null,
+      transcript: null,
+      recording: null,
+      chat: null,
+    });
+  });
+
+  it("fills only the kinds that were found", () => {
+    const chat = artifact("chat", "chat-1", "2024-05-01T02:00:00Z");
+
+    const bundle = createMeetingBundle(MEETING, [chat]);
+
+    expect(bundle).toMatchObject({
+      notes: null,
+      transcript: null,
+      recording: null,
+      chat,
+    });
+    expect(bundle.calendarEvent).toBeUndefined();
+  });
+
+  it("picks the file closest to the meeting start", () => {
+    const bundle = createMeetingBundle(MEETING, [
+      // 作成日時のないファイルは最後の候補
+      artifact("recording", "rec-unknown"),
+      artifact("recording", "rec-next-week", "2024-05-08T01:50:00Z"),
+      artifact("recording", "rec-1", "2024-05-01T01:50:00Z"),
+    ]);
+
+    expect(bundle.recording?.id).toBe("rec-1");
+    expect(
+      createMeetingBundle(MEETING, [artifact("recording", "rec-unknown")])
+        .recording?.id
+    ).toBe("rec-unknown");
+  });
+
+  it("prefers the given slots over the found files", () => {
+    const transcript = artifact("transcript", "pinned");
+
+    const bundle = createMeetingBundle(
+      MEETING,
+      [artifact("transcript", "closest", "2024-05-01T01:50:00Z")],
+      { transcript }
+    );
+
+    expect(bundle.transcript).toBe(transcript);
+  });
+});
+
+describe("DriveProvider.getMeetingBundle", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("lists the transcript without downloading its content", async () => {
+    vi.spyOn(GoogleMeetAPI.prototype, "getMeeting").mockResolvedValue(MEETING);
+    vi.spyOn(GoogleMeetAPI.prototype, "findSessionArtifacts").mockResolvedValue(
+      []
+    );
+    vi.spyOn(GoogleMeetAPI.prototype, "listTranscriptFiles").mockResolvedValue([
+      {
+        id: "transcript-1",
+        name: "週次定例 - 文字起こし",
+        createdTime: "2024-05-01T01:50:00Z",
+        pinned: true,
+      },
+    ]);
+    const getAllTranscripts = vi.spyOn(
+      GoogleMeetAPI.prototype,
+      "getAllTranscripts"
+    );
+
+    const bundle = await new DriveProvider("token").getMeetingBundle(
+      MEETING.id
+    );
+
+    expect(getAllTranscripts).not.toHaveBeenCalled();
+    expect(bundle).toMatchObject({
+      notes: { kind: "notes", id: "notes-1" },
+      transcript: { kind: "transcript", id: "transcript-1" },
+      recording: null,
+      chat: null,
+    });
+  });
+
+  it("returns a bundle without a transcript when none is found", async () => {
+    vi.spyOn(GoogleMeetAPI.prototype, "getMeeting").mockResolvedValue(MEETING);
+    vi.spyOn(GoogleMeetAPI.prototype, "findSessionArtifacts").mockResolvedValue(
+      [artifact("chat", "chat-1", "2024-05-01T02:00:00Z")]
+    );
+    vi.spyOn(GoogleMeetAPI.prototype, "listTranscriptFiles").mockResolvedValue(
+      []
+    );
+
+    const bundle = await new DriveProvider("token").getMeetingBundle(
+      MEETING.id
+    );
+
+    expect(bundle).toMatchObject({
+      notes: { id: "notes-1" },
+      transcript: null,
+      recording: null,
+      chat: { id: "chat-1" },
+    });
+  });
+
+  it("returns null for an unknown meeting", async () => {
+    vi.spyOn(GoogleMeetAPI.prototype, "getMeeting").mockResolvedValue(null);
+
+    await expect(
+      new DriveProvider("token").getMeetingBundle("missing")
+    ).resolves.toBeNull();
+  });
+});
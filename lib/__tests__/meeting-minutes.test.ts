@@ -0,0 +1,319 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { AddressInfo } from "net";
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+} from "vitest";
+import type { MeetingCalendarEvent, TranscriptEntry } from "../google-meet-api";
+import {
+  chunkEntries,
+  FakeMinutesProvider,
+  generateMinutes,
+  MinutesChunk,
+  MinutesContent,
+  MinutesProvider,
+  MinutesProviderError,
+  OpenAICompatibleMinutesProvider,
+  sanitizeMinutesContent,
+} from "../meeting-minutes";
+
+const ENTRIES: TranscriptEntry[] = [
+  {
+    index: 0,
+    speaker: "田中",
+    timestamp: "00:00:05",
+    text: "今日はリリース計画について話します。",
+  },
+  {
+    index: 1,
+    speaker: "佐藤",
+    timestamp: "00:01:10",
+    text: "リリースは6月に延期することに決まりました。",
+  },
+  {
+    index: 2,
+    speaker: "田中",
+    timestamp: "00:02:30",
+    text: "佐藤さん、5/20までに見積もりの確認をお願いします。",
+  },
+  { index: 3, speaker: "佐藤", timestamp: "00:03:00", text: "承知しました。" },
+];
+
+const EVENT: MeetingCalendarEvent = {
+  eventId: "ev-1",
+  calendarId: "primary",
+  summary: "リリース定例",
+  startTime: "2024-05-13T10:00:00+09:00",
+  attendees: [
+    { email: "tanaka@example.com", displayName: "田中" },
+    { email: "sato@example.com" },
+  ],
+};
+
+// 受け取った分割を記録するプロバイダー
+class RecordingProvider implements MinutesProvider {
+  readonly name = "recording";
+  chunks: MinutesChunk[] = [];
+
+  async generate(chunk: MinutesChunk): Promise<MinutesContent> {
+    this.chunks.push(chunk);
+    return { agenda: ["共通の議題"], decisions: [], actionItems: [] };
+  }
+}
+
+describe("generateMinutes with FakeMinutesProvider", () => {
+  it("builds deterministic minutes from the transcript and event", async () => {
+    const minutes = await generateMinutes(
+      { entries: ENTRIES, calendarEvent: EVENT, meetingName: "ファイル名" },
+      new FakeMinutesProvider()
+    );
+
+    expect(minutes).toMatchObject({
+      title: "リリース定例",
+      date: "2024-05-13T10:00:00+09:00",
+      attendees: ["田中", "sato@example.com"],
+      decisions: ["リリースは6月に延期することに決まりました。"],
+      actionItems: [
+        {
+          task: "佐藤さん、5/20までに見積もりの確認をお願いします。",
+          owner: "佐藤",
+          dueDate: "2024-05-20",
+        },
+      ],
+      provider: "fake",
+      chunkCount: 1,
+    });
+    expect(minutes.agenda.length).toBeGreaterThan(0);
+  });
+
+  it("returns the same content for the same input", async () => {
+    const provider = new FakeMinutesProvider();
+    const [first, second] = await Promise.all([
+      generateMinutes({ entries: ENTRIES }, provider),
+      generateMinutes({ entries: ENTRIES }, provider),
+    ]);
+
+    expect({ ...first, generatedAt: "" }).toEqual({
+      ...second,
+      generatedAt: "",
+    });
+    expect(first.title).toBe("会議");
+  });
+
+  it("sends long transcripts in chunks and merges duplicate items", async () => {
+    const provider = new RecordingProvider();
+    const minutes = await generateMinutes({ entries: ENTRIES }, provider, {
+      maxChunkChars: 40,
+    });
+
+    expect(provider.chunks.map((chunk) => chunk.chunkIndex)).toEqual([
+      0, 1, 2, 3,
+    ]);
+    expect(provider.chunks[2].text).toBe(
+      "[00:02:30] 田中: 佐藤さん、5/20までに見積もりの確認をお願いします。"
+    );
+    expect(minutes.chunkCount).toBe(4);
+    expect(minutes.agenda).toEqual(["共通の議題"]);
+  });
+});
+
+describe("chunkEntries", () => {
+  it("never splits an utterance", () => {
+    expect(chunkEntries(ENTRIES, 1).map((chunk) => chunk.length)).toEqual([
+      1, 1, 1, 1,
+    ]);
+    expect(chunkEntries(ENTRIES)).toEqual([ENTRIES]);
+  });
+});
+
+describe("sanitizeMinutesContent", () => {
+  it("drops malformed model output", () => {
+    expect(
+      sanitizeMinutesContent({
+        agenda: ["議題", 1, " "],
+        decisions: "not a list",
+        actionItems: [
+          { task: " 見積もり ", owner: "佐藤", dueDate: "5月20日" },
+          { owner: "田中" },
+        ],
+      })
+    ).toEqual({
+      agenda: ["議題"],
+      decisions: [],
+      actionItems: [{ task: "見積もり", owner: "佐藤" }],
+    });
+  });
+});
+
+// OpenAI 互換のモデルサーバーのモック（テストごとに応答を差し替える）
+let server: Server;
+let baseUrl: string;
+let reply: { status: number; body: string };
+let requests: Array<{
+  url?: string;
+  headers: IncomingMessage["headers"];
+  body: Record<string, unknown>;
+}>;
+
+const completion = (content: string) =>
+  JSON.stringify({ choices: [{ message: { role: "assistant", content } }] });
+
+function handle(req: IncomingMessage, res: ServerResponse) {
+  let body = "";
+  req.on("data", (chunk) => (body += chunk));
+  req.on("end", () => {
+    requests.push({
+      url: req.url,
+      headers: req.headers,
+      body: JSON.parse(body),
+    });
+    res.writeHead(reply.status, { "content-type": "application/json" });
+    res.end(reply.body);
+  });
+}
+
+const CHUNK: MinutesChunk = {
+  title: "リリース定例",
+  date: "2024-05-13T10:00:00+09:00",
+  attendees: ["田中", "佐藤"],
+  chunkIndex: 1,
+  chunkCount: 2,
+  entries: ENTRIES.slice(1, 2),
+  text: "[00:01:10] 佐藤: リリースは6月に延期することに決まりました。",
+};
+
+beforeAll(async () => {
+  server = createServer(handle);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/`;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+  requests = [];
+  reply = { status: 200, body: completion("{}") };
+});
+
+describe("OpenAICompatibleMinutesProvider", () => {
+  const provider = (apiKey?: string) =>
+    new OpenAICompatibleMinutesProvider({
+      baseUrl,
+      model: "test-model",
+      apiKey,
+    });
+
+  it("sends the chunk as a chat completion request", async () => {
+    await provider("secret").generate(CHUNK);
+
+    expect(requests).toHaveLength(1);
+    const [request] = requests;
+    expect(request.url).toBe("/v1/chat/completions");
+    expect(request.headers).toMatchObject({
+      "content-type": "application/json",
+      authorization: "Bearer secret",
+    });
+    expect(request.body).toMatchObject({ model: "test-model", temperature: 0 });
+
+    const messages = request.body.messages as Array<{
+      role: string;
+      content: string;
+    }>;
+    expect(messages.map((message) => message.role)).toEqual([
+      "system",
+      "user",
+    ]);
+    expect(messages[1].content).toBe(
+      [
+        "会議名: リリース定例",
+        "日時: 2024-05-13T10:00:00+09:00",
+        "参加者: 田中, 佐藤",
+        "（長い会議のため分割しています: 2/2）",
+        "",
+        "文字起こし:",
+        CHUNK.text,
+      ].join("\n")
+    );
+  });
+
+  it("omits the Authorization header without an API key", async () => {
+    await provider().generate(CHUNK);
+
+    expect(requests[0].headers.authorization).toBeUndefined();
+  });
+
+  it("reads JSON wrapped in a code fence and sanitizes it", async () => {
+    reply.body = completion(
+      [
+        "議事録は次のとおりです。",
+        "```json",
+        JSON.stringify({
+          agenda: ["リリース計画", ""],
+          decisions: ["6月に延期"],
+          actionItems: [{ task: "見積もりの確認", owner: "佐藤", dueDate: "5/20" }],
+        }),
+        "```",
+      ].join("\n")
+    );
+
+    await expect(provider().generate(CHUNK)).resolves.toEqual({
+      agenda: ["リリース計画"],
+      decisions: ["6月に延期"],
+      actionItems: [{ task: "見積もりの確認", owner: "佐藤" }],
+    });
+  });
+
+  it("reads bare JSON surrounded by prose", async () => {
+    reply.body = completion('結果: {"agenda": ["予算"]} 以上です。');
+
+    await expect(provider().generate(CHUNK)).resolves.toMatchObject({
+      agenda: ["予算"],
+    });
+  });
+
+  it("fails on a non-OK status", async () => {
+    reply = { status: 503, body: JSON.stringify({ error: "overloaded" }) };
+
+    const error = await provider()
+      .generate(CHUNK)
+      .catch((e: MinutesProviderError) => e);
+    expect(error).toBeInstanceOf(MinutesProviderError);
+    expect(error).toMatchObject({
+      message: "Model server responded with 503",
+    });
+  });
+
+  it("fails when the model does not answer with valid JSON", async () => {
+    reply.body = completion('{"agenda": ["予算",]}');
+    await expect(provider().generate(CHUNK)).rejects.toThrow(
+      "Model response was not valid JSON"
+    );
+
+    reply.body = completion("議題はありませんでした。");
+    await expect(provider().generate(CHUNK)).rejects.toThrow(
+      "Model response did not contain JSON"
+    );
+
+    reply.body = JSON.stringify({ choices: [] });
+    await expect(provider().generate(CHUNK)).rejects.toThrow(
+      "Model response was empty"
+    );
+  });
+
+  it("wraps connection failures", async () => {
+    const unreachable = new OpenAICompatibleMinutesProvider({
+      baseUrl: "http://127.0.0.1:1",
+      model: "test-model",
+    });
+
+    await expect(unreachable.generate(CHUNK)).rejects.toThrow(
+      "Failed to reach the model server"
+    );
+  });
+});
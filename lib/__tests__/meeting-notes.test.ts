@@ -0,0 +1,81 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import { describe, expect, it } from "vitest";
+import { parseMeetingNotes } from "../meeting-notes";
+
+const readFixture = (name: string) =>
+  readFileSync(join(__dirname, "fixtures", name), "utf8");
+
+describe("parseMeetingNotes", () => {
+  it("reads the sections of Japanese Gemini notes", () => {
+    const notes = parseMeetingNotes(readFixture("gemini-notes-ja.html"));
+
+    expect(notes.summary).toEqual([
+      "リリースを6月に延期し、見積もりを再確認することになりました。",
+      "サポート体制は A & B の2チームで分担します。",
+    ]);
+    // 節の中の小見出しでは節を終えない
+    expect(notes.topics).toEqual([
+      {
+        title: "リリース時期",
+        text: "田中さんは、テストの遅れを理由にリリースを6月に延期すると説明しました。",
+        timestamp: "00:05:12",
+      },
+      {
+        text: "見積もりの前提が変わったため、佐藤さんが再確認を申し出ました",
+        timestamp: "12:30",
+      },
+    ]);
+    expect(notes.nextSteps).toEqual([
+      { task: "リリース手順書を更新する", assignees: ["田中 太郎", "鈴木"] },
+      { task: "5/20 までに見積もりを確認する", assignees: ["佐藤"] },
+      { task: "議事録を共有する", assignees: [] },
+    ]);
+  });
+
+  it("stops at the transcript heading", () => {
+    const notes = parseMeetingNotes(readFixture("gemini-notes-ja.html"));
+
+    expect(JSON.stringify(notes)).not.toContain("それでは始めます");
+  });
+
+  it("treats unstyled paragraphs as section headings in English notes", () => {
+    const notes = parseMeetingNotes(
+      [
+        "<p><span>Notes</span></p>",
+        "<p><span>📝 Summary:</span></p>",
+        "<p><span>The team agreed to ship in June.</span></p>",
+        "<p><span>Details</span></p>",
+        "<ul><li>Release date: Alice moved the launch to June. (01:02)</li></ul>",
+        "<p><span>Suggested next steps</span></p>",
+        "<ul><li>[Bob, Carol] Update the runbook</li></ul>",
+      ].join("")
+    );
+
+    expect(notes).toEqual({
+      summary: ["The team agreed to ship in June."],
+      topics: [
+        {
+          title: "Release date",
+          text: "Alice moved the launch to June.",
+          timestamp: "01:02",
+        },
+      ],
+      nextSteps: [{ task: "Update the runbook", assignees: ["Bob", "Carol"] }],
+    });
+  });
+
+  it("does not treat a list item named like a section as a heading", () => {
+    const notes = parseMeetingNotes(
+      "<h2>まとめ</h2><ul><li>概要</li><li>予算を確定した</li></ul>"
+    );
+
+    expect(notes.summary).toEqual(["概要", "予算を確定した"]);
+  });
+
+  it("returns empty sections for documents without notes", () => {
+    expect(
+      parseMeetingNotes("<h1>議事録</h1><p>メモはありません</p>")
+    ).toEqual({ summary: [], topics: [], nextSteps: [] });
+  });
+});
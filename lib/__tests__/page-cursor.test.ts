@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import type { Meeting } from "../google-meet-api";
+import {
+  collectAssignedEventKeys,
+  decodeMeetingCursor,
+  encodeMeetingCursor,
+  hashCursorKey,
+  MAX_CURSOR_KEYS,
+} from "../page-cursor";
+
+describe("meeting cursor", () => {
+  it("round-trips the page token, seen meetings and assigned events", () => {
+    const seen = [hashCursorKey("abc-defg-hij"), hashCursorKey("file-1")];
+    const assigned = [hashCursorKey("event-1")];
+    const cursor = encodeMeetingCursor({
+      pageToken: "drive-token",
+      seen,
+      assigned,
+    });
+
+    expect(decodeMeetingCursor(cursor)).toEqual({
+      pageToken: "drive-token",
+      seen,
+      assigned,
+    });
+  });
+
+  it("treats a plain page token as a cursor without seen keys", () => {
+    expect(decodeMeetingCursor("index:20")).toEqual({
+      pageToken: "index:20",
+      seen: [],
+      assigned: [],
+    });
+    expect(decodeMeetingCursor(undefined)).toEqual({ seen: [], assigned: [] });
+  });
+
+  it("keeps only the most recent keys", () => {
+    const seen = Array.from({ length: MAX_CURSOR_KEYS + 5 }, (_, i) =>
+      hashCursorKey(`meeting-${i}`)
+    );
+    const decoded = decodeMeetingCursor(
+      encodeMeetingCursor({ seen, assigned: [] })
+    );
+
+    expect(decoded.seen).toHaveLength(MAX_CURSOR_KEYS);
+    expect(decoded.seen[0]).toBe(seen[5]);
+  });
+
+  it("starts over on a corrupted cursor", () => {
+    expect(decodeMeetingCursor("mc1.not-json")).toEqual({
+      seen: [],
+      assigned: [],
+    });
+  });
+
+  it("collects the events assigned on a page", () => {
+    const meetings = [
+      { id: "m1", name: "A", createdTime: "" },
+      {
+        id: "m2",
+        name: "B",
+        createdTime: "",
+        calendarEvent: { eventId: "event-1" },
+      },
+    ] as Meeting[];
+
+    expect(collectAssignedEventKeys(meetings)).toEqual([
+      hashCursorKey("event-1"),
+    ]);
+  });
+
+  it("hashes keys to short stable strings", () => {
+    expect(hashCursorKey("abc-defg-hij")).toBe(hashCursorKey("abc-defg-hij"));
+    expect(hashCursorKey("abc-defg-hij")).not.toBe(hashCursorKey("file-1"));
+    expect(hashCursorKey("abc-defg-hij")).toHaveLength(10);
+  });
+});
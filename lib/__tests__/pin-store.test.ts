@@ -0,0 +1,155 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { createJsonStore } from "../json-store";
+
+let dataDir: string;
+let pinStore: typeof import("../pin-store");
+
+beforeAll(async () => {
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "pin-store-"));
+  // ストアのパスはモジュールの読み込み時に決まる
+  vi.stubEnv("PIN_STORE_PATH", path.join(dataDir, "pins.json"));
+  pinStore = await import("../pin-store");
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await fs.rm(dataDir, { recursive: true, force: true });
+});
+
+describe("createJsonStore", () => {
+  it("returns the empty value until something is written", async () => {
+    const store = createJsonStore(path.join(dataDir, "empty.json"), () => ({
+      count: 0,
+    }));
+
+    await expect(store.read()).resolves.toEqual({ count: 0 });
+  });
+
+  it("persists updates so a new store instance reloads them", async () => {
+    const filePath = path.join(dataDir, "nested", "counter.json");
+    const store = createJsonStore(filePath, () => ({ count: 0 }));
+
+    await expect(
+      store.update((data) => {
+        data.count += 1;
+        return data.count;
+      })
+    ).resolves.toBe(1);
+
+    const reloaded = createJsonStore(filePath, () => ({ count: -1 }));
+    await expect(reloaded.read()).resolves.toEqual({ count: 1 });
+    // 一時ファイルは残らない
+    expect(await fs.readdir(path.dirname(filePath))).toEqual(["counter.json"]);
+  });
+
+  it("serializes concurrent updates", async () => {
+    const store = createJsonStore(path.join(dataDir, "concurrent.json"), () => ({
+      count: 0,
+    }));
+
+    await Promise.all(
+      Array.from({ length: 10 }, () =>
+        store.update(async (data) => {
+          const current = data.count;
+          await new Promise((resolve) => setTimeout(resolve, 1));
+          data.count = current + 1;
+        })
+      )
+    );
+
+    await expect(store.read()).resolves.toEqual({ count: 10 });
+  });
+
+  it("keeps the queue going after a failed update", async () => {
+    const store = createJsonStore(path.join(dataDir, "failing.json"), () => ({
+      count: 0,
+    }));
+
+    await expect(
+      store.update(() => {
+        throw new Error("boom");
+      })
+    ).rejects.toThrow("boom");
+    await store.update((data) => {
+      data.count = 5;
+    });
+
+    await expect(store.read()).resolves.toEqual({ count: 5 });
+  });
+
+  it("replaces the whole content", async () => {
+    const store = createJsonStore(path.join(dataDir, "replace.json"), () => ({
+      items: [] as string[],
+    }));
+
+    await store.update((data) => {
+      data.items.push("a");
+    });
+    await store.replace({ items: ["b"] });
+
+    await expect(store.read()).resolves.toEqual({ items: ["b"] });
+  });
+});
+
+describe("pin store", () => {
+  it("stores pins per user and meeting", async () => {
+    await pinStore.setMeetingPin("user-a", "meeting-1", {
+      transcriptId: "t-1",
+    });
+    await pinStore.setMeetingPin("user-b", "meeting-1", {
+      calendarEventId: "ev-1",
+      calendarId: "primary",
+    });
+
+    expect(await pinStore.getMeetingPin("user-a", "meeting-1")).toMatchObject({
+      transcriptId: "t-1",
+    });
+    expect(await pinStore.getMeetingPin("user-a", "meeting-2")).toBeNull();
+    expect(await pinStore.getUserPins("user-b")).toEqual({
+      "meeting-1": expect.objectContaining({
+        calendarEventId: "ev-1",
+        calendarId: "primary",
+      }),
+    });
+    expect(await pinStore.getUserPins("user-c")).toEqual({});
+  });
+
+  it("merges updates and drops the calendar ID with the event", async () => {
+    await pinStore.setMeetingPin("user-d", "meeting-1", {
+      transcriptId: "t-1",
+      calendarEventId: "ev-1",
+      calendarId: "team@example.com",
+    });
+
+    const pin = await pinStore.setMeetingPin("user-d", "meeting-1", {
+      calendarEventId: null,
+    });
+
+    expect(pin).toEqual({ transcriptId: "t-1", updatedAt: expect.any(String) });
+  });
+
+  it("removes the pin when nothing is left", async () => {
+    await pinStore.setMeetingPin("user-e", "meeting-1", {
+      transcriptId: "t-1",
+    });
+
+    await expect(
+      pinStore.setMeetingPin("user-e", "meeting-1", { transcriptId: null })
+    ).resolves.toBeNull();
+    expect(await pinStore.getUserPins("user-e")).toEqual({});
+  });
+
+  it("writes pins to the configured file", async () => {
+    await pinStore.setMeetingPin("user-f", "meeting-1", {
+      transcriptId: "t-9",
+    });
+
+    const saved = JSON.parse(
+      await fs.readFile(path.join(dataDir, "pins.json"), "utf8")
+    );
+    expect(saved["user-f"]["meeting-1"].transcriptId).toBe("t-9");
+  });
+});
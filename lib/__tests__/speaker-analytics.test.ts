@@ -0,0 +1,158 @@
+import { describe, expect, it } from "vitest";
+import type { TranscriptEntry } from "../google-meet-api";
+import { analyzeSpeakers } from "../speaker-analytics";
+
+const timed = (
+  lines: Array<[string, number, number, string?]>
+): TranscriptEntry[] =>
+  lines.map(([speaker, startMs, endMs, text = "発言します"], index) => ({
+    index,
+    speaker,
+    text,
+    startMs,
+    endMs,
+  }));
+
+const statsOf = (
+  analytics: ReturnType<typeof analyzeSpeakers>,
+  speaker: string
+) => analytics.speakers.find((stats) => stats.speaker === speaker);
+
+describe("analyzeSpeakers with timing", () => {
+  it("counts talk time per utterance and turns per change of speaker", () => {
+    const analytics = analyzeSpeakers(
+      timed([
+        ["田中", 0, 10000],
+        // 田中さんが話し終える前に話し始める
+        ["佐藤", 8000, 12000],
+        ["田中", 12000, 15000],
+        ["田中", 15000, 20000],
+        ["佐藤", 19000, 21000],
+      ])
+    );
+
+    expect(analytics.basis).toBe("time");
+    // 重なった時間も話者それぞれの発話時間に含める
+    expect(analytics.totalTalkTimeMs).toBe(24000);
+    expect(analytics.totalTurns).toBe(4);
+    expect(statsOf(analytics, "田中")).toMatchObject({
+      talkTimeMs: 18000,
+      share: 0.75,
+      turns: 2,
+      entries: 3,
+      longestMonologue: { entryIndex: 0, durationMs: 10000 },
+      interrupted: 2,
+    });
+    expect(statsOf(analytics, "佐藤")).toMatchObject({
+      talkTimeMs: 6000,
+      turns: 2,
+      entries: 2,
+      interruptions: 2,
+    });
+    expect(analytics.speakers.map((stats) => stats.speaker)).toEqual([
+      "田中",
+      "佐藤",
+    ]);
+  });
+
+  it("measures overlaps and ignores short ones", () => {
+    const analytics = analyzeSpeakers(
+      timed([
+        ["田中", 0, 10000],
+        ["佐藤", 8000, 12000],
+        // 0.3秒だけの重なりは相づちや時刻の誤差とみなす
+        ["鈴木", 11700, 15000],
+        // 話し終えた人ではなく、まだ話している直前の話者に割り込んだとみなす
+        ["田中", 14000, 16000],
+      ])
+    );
+
+    expect(analytics.overlaps).toBe(2);
+    expect(analytics.overlapMs).toBe(3000);
+    expect(statsOf(analytics, "佐藤")).toMatchObject({
+      interruptions: 1,
+      interrupted: 0,
+    });
+    expect(statsOf(analytics, "鈴木")).toMatchObject({
+      interruptions: 0,
+      interrupted: 1,
+    });
+    expect(statsOf(analytics, "田中")).toMatchObject({
+      interruptions: 1,
+      interrupted: 1,
+    });
+  });
+
+  it("counts an utterance that lies inside another one in full", () => {
+    const analytics = analyzeSpeakers(
+      timed([
+        ["田中", 0, 10000],
+        ["佐藤", 2000, 4000],
+        ["田中", 10000, 12000],
+      ])
+    );
+
+    expect(analytics.overlapMs).toBe(2000);
+    expect(analytics.totalTurns).toBe(3);
+    expect(statsOf(analytics, "田中")?.talkTimeMs).toBe(12000);
+    expect(statsOf(analytics, "佐藤")?.talkTimeMs).toBe(2000);
+  });
+});
+
+describe("analyzeSpeakers without timing", () => {
+  it("falls back to character counts", () => {
+    const analytics = analyzeSpeakers([
+      { index: 0, speaker: "Alice", text: "Hello everyone" },
+      { index: 1, speaker: "Bob", text: "Hi" },
+      { index: 2, speaker: "Bob", text: "  " },
+      { index: 3, speaker: "Alice", text: "Let's start", startMs: 0, endMs: 1 },
+    ]);
+
+    expect(analytics).toMatchObject({
+      basis: "characters",
+      totalCharacters: 25,
+      totalTurns: 3,
+      overlaps: 0,
+    });
+    expect(analytics.totalTalkTimeMs).toBeUndefined();
+    expect(statsOf(analytics, "Alice")).toMatchObject({
+      characters: 23,
+      share: 0.92,
+      turns: 2,
+    });
+    expect(statsOf(analytics, "Alice")?.talkTimeMs).toBeUndefined();
+  });
+});
+
+describe("analyzeSpeakers silent attendees", () => {
+  it("lists invitees who never spoke, matching names loosely", () => {
+    const analytics = analyzeSpeakers(
+      timed([
+        ["田中太郎", 0, 1000],
+        ["Hanako Sato (Example Inc.)", 1000, 2000],
+      ]),
+      {
+        eventId: "ev-1",
+        calendarId: "primary",
+        attendees: [
+          { email: "tanaka@example.com", displayName: "田中 太郎" },
+          { email: "hanako.sato@example.com", displayName: "Hanako Sato" },
+          {
+            email: "suzuki@example.com",
+            displayName: "鈴木",
+            responseStatus: "accepted",
+          },
+          { email: "room-1@resource.calendar.google.com" },
+        ],
+      }
+    );
+
+    expect(analytics.silentAttendees).toEqual([
+      {
+        email: "suzuki@example.com",
+        displayName: "鈴木",
+        responseStatus: "accepted",
+      },
+    ]);
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, expect, it } from "vitest";
+import type { Transcript, TranscriptEntry } from "../google-meet-api";
+import { buildCues, exportTranscript } from "../transcript-export";
+
+const TRANSCRIPT: Transcript = {
+  id: "transcript-1",
+  name: "週次定例 - 文字起こし",
+  content: "",
+  createdTime: "2024-05-01T01:00:00Z",
+};
+
+const ENTRIES: TranscriptEntry[] = [
+  { index: 0, speaker: "田中", text: "始めます", startMs: 0, endMs: 2000 },
+  { index: 1, speaker: "佐藤", text: "議題は2つです", startMs: 3000 },
+  { index: 2, speaker: "田中", text: "了解です", startMs: 8000 },
+  { index: 3, text: "（拍手）" },
+];
+
+function exportBody(
+  format: "srt" | "vtt" | "md" | "html",
+  entries: TranscriptEntry[]
+) {
+  return exportTranscript(format, {
+    meeting: null,
+    transcript: TRANSCRIPT,
+    entries,
+  }).body;
+}
+
+describe("buildCues", () => {
+  it("ends a cue at the next start when endMs is missing", () => {
+    const cues = buildCues(ENTRIES);
+
+    expect(cues.map((cue) => [cue.startMs, cue.endMs])).toEqual([
+      [0, 2000],
+      [3000, 8000],
+      // 次の発話がない場合は文字数から長さを見積もる（最低 1.5 秒）
+      [8000, 9500],
+      [9500, 11000],
+    ]);
+  });
+
+  it("never produces an empty or reversed cue", () => {
+    const [cue] = buildCues([
+      { index: 0, text: "あ", startMs: 5000, endMs: 5000 },
+    ]);
+
+    expect(cue.endMs).toBe(6500);
+  });
+});
+
+describe("exportTranscript (subtitles)", () => {
+  it("numbers SRT cues from 1 with comma millisecond separators", () => {
+    const body = exportBody("srt", ENTRIES);
+
+    expect(body.split("\n\n").slice(0, 2)).toEqual([
+      "1\n00:00:00,000 --> 00:00:02,000\n田中: 始めます",
+      "2\n00:00:03,000 --> 00:00:08,000\n佐藤: 議題は2つです",
+    ]);
+    expect(body.split("\n\n")[3]).toBe(
+      "4\n00:00:09,500 --> 00:00:11,000\n（拍手）\n"
+    );
+  });
+
+  it("writes VTT voice tags with escaped text", () => {
+    const body = exportBody("vtt", [
+      { index: 0, speaker: "A&B", text: "x < y", startMs: 0, endMs: 1000 },
+    ]);
+
+    expect(body).toBe(
+      "WEBVTT\n\n00:00:00.000 --> 00:00:01.000\n<v A&amp;B>x &lt; y\n"
+    );
+  });
+
+  it("keeps arrows and blank lines in the text from breaking cues", () => {
+    const entries: TranscriptEntry[] = [
+      {
+        index: 0,
+        speaker: "田中",
+        text: "A --> B\n\n次の行",
+        startMs: 0,
+        endMs: 1000,
+      },
+      { index: 1, text: "最後", startMs: 1000, endMs: 2000 },
+    ];
+
+    const srtCues = exportBody("srt", entries).trim().split("\n\n");
+    expect(srtCues).toEqual([
+      "1\n00:00:00,000 --> 00:00:01,000\n田中: A → B\n次の行",
+      "2\n00:00:01,000 --> 00:00:02,000\n最後",
+    ]);
+
+    const vttCues = exportBody("vtt", entries).trim().split("\n\n");
+    expect(vttCues).toHaveLength(3);
+    expect(vttCues[1]).toBe(
+      "00:00:00.000 --> 00:00:01.000\n<v 田中>A → B\n次の行"
+    );
+  });
+});
+
+describe("exportTranscript (documents)", () => {
+  const MARKUP: TranscriptEntry[] = [
+    {
+      index: 0,
+      speaker: "<b>田中</b>",
+      text: `<script>alert("x")</script> & 'quotes'`,
+      startMs: 0,
+    },
+  ];
+
+  it("escapes HTML in speakers, text and the title", () => {
+    const body = exportTranscript("html", {
+      meeting: null,
+      transcript: { ...TRANSCRIPT, name: "<i>定例</i>" },
+      entries: MARKUP,
+    }).body;
+
+    expect(body).toContain("<title>&lt;i&gt;定例&lt;/i&gt;</title>");
+    expect(body).toContain(
+      '<span class="speaker">&lt;b&gt;田中&lt;/b&gt;</span>'
+    );
+    expect(body).toContain(
+      "<p>&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt; &amp; &#39;quotes&#39;</p>"
+    );
+    expect(body).not.toContain("<script>");
+  });
+
+  it("escapes Markdown so text cannot add headings, lists or emphasis", () => {
+    const body = exportBody("md", [
+      { index: 0, speaker: "*田中*", text: "# 見出し", startMs: 0 },
+      { index: 1, speaker: "*田中*", text: "- 項目\n1. 手順", startMs: 1000 },
+      { index: 2, speaker: "*田中*", text: "[リンク](x) と _強調_" },
+    ]);
+
+    expect(body).toContain("### \\*田中\\* (00:00:00)");
+    expect(body).toContain("\\# 見出し");
+    expect(body).toContain("\\- 項目\n1\\. 手順");
+    expect(body).toContain("\\[リンク\\](x) と \\_強調\\_");
+  });
+
+  it("groups consecutive entries by the same speaker under one heading", () => {
+    const body = exportBody("md", ENTRIES.slice(0, 2));
+
+    expect(body.match(/^### /gm)).toHaveLength(2);
+    expect(body).toContain("### 佐藤 (00:00:03)");
+  });
+});
@@ -0,0 +1,127 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import { describe, expect, it } from "vitest";
+import {
+  formatMsAsTimestamp,
+  parseTimestampToMs,
+  parseTranscript,
+} from "../transcript-parser";
+
+const readFixture = (name: string) =>
+  readFileSync(join(__dirname, "fixtures", name), "utf8");
+
+describe("parseTranscript", () => {
+  it("parses the Japanese Meet export layout", () => {
+    const parsed = parseTranscript(readFixture("transcript-ja.txt"));
+
+    expect(parsed.title).toBe("定例ミーティング");
+    expect(parsed.attendees).toEqual(["田中 太郎", "佐藤 花子"]);
+    expect(parsed.durationMs).toBe(60000);
+    expect(parsed.entries).toEqual([
+      {
+        index: 0,
+        speaker: "田中 太郎",
+        text: "それでは始めます。",
+        timestamp: "00:00:00",
+        startMs: 0,
+        endMs: 13500,
+      },
+      {
+        index: 1,
+        speaker: "佐藤 花子",
+        text: "よろしくお願いします。",
+        timestamp: "00:00:13",
+        startMs: 13500,
+        endMs: 30000,
+      },
+      {
+        index: 2,
+        speaker: "佐藤 花子",
+        text: "資料を共有します。\n続けて説明します。",
+        timestamp: "00:00:30",
+        startMs: 30000,
+        endMs: 60000,
+      },
+    ]);
+  });
+
+  it("parses the English Meet export layout", () => {
+    const parsed = parseTranscript(readFixture("transcript-en.txt"));
+
+    expect(parsed.title).toBe("Weekly sync");
+    expect(parsed.attendees).toEqual(["Alice Smith", "Bob Jones"]);
+    expect(parsed.durationMs).toBe(20000);
+    expect(
+      parsed.entries.map(({ speaker, text, startMs, endMs }) => ({
+        speaker,
+        text,
+        startMs,
+        endMs,
+      }))
+    ).toEqual([
+      {
+        speaker: "Alice Smith",
+        text: "Let's get started.",
+        startMs: 0,
+        endMs: 10000,
+      },
+      {
+        speaker: "Bob Jones",
+        text: "Sounds good.",
+        startMs: 10000,
+        endMs: 20000,
+      },
+    ]);
+  });
+
+  it("keeps the first line of a transcript without a header", () => {
+    const parsed = parseTranscript("Alice: hello\nBob: hi");
+
+    expect(parsed.title).toBeUndefined();
+    expect(parsed.entries.map((entry) => [entry.speaker, entry.text])).toEqual([
+      ["Alice", "hello"],
+      ["Bob", "hi"],
+    ]);
+  });
+
+  it("does not take plain text as a title without a header marker", () => {
+    const parsed = parseTranscript("hello there\nmore text");
+
+    expect(parsed.title).toBeUndefined();
+    expect(parsed.entries[0].text).toBe("hello there\nmore text");
+  });
+
+  it("updates timestamps of entries split within a block", () => {
+    const parsed = parseTranscript(
+      "00:01:00\nA: aaaaaaaaaa\nB: bbbbbbbbbb\n00:01:20\nA: done"
+    );
+
+    expect(
+      parsed.entries.map((entry) => [entry.timestamp, entry.startMs])
+    ).toEqual([
+      ["00:01:00", 60000],
+      ["00:01:10", 70000],
+      ["00:01:20", 80000],
+    ]);
+  });
+
+  it("parses inline timestamps", () => {
+    const parsed = parseTranscript("[00:05] first\n[00:12] second");
+
+    expect(
+      parsed.entries.map((entry) => [entry.text, entry.startMs, entry.endMs])
+    ).toEqual([
+      ["first", 5000, 12000],
+      ["second", 12000, 14000],
+    ]);
+  });
+});
+
+describe("timestamp helpers", () => {
+  it("converts between timestamps and milliseconds", () => {
+    expect(parseTimestampToMs("01:02:03")).toBe(3723000);
+    expect(parseTimestampToMs("[05:12]")).toBe(312000);
+    expect(parseTimestampToMs("abc")).toBeUndefined();
+    expect(formatMsAsTimestamp(3723999)).toBe("01:02:03");
+  });
+});
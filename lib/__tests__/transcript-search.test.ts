@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import type { Meeting, TranscriptEntry } from "../google-meet-api";
+import { tokenize, TranscriptSearchIndex } from "../transcript-search";
+
+const meeting = (id: string): Meeting => ({
+  id,
+  name: `会議 ${id}`,
+  createdTime: "2024-05-01T01:00:00Z",
+});
+
+const entries = (...texts: string[]): TranscriptEntry[] =>
+  texts.map((text, index) => ({ index, text, speaker: "田中" }));
+
+describe("tokenize", () => {
+  it("splits Japanese into bigrams and English into words", () => {
+    expect(tokenize("議事録 Action Item")).toEqual([
+      "議事",
+      "事録",
+      "action",
+      "item",
+    ]);
+  });
+
+  it("adds unigrams only when requested", () => {
+    expect(tokenize("案を")).toEqual(["案を"]);
+    expect(tokenize("案を", { unigrams: true })).toEqual(["案", "を", "案を"]);
+  });
+});
+
+describe("TranscriptSearchIndex", () => {
+  const index = new TranscriptSearchIndex();
+  index.addDocument(
+    meeting("m1"),
+    { id: "t1", name: "文字起こし" },
+    entries("新しい案を出します", "リリース日を決めましょう")
+  );
+  index.addDocument(
+    meeting("m2"),
+    { id: "t2", name: "文字起こし" },
+    entries("The release date is Friday")
+  );
+
+  it("matches a single-character Japanese query", () => {
+    const results = index.search("案");
+
+    expect(results.map((result) => result.meeting.id)).toEqual(["m1"]);
+    expect(results[0].hits[0]).toMatchObject({
+      entryIndex: 0,
+      snippet: "新しい案を出します",
+      highlights: [[3, 4]],
+    });
+  });
+
+  it("ranks meetings by multi-token matches", () => {
+    expect(index.search("リリース日")[0].meeting.id).toBe("m1");
+    expect(index.search("release date")[0].meeting.id).toBe("m2");
+  });
+});
@@ -0,0 +1,140 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import { describe, expect, it } from "vitest";
+import type { TranscriptEntry } from "../google-meet-api";
+import { parseTranscript } from "../transcript-parser";
+import { summarizeTranscript } from "../transcript-summary";
+
+const toEntries = (lines: Array<[string, string]>): TranscriptEntry[] =>
+  lines.map(([speaker, text], index) => ({ index, speaker, text }));
+
+const actionTexts = (lines: Array<[string, string]>) =>
+  summarizeTranscript(toEntries(lines)).actionItems.map((item) => item.text);
+
+describe("summarizeTranscript action items", () => {
+  it("ignores ordinary English conversation", () => {
+    expect(
+      actionTexts([
+        ["Alice", "Could you hear me?"],
+        ["Bob", "Please go ahead."],
+        ["Alice", "I'll share my screen now."],
+        ["Bob", "Ill be honest, that looks fine."],
+        ["Alice", "Can you see the slides?"],
+      ])
+    ).toEqual([]);
+  });
+
+  it("ignores ordinary Japanese conversation", () => {
+    expect(
+      actionTexts([
+        ["田中", "本日はよろしくお願いします。"],
+        ["佐藤", "画面を共有します。"],
+        ["田中", "ちょっと確認してみます。"],
+      ])
+    ).toEqual([]);
+  });
+
+  it("detects requests with a task, deadline or assignee", () => {
+    const { actionItems } = summarizeTranscript(
+      toEntries([
+        ["Alice", "Could you send the slides by Friday?"],
+        ["Bob", "I'll update the roadmap before the review."],
+        ["田中", "佐藤さん、見積もりの確認をお願いします。"],
+        ["佐藤", "資料は明日までに共有しておきます。"],
+        ["田中", "TODO: 次回の議題を決める"],
+      ])
+    );
+
+    expect(
+      actionItems.map(({ text, assignee }) => ({ text, assignee }))
+    ).toEqual([
+      { text: "Could you send the slides by Friday?", assignee: undefined },
+      { text: "I'll update the roadmap before the review.", assignee: "Bob" },
+      { text: "佐藤さん、見積もりの確認をお願いします。", assignee: "佐藤" },
+      { text: "資料は明日までに共有しておきます。", assignee: "佐藤" },
+      { text: "TODO: 次回の議題を決める", assignee: undefined },
+    ]);
+  });
+});
+
+describe("summarizeTranscript decisions", () => {
+  it("detects decision phrases", () => {
+    const { decisions } = summarizeTranscript(
+      toEntries([
+        ["田中", "リリースは来月にすることに決まりました。"],
+        ["Alice", "We agreed to drop the legacy API."],
+        ["Bob", "Sounds good."],
+      ])
+    );
+
+    expect(decisions.map((item) => item.entryIndex)).toEqual([0, 1]);
+  });
+});
+
+describe("summarizeTranscript sentences", () => {
+  // 新料金プランの話題が中心で、雑談・相づち・同じ文の繰り返しを含む会議
+  const { entries } = parseTranscript(
+    readFileSync(
+      join(__dirname, "fixtures", "transcript-summary-ja.txt"),
+      "utf8"
+    )
+  );
+
+  it("ranks sentences on the main topic above small talk", () => {
+    const { sentences } = summarizeTranscript(entries, { maxSentences: 3 });
+
+    expect(sentences.map((sentence) => sentence.text)).toEqual([
+      "新料金プランの価格は月額千円で、既存ユーザーにも同じ価格を適用します。",
+      "新料金プランの価格を既存ユーザーに適用するとき、移行の案内が必要です。",
+      "新料金プランのリリースは来月の第一週に決定しました。",
+    ]);
+  });
+
+  it("returns the picked sentences in meeting order", () => {
+    const { sentences } = summarizeTranscript(entries);
+    const indexes = sentences.map((sentence) => sentence.entryIndex);
+
+    expect(sentences).toHaveLength(5);
+    expect(indexes).toEqual([...indexes].sort((a, b) => a - b));
+    // 順序はスコアではなく発言順
+    expect(sentences[0]).toMatchObject({
+      entryIndex: 2,
+      speaker: "田中 太郎",
+      timestamp: "00:00:20",
+    });
+  });
+
+  it("skips short replies and repeated sentences", () => {
+    const summary = summarizeTranscript(entries, { maxSentences: 10 });
+    const texts = summary.sentences.map((sentence) => sentence.text);
+
+    // 「それでは始めます。」「はい。」「了解です。」は数えない
+    expect(summary.sentenceCount).toBe(11);
+    expect(texts).not.toContain("了解です。");
+    // 田中さんと佐藤さんの同じ発言は片方だけ
+    expect(
+      texts.filter((text) => text.startsWith("新料金プランのリリースは"))
+    ).toHaveLength(1);
+    expect(summary.sentences.map((sentence) => sentence.entryIndex)).toContain(
+      8
+    );
+    expect(summary.sentences).toHaveLength(10);
+  });
+
+  it("caps the number of sentences", () => {
+    const lines = Array.from(
+      { length: 400 },
+      (_, i): [string, string] => ["Alice", `Topic${i} covers item${i} today.`]
+    );
+
+    expect(summarizeTranscript(toEntries(lines)).sentences).toHaveLength(10);
+    expect(
+      summarizeTranscript(toEntries(lines.slice(0, 40)), { maxSentences: 50 })
+        .sentences
+    ).toHaveLength(10);
+    // 短い会議では既定の5文
+    expect(
+      summarizeTranscript(toEntries(lines.slice(0, 40))).sentences
+    ).toHaveLength(5);
+  });
+});
@@ -0,0 +1,96 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import type { Session } from "next-auth";
+import { authOptions } from "./auth";
+import {
+  GoogleAuthError,
+  GoogleNotFoundError,
+  GooglePermissionError,
+  GoogleQuotaError,
+  GoogleTimeoutError,
+  GoogleUnavailableError,
+  isGoogleAuthError,
+  toGoogleApiError,
+} from "./google-api-errors";
+
+export type AuthorizedSession = Session & { accessToken: string };
+
+// 画面側で再ログインを促すためのエラーコード
+export const REAUTH_REQUIRED = "reauth_required";
+
+export function unauthorizedResponse(): NextResponse {
+  return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+}
+
+export function reauthRequiredResponse(): NextResponse {
+  return NextResponse.json(
+    { error: "Authentication expired", code: REAUTH_REQUIRED },
+    { status: 401 }
+  );
+}
+
+// API ルート用: ログイン済みかつトークンが有効なセッションを取得する
+export async function getAuthorizedSession(): Promise<
+  { session: AuthorizedSession } | { response: NextResponse }
+> {
+  const session = await getServerSession(authOptions);
+
+  if (!session || !session.accessToken) {
+    return { response: unauthorizedResponse() };
+  }
+  if (session.error) {
+    return { response: reauthRequiredResponse() };
+  }
+
+  return { session: session as AuthorizedSession };
+}
+
+// Google API のエラーを種別に応じた HTTP ステータスに変換する（401 は再ログインを促す）
+export function googleErrorResponse(
+  error: unknown,
+  fallbackMessage: string
+): NextResponse {
+  const apiError = toGoogleApiError(error);
+
+  if (apiError instanceof GoogleAuthError || isGoogleAuthError(error)) {
+    return reauthRequiredResponse();
+  }
+  if (apiError instanceof GoogleQuotaError) {
+    const retryAfterSeconds = Math.ceil(
+      (apiError.retryAfterMs ?? 60 * 1000) / 1000
+    );
+    return NextResponse.json(
+      {
+        error: "Google API rate limit exceeded",
+        code: "quota_exceeded",
+        retryAfterSeconds,
+      },
+      { status: 429, headers: { "Retry-After": String(retryAfterSeconds) } }
+    );
+  }
+  if (apiError instanceof GooglePermissionError) {
+    return NextResponse.json(
+      { error: "Permission denied by Google API", code: "permission_denied" },
+      { status: 403 }
+    );
+  }
+  if (apiError instanceof GoogleNotFoundError) {
+    return NextResponse.json(
+      { error: "Not found in Google API", code: "not_found" },
+      { status: 404 }
+    );
+  }
+  if (apiError instanceof GoogleTimeoutError) {
+    return NextResponse.json(
+      { error: "Google API request timed out", code: "timeout" },
+      { status: 504 }
+    );
+  }
+  if (apiError instanceof GoogleUnavailableError) {
+    return NextResponse.json(
+      { error: "Google API is temporarily unavailable", code: "unavailable" },
+      { status: 503 }
+    );
+  }
+  return NextResponse.json({ error: fallbackMessage }, { status: 500 });
+}
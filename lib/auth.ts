@@ -1,5 +1,52 @@
-import { NextAuthOptions } from "next-auth";
+import { NextAuthOptions, Session } from "next-auth";
+import { JWT } from "next-auth/jwt";
 import GoogleProvider from "next-auth/providers/google";
+import { getLogger } from "./logger";
+
+const log = getLogger("auth");
+
+// 期限切れ直前のリクエストが失敗しないよう、少し早めに更新する
+const TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
+
+export const REFRESH_TOKEN_ERROR = "RefreshAccessTokenError";
+
+// リフレッシュトークンでアクセストークンを更新する
+async function refreshAccessToken(token: JWT): Promise<JWT> {
+  try {
+    if (!token.refreshToken) {
+      throw new Error("No refresh token");
+    }
+
+    const response = await fetch("https://oauth2.googleapis.com/token", {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({
+        client_id: process.env.GOOGLE_CLIENT_ID!,
+        client_secret: process.env.GOOGLE_CLIENT_SECRET!,
+        grant_type: "refresh_token",
+        refresh_token: token.refreshToken,
+      }),
+    });
+
+    const refreshed = await response.json();
+    if (!response.ok) {
+      throw new Error(refreshed.error_description || refreshed.error);
+    }
+
+    log.info("Access token refreshed");
+    return {
+      ...token,
+      accessToken: refreshed.access_token,
+      expiresAt: Date.now() + refreshed.expires_in * 1000,
+      // Google がリフレッシュトークンをローテーションした場合のみ置き換える
+      refreshToken: refreshed.refresh_token ?? token.refreshToken,
+      error: undefined,
+    };
+  } catch (error) {
+    log.error("Failed to refresh access token", { error });
+    return { ...token, error: REFRESH_TOKEN_ERROR };
+  }
+}
 
 export const authOptions: NextAuthOptions = {
   providers: [
@@ -9,7 +56,10 @@ export const authOptions: NextAuthOptions = {
       authorization: {
         params: {
           scope:
-            "openid email profile https://www.googleapis.com/auth/drive.readonly https://www.googleapis.com/auth/calendar.readonly",
+            "openid email profile https://www.googleapis.com/auth/drive.readonly https://www.googleapis.com/auth/calendar.readonly https://www.googleapis.com/auth/meetings.space.readonly",
+          // リフレッシュトークンを毎回受け取るため
+          access_type: "offline",
+          prompt: "consent",
         },
       },
     }),
@@ -17,13 +67,30 @@ export const authOptions: NextAuthOptions = {
   callbacks: {
     async jwt({ token, account }) {
       if (account) {
-        token.accessToken = account.access_token;
-        token.refreshToken = account.refresh_token;
+        return {
+          ...token,
+          accessToken: account.access_token,
+          refreshToken: account.refresh_token,
+          // expires_at は秒単位
+          expiresAt: account.expires_at
+            ? account.expires_at * 1000
+            : undefined,
+          error: undefined,
+        };
+      }
+
+      if (
+        !token.expiresAt ||
+        Date.now() < token.expiresAt - TOKEN_REFRESH_MARGIN_MS
+      ) {
+        return token;
       }
-      return token;
+
+      return refreshAccessToken(token);
     },
     async session({ session, token }) {
-      session.accessToken = token.accessToken as string;
+      session.accessToken = token.accessToken;
+      session.error = token.error;
       return session;
     },
   },
@@ -32,3 +99,8 @@ export const authOptions: NextAuthOptions = {
   },
   debug: process.env.NODE_ENV === "development",
 };
+
+// ユーザーごとの保存データ（ピン等）のキー
+export function getSessionUserKey(session: Session): string | undefined {
+  return session.user?.email || undefined;
+}
@@ -0,0 +1,164 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { getDataDirectory } from "./json-store";
+import { getLogger } from "./logger";
+
+const log = getLogger("cache");
+
+export interface CacheEntry<T = unknown> {
+  value: T;
+  // 取得した時刻（エポックミリ秒）
+  fetchedAt: number;
+  expiresAt: number;
+  // 元データのバージョン（Drive の modifiedTime 等）。一致しない場合は無効
+  version?: string;
+}
+
+// キャッシュの保存先（メモリ・ファイル等）を差し替えられるようにする
+export interface CacheStore {
+  get<T>(key: string): Promise<CacheEntry<T> | undefined>;
+  set<T>(key: string, entry: CacheEntry<T>): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+const DEFAULT_MAX_ENTRIES = 500;
+
+// 最近使ったものから残すメモリキャッシュ（既定）
+export class MemoryLRUCache implements CacheStore {
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(private maxEntries = DEFAULT_MAX_ENTRIES) {}
+
+  async get<T>(key: string): Promise<CacheEntry<T> | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    // Map は挿入順を保つため、入れ直して最近使ったものを末尾にする
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry as CacheEntry<T>;
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+// サーバーの再起動後も残るファイルキャッシュ（1キー1ファイル）
+export class FileCache implements CacheStore {
+  constructor(private directory: string) {}
+
+  async get<T>(key: string): Promise<CacheEntry<T> | undefined> {
+    try {
+      const raw = await fs.readFile(this.toPath(key), "utf8");
+      const stored = JSON.parse(raw) as { key: string; entry: CacheEntry<T> };
+      // ハッシュの衝突に備えてキーも確認する
+      return stored.key === key ? stored.entry : undefined;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        log.error("Failed to read cache file", { error });
+      }
+      return undefined;
+    }
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const filePath = this.toPath(key);
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify({ key, entry }), "utf8");
+    await fs.rename(tempPath, filePath);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.toPath(key), { force: true });
+  }
+
+  private toPath(key: string): string {
+    const hash = createHash("sha256").update(key).digest("hex");
+    return path.join(this.directory, `${hash}.json`);
+  }
+}
+
+let defaultCache: CacheStore | undefined;
+
+// CACHE_BACKEND=file でファイルキャッシュを使う
+export function getCache(): CacheStore {
+  if (!defaultCache) {
+    defaultCache =
+      process.env.CACHE_BACKEND === "file"
+        ? new FileCache(
+            process.env.CACHE_DIR || path.join(getDataDirectory(), "cache")
+          )
+        : new MemoryLRUCache(
+            Number(process.env.CACHE_MAX_ENTRIES) || DEFAULT_MAX_ENTRIES
+          );
+  }
+  return defaultCache;
+}
+
+// ユーザーごとに分けたキャッシュキー（同じ引数でも他のユーザーの結果は返さない）
+export function userCacheKey(
+  userKey: string,
+  kind: string,
+  keyParts: unknown[]
+): string {
+  return `${userKey}:${kind}:${JSON.stringify(keyParts)}`;
+}
+
+export interface CachedOptions {
+  ttlMs: number;
+  version?: string;
+  // キャッシュを読まずに取得し直す（結果は保存する）
+  forceRefresh?: boolean;
+  store?: CacheStore;
+}
+
+export interface CachedResult<T> {
+  value: T;
+  fetchedAt: number;
+}
+
+export async function cached<T>(
+  key: string,
+  loader: () => Promise<T>,
+  options: CachedOptions
+): Promise<CachedResult<T>> {
+  const store = options.store || getCache();
+
+  if (!options.forceRefresh) {
+    const entry = await store.get<T>(key).catch(() => undefined);
+    if (
+      entry &&
+      entry.expiresAt > Date.now() &&
+      entry.version === options.version
+    ) {
+      return { value: entry.value, fetchedAt: entry.fetchedAt };
+    }
+  }
+
+  const value = await loader();
+  const fetchedAt = Date.now();
+  await store
+    .set(key, {
+      value,
+      fetchedAt,
+      expiresAt: fetchedAt + options.ttlMs,
+      version: options.version,
+    })
+    .catch((error) => log.error("Failed to write cache", { error }));
+
+  return { value, fetchedAt };
+}
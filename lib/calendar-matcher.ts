@@ -0,0 +1,392 @@
+import type { calendar_v3 } from "googleapis";
+import type { MatchReason, MatchResult, Meeting } from "./google-meet-api";
+import { createMatchResult } from "./match-result";
+import { extractMeetingBaseName } from "./meeting-bundle";
+
+// 会議とカレンダー予定の組み合わせ1件分の採点結果
+export interface CalendarMatchCandidate<E> {
+  meetingId: string;
+  eventId: string;
+  event: E;
+  match: MatchResult;
+}
+
+export interface CalendarAssignmentOptions {
+  // 紐付けとして採用する最低スコア
+  minScore?: number;
+  // 候補として残す最低スコア
+  minAlternateScore?: number;
+  maxAlternates?: number;
+  // 手動で固定済みなど、他の会議に割り当てない予定
+  reservedEventIds?: Iterable<string>;
+}
+
+export interface CalendarAssignment<E> {
+  selected?: CalendarMatchCandidate<E>;
+  // 選ばれなかった候補（スコアの高い順）
+  alternates: CalendarMatchCandidate<E>[];
+}
+
+export const MIN_CALENDAR_MATCH_SCORE = 50;
+export const MIN_CALENDAR_ALTERNATE_SCORE = 30;
+export const MAX_CALENDAR_ALTERNATES = 3;
+
+// スコアの高い順。同点は ID 順にして入力順に依存しない結果にする
+export function compareCandidates<E>(
+  a: CalendarMatchCandidate<E>,
+  b: CalendarMatchCandidate<E>
+): number {
+  return (
+    b.match.score - a.match.score ||
+    a.meetingId.localeCompare(b.meetingId) ||
+    a.eventId.localeCompare(b.eventId)
+  );
+}
+
+// 全候補をスコア順に見て、会議と予定を1対1で割り当てる
+// （同じ予定を複数の会議が取り合う場合は、スコアの高い会議を優先する）
+export function assignCalendarEvents<E>(
+  meetingIds: string[],
+  candidates: CalendarMatchCandidate<E>[],
+  options: CalendarAssignmentOptions = {}
+): Map<string, CalendarAssignment<E>> {
+  const minScore = options.minScore ?? MIN_CALENDAR_MATCH_SCORE;
+  const minAlternateScore =
+    options.minAlternateScore ?? MIN_CALENDAR_ALTERNATE_SCORE;
+  const maxAlternates = options.maxAlternates ?? MAX_CALENDAR_ALTERNATES;
+  const reservedEventIds = new Set(options.reservedEventIds);
+  const usedEventIds = new Set(reservedEventIds);
+
+  const ranked = [...candidates].sort(compareCandidates);
+  const selected = new Map<string, CalendarMatchCandidate<E>>();
+
+  for (const candidate of ranked) {
+    if (candidate.match.score < minScore) break;
+    if (selected.has(candidate.meetingId)) continue;
+    if (usedEventIds.has(candidate.eventId)) continue;
+
+    selected.set(candidate.meetingId, candidate);
+    usedEventIds.add(candidate.eventId);
+  }
+
+  const assignments = new Map<string, CalendarAssignment<E>>();
+  for (const meetingId of meetingIds) {
+    const choice = selected.get(meetingId);
+    const alternates = ranked
+      .filter(
+        (candidate) =>
+          candidate.meetingId === meetingId &&
+          candidate !== choice &&
+          !reservedEventIds.has(candidate.eventId) &&
+          candidate.match.score >= minAlternateScore
+      )
+      .slice(0, maxAlternates);
+
+    assignments.set(meetingId, { selected: choice, alternates });
+  }
+
+  return assignments;
+}
+
+export interface TimeWindow {
+  start: number;
+  end: number;
+}
+
+// 会議の前後何時間の予定を照合対象にするか
+export const DEFAULT_CALENDAR_WINDOW_HOURS = 12;
+
+export function getCalendarWindowMs(): number {
+  const hours = Number(process.env.CALENDAR_MATCH_WINDOW_HOURS);
+  return (
+    (Number.isFinite(hours) && hours > 0
+      ? hours
+      : DEFAULT_CALENDAR_WINDOW_HOURS) *
+    60 *
+    60 *
+    1000
+  );
+}
+
+export function getMeetingWindow(
+  time: string | undefined,
+  windowMs: number
+): TimeWindow | null {
+  const center = time ? new Date(time).getTime() : NaN;
+  if (Number.isNaN(center)) return null;
+  return { start: center - windowMs, end: center + windowMs };
+}
+
+// 重なる（または接する）時間帯をまとめ、カレンダー API の呼び出し回数を減らす
+export function mergeTimeWindows(windows: TimeWindow[]): TimeWindow[] {
+  const sorted = [...windows].sort((a, b) => a.start - b.start);
+  const merged: TimeWindow[] = [];
+
+  for (const window of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && window.start <= last.end) {
+      last.end = Math.max(last.end, window.end);
+    } else {
+      merged.push({ ...window });
+    }
+  }
+
+  return merged;
+}
+
+export function isWithinWindow(
+  time: string | null | undefined,
+  window: TimeWindow
+): boolean {
+  const value = time ? new Date(time).getTime() : NaN;
+  return !Number.isNaN(value) && value >= window.start && value <= window.end;
+}
+
+export type MeetingIdentifiers = NonNullable<Meeting["_meetingIdentifiers"]>;
+
+// 会議 ID・会議コードが一致すれば high、名前と時刻が揃えば medium
+export const CALENDAR_MATCH_THRESHOLDS = { high: 150, medium: 80 };
+
+// 予定と比べる会議の開始時刻。Drive のファイルは会議の終了後に作成されるため、
+// 会議記録の開始時刻やファイル名の開始日時があればそれを使う
+export function getMeetingStartTime(meeting: Meeting): string {
+  return meeting.startTime || meeting.createdTime;
+}
+
+// 会議とカレンダー予定の一致度を根拠付きで採点する
+export function scoreCalendarEvent(
+  meeting: Meeting,
+  event: calendar_v3.Schema$Event,
+  // 同じ会議を複数の予定と比べる場合は、呼び出し元で一度だけ求めて渡す
+  meetingIdentifiers: MeetingIdentifiers = meeting._meetingIdentifiers ||
+    extractMeetingIdentifiers(meeting.name),
+  cleanMeetingName: string = extractMeetingBaseName(meeting.name)
+): MatchResult {
+  const meetingTime = new Date(getMeetingStartTime(meeting));
+  const reasons: MatchReason[] = [];
+
+  // 1. 会議ID/コードでの確実なマッチング（最優先）
+  const eventMeetingId = extractMeetingIdFromEvent(event);
+  if (
+    eventMeetingId &&
+    meetingIdentifiers.meetingId &&
+    eventMeetingId === meetingIdentifiers.meetingId
+  ) {
+    reasons.push({
+      code: "meeting_id",
+      label: `会議 ID が一致 (${eventMeetingId})`,
+      points: 200,
+    });
+  }
+
+  // 2. 会議コードでマッチング
+  if (meeting.meetingCode && event.description) {
+    if (event.description.includes(meeting.meetingCode)) {
+      reasons.push({
+        code: "meeting_code",
+        label: `予定の説明に会議コード ${meeting.meetingCode} を含む`,
+        points: 100,
+      });
+    }
+  }
+
+  // 3. ファイル名から抽出した会議コードでマッチング
+  if (meetingIdentifiers.meetingCode) {
+    const eventMeetLink = extractMeetLinkFromEvent(event);
+    if (
+      eventMeetLink &&
+      eventMeetLink.includes(meetingIdentifiers.meetingCode)
+    ) {
+      reasons.push({
+        code: "extracted_meeting_code",
+        label: `Meet リンクの会議コードが一致 (${meetingIdentifiers.meetingCode})`,
+        points: 150,
+      });
+    }
+  }
+
+  // 4. 時間の近さでマッチング
+  if (event.start?.dateTime) {
+    const eventTime = new Date(event.start.dateTime);
+    const timeDiff = Math.abs(eventTime.getTime() - meetingTime.getTime());
+    const hoursDiff = timeDiff / (1000 * 60 * 60);
+
+    if (hoursDiff <= 6) {
+      reasons.push({
+        code: "time_proximity",
+        label: `開始時刻の差 ${hoursDiff.toFixed(1)} 時間`,
+        points: Math.max(0, 50 - hoursDiff * 5), // 近いほど高得点
+      });
+    }
+  }
+
+  // 5. ファイル名とイベント名の類似性
+  if (event.summary && cleanMeetingName) {
+    const eventName = event.summary.toLowerCase();
+    const meetingNameLower = cleanMeetingName.toLowerCase();
+
+    // 完全一致
+    if (eventName === meetingNameLower) {
+      reasons.push({ code: "exact_name", label: "会議名が完全一致", points: 80 });
+    }
+    // 部分一致
+    else if (
+      eventName.includes(meetingNameLower) ||
+      meetingNameLower.includes(eventName)
+    ) {
+      reasons.push({
+        code: "partial_name",
+        label: "会議名が部分一致",
+        points: 60,
+      });
+    }
+    // 共通キーワードの数
+    else {
+      const commonWords = countCommonWords(meetingNameLower, eventName);
+      if (commonWords > 0) {
+        reasons.push({
+          code: "common_words",
+          label: `会議名に共通する語が ${commonWords} 個`,
+          points: commonWords * 10,
+        });
+      }
+    }
+  }
+
+  // 6. Google Meetリンクの有無
+  if (hasGoogleMeetLink(event)) {
+    reasons.push({ code: "meet_link", label: "Meet リンクあり", points: 10 });
+  }
+
+  return createMatchResult(reasons, CALENDAR_MATCH_THRESHOLDS);
+}
+
+function countCommonWords(str1: string, str2: string): number {
+  // 意味のある単語のみを対象とする
+  const words1 = str1
+    .split(/[\s\/\-_]+/)
+    .filter((word) => word.length > 1 && !word.match(/^[\d\-_\/]+$/));
+  const words2 = str2
+    .split(/[\s\/\-_]+/)
+    .filter((word) => word.length > 1 && !word.match(/^[\d\-_\/]+$/));
+
+  let commonCount = 0;
+  for (const word1 of words1) {
+    if (
+      words2.some(
+        (word2) =>
+          word1.includes(word2) ||
+          word2.includes(word1) ||
+          (word1.length > 2 &&
+            word2.length > 2 &&
+            (word1.includes(word2.substring(0, 3)) ||
+              word2.includes(word1.substring(0, 3))))
+      )
+    ) {
+      commonCount++;
+    }
+  }
+
+  return commonCount;
+}
+
+// 会議名（ファイル名）から会議 ID・会議コードなどを抽出する
+export function extractMeetingIdentifiers(fileName: string): MeetingIdentifiers {
+  const identifiers: MeetingIdentifiers = {};
+
+  // Google Meet会議コードのパターン（xxx-xxxx-xxx）
+  const meetingCodeMatch = fileName.match(/([a-z]{3}-[a-z]{4}-[a-z]{3})/i);
+  if (meetingCodeMatch) {
+    identifiers.meetingCode = meetingCodeMatch[1];
+  }
+
+  // Google Meet URLからの抽出
+  const meetUrlMatch = fileName.match(/meet\.google\.com\/([a-z\-]+)/i);
+  if (meetUrlMatch) {
+    identifiers.meetingCode = meetUrlMatch[1];
+  }
+
+  // Conference IDの抽出（長い英数字文字列）
+  const conferenceIdMatch = fileName.match(/([a-zA-Z0-9]{20,})/);
+  if (conferenceIdMatch) {
+    identifiers.conferenceId = conferenceIdMatch[1];
+  }
+
+  // ファイルIDから会議IDを推測
+  const fileIdMatch = fileName.match(/Meeting\s+ID[:\s]+([a-zA-Z0-9\-]+)/i);
+  if (fileIdMatch) {
+    identifiers.meetingId = fileIdMatch[1];
+  }
+
+  return identifiers;
+}
+
+function isMeetVideoEntry(
+  entry: calendar_v3.Schema$EntryPoint
+): boolean {
+  return (
+    entry.entryPointType === "video" && !!entry.uri?.includes("meet.google.com")
+  );
+}
+
+export function extractMeetingIdFromEvent(
+  event: calendar_v3.Schema$Event
+): string | undefined {
+  // conferenceDataから会議IDを取得
+  if (event.conferenceData?.conferenceId) {
+    return event.conferenceData.conferenceId;
+  }
+
+  // conferenceDataのentryPointsから会議コードを取得
+  if (event.conferenceData?.entryPoints) {
+    for (const entry of event.conferenceData.entryPoints) {
+      if (isMeetVideoEntry(entry)) {
+        const meetCodeMatch = entry.uri?.match(
+          /meet\.google\.com\/([a-z\-]+)/i
+        );
+        if (meetCodeMatch) {
+          return meetCodeMatch[1];
+        }
+      }
+    }
+  }
+
+  // descriptionから会議コードを抽出
+  if (event.description) {
+    const meetLinkMatch = event.description.match(
+      /meet\.google\.com\/([a-z\-]+)/i
+    );
+    if (meetLinkMatch) {
+      return meetLinkMatch[1];
+    }
+  }
+
+  return undefined;
+}
+
+export function extractMeetLinkFromEvent(
+  event: calendar_v3.Schema$Event
+): string | undefined {
+  // conferenceDataからMeetリンクを取得
+  if (event.conferenceData?.entryPoints) {
+    const meetEntry = event.conferenceData.entryPoints.find(isMeetVideoEntry);
+    return meetEntry?.uri || undefined;
+  }
+
+  // descriptionからMeetリンクを抽出
+  if (event.description) {
+    const meetLinkMatch = event.description.match(
+      /https:\/\/meet\.google\.com\/[a-z\-]+/
+    );
+    return meetLinkMatch?.[0];
+  }
+
+  return undefined;
+}
+
+export function hasGoogleMeetLink(event: calendar_v3.Schema$Event): boolean {
+  return !!(
+    event.conferenceData?.entryPoints?.some(isMeetVideoEntry) ||
+    (event.description && event.description.includes("meet.google.com"))
+  );
+}
@@ -0,0 +1,42 @@
+import path from "path";
+import { createJsonStore, getDataDirectory } from "./json-store";
+
+// 会議との照合に使うカレンダー（未設定時はメインカレンダーのみ）
+export const DEFAULT_CALENDAR_IDS = ["primary"];
+
+interface CalendarSettings {
+  calendarIds: string[];
+  updatedAt: string;
+}
+
+type CalendarSettingsFile = Record<string, CalendarSettings>;
+
+const store = createJsonStore<CalendarSettingsFile>(
+  path.join(getDataDirectory(), "calendar-settings.json"),
+  () => ({})
+);
+
+export async function getSelectedCalendarIds(
+  userKey: string | undefined
+): Promise<string[]> {
+  if (!userKey) return DEFAULT_CALENDAR_IDS;
+
+  const data = await store.read();
+  const calendarIds = data[userKey]?.calendarIds;
+  return calendarIds && calendarIds.length > 0
+    ? calendarIds
+    : DEFAULT_CALENDAR_IDS;
+}
+
+export function setSelectedCalendarIds(
+  userKey: string,
+  calendarIds: string[]
+): Promise<string[]> {
+  return store.update((data) => {
+    data[userKey] = {
+      calendarIds: [...new Set(calendarIds)],
+      updatedAt: new Date().toISOString(),
+    };
+    return data[userKey].calendarIds;
+  });
+}
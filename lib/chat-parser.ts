@@ -0,0 +1,128 @@
+import { formatMsAsTimestamp } from "./transcript-parser";
+
+export interface ChatMessage {
+  // チャット内での通し番号（0 始まり）
+  index: number;
+  sender?: string;
+  text: string;
+  // 録画開始からのオフセット（文字起こしの startMs と同じ基準）
+  offsetMs?: number;
+  timestamp?: string;
+  links: string[];
+}
+
+// 会議のチャットの書き出しファイル（～Chat）
+export interface MeetingChat {
+  fileId: string;
+  name: string;
+  modifiedTime?: string;
+  webViewLink?: string;
+  messages: ChatMessage[];
+}
+
+// SBV 形式の時刻行（"0:01:23.456,0:01:23.456"）
+const SBV_TIME_LINE =
+  /^(\d{1,2}:\d{2}:\d{2}(?:\.\d+)?)\s*,\s*\d{1,2}:\d{2}:\d{2}(?:\.\d+)?$/;
+// "[00:01:23] 送信者: 本文" / "00:01:23 送信者: 本文" 形式
+const INLINE_MESSAGE =
+  /^\[?(\d{1,2}:\d{2}(?::\d{2})?(?:\.\d+)?)\]?\s+([^:：]{1,60}?)\s*[:：]\s*(.*)$/;
+// "送信者 : 本文"（SBV の本文行）
+const SENDER_LINE = /^([^:：]{1,60}?)\s*[:：]\s(.*)$/;
+const URL_PATTERN = /https?:\/\/[^\s<>"'）)]+/g;
+
+function parseClockToMs(value: string): number | undefined {
+  const match = value.match(/^(?:(\d{1,2}):)?(\d{1,2}):(\d{2})(?:\.(\d+))?$/);
+  if (!match) return undefined;
+  const [, hours = "0", minutes, seconds, fraction = "0"] = match;
+  return (
+    ((Number(hours) * 60 + Number(minutes)) * 60 + Number(seconds)) * 1000 +
+    Math.round(Number(`0.${fraction}`) * 1000)
+  );
+}
+
+function createMessage(
+  time: string | undefined,
+  sender: string | undefined,
+  text: string
+): Omit<ChatMessage, "index" | "links"> {
+  const offsetMs = time ? parseClockToMs(time) : undefined;
+  return {
+    ...(sender && { sender: sender.trim() }),
+    text,
+    ...(offsetMs !== undefined && {
+      offsetMs,
+      timestamp: formatMsAsTimestamp(offsetMs),
+    }),
+  };
+}
+
+// Meet のチャットの書き出し（SBV 形式、または時刻付きの1行1メッセージ形式）を解析する
+export function parseChatLog(content: string): ChatMessage[] {
+  const messages: Array<Omit<ChatMessage, "index" | "links">> = [];
+  // SBV で時刻行の直後に来る本文を待っている状態
+  let pendingTime: string | undefined;
+
+  const lines = content.replace(/^\uFEFF/, "").split(/\r?\n/);
+  for (const rawLine of lines) {
+    const line = rawLine.trim();
+    if (!line) {
+      pendingTime = undefined;
+      continue;
+    }
+
+    const sbvTime = line.match(SBV_TIME_LINE);
+    if (sbvTime) {
+      pendingTime = sbvTime[1];
+      continue;
+    }
+
+    if (pendingTime) {
+      const sender = line.match(SENDER_LINE);
+      messages.push(
+        sender
+          ? createMessage(pendingTime, sender[1], sender[2])
+          : createMessage(pendingTime, undefined, line)
+      );
+      pendingTime = undefined;
+      continue;
+    }
+
+    const inline = line.match(INLINE_MESSAGE);
+    if (inline) {
+      messages.push(createMessage(inline[1], inline[2], inline[3]));
+      continue;
+    }
+
+    // 時刻のない行は直前のメッセージの続き
+    const previous = messages[messages.length - 1];
+    if (previous) {
+      previous.text = previous.text ? `${previous.text}\n${line}` : line;
+    } else {
+      messages.push(createMessage(undefined, undefined, line));
+    }
+  }
+
+  return messages
+    .filter((message) => message.text.length > 0)
+    .map((message, index) => ({
+      ...message,
+      index,
+      links: message.text.match(URL_PATTERN) || [],
+    }));
+}
+
+// 本文をリンクとそれ以外の部分に分ける（表示用）
+export function splitChatLinks(
+  text: string
+): Array<{ text: string; href?: string }> {
+  const parts: Array<{ text: string; href?: string }> = [];
+  let lastIndex = 0;
+  for (const match of text.matchAll(URL_PATTERN)) {
+    const start = match.index ?? 0;
+    if (start > lastIndex) parts.push({ text: text.slice(lastIndex, start) });
+    parts.push({ text: match[0], href: match[0] });
+    lastIndex = start + match[0].length;
+  }
+  if (lastIndex < text.length) parts.push({ text: text.slice(lastIndex) });
+  return parts;
+}
@@ -0,0 +1,177 @@
+import mammoth from "mammoth";
+import { extractText, getDocumentProxy } from "unpdf";
+
+export interface ContentSource {
+  data: Buffer;
+  mimeType: string;
+  name?: string;
+}
+
+export interface ContentHeading {
+  level: number;
+  text: string;
+}
+
+export interface ExtractedContent {
+  text: string;
+  // HTML を経由して抽出した場合の元の HTML（見出し構造などの解析用）
+  html?: string;
+  headings?: ContentHeading[];
+  // テキストファイルの判定した文字コード
+  encoding?: string;
+}
+
+export interface ContentExtractor {
+  name: string;
+  mimeTypes: readonly string[];
+  // Google ドキュメントなど、ダウンロードではなく export で取得する場合の形式
+  exportMimeType?: string;
+  extract(source: ContentSource): Promise<ExtractedContent>;
+}
+
+export const GOOGLE_DOC_MIME_TYPE = "application/vnd.google-apps.document";
+export const DOCX_MIME_TYPE =
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+export const PDF_MIME_TYPE = "application/pdf";
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+// 改行として扱う要素
+const BLOCK_TAGS =
+  "p|div|h[1-6]|li|tr|table|ul|ol|section|article|header|footer|blockquote|pre";
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[\da-f]+|#\d+|[a-z]+);/gi, (match, entity) => {
+    if (entity[0] === "#") {
+      const code =
+        entity[1].toLowerCase() === "x"
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return HTML_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+// インライン要素の HTML を1行のテキストにする
+export function stripTags(html: string): string {
+  return decodeEntities(html.replace(/<[^>]*>/g, ""))
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+export function extractHeadings(html: string): ContentHeading[] {
+  return [...html.matchAll(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi)]
+    .map((match) => ({ level: Number(match[1]), text: stripTags(match[2]) }))
+    .filter((heading) => heading.text.length > 0);
+}
+
+// HTML を行単位のテキストにする（見出し・段落・リスト項目はそれぞれ1行）
+export function htmlToText(html: string): string {
+  const text = html
+    .replace(/<(head|style|script)\b[\s\S]*?<\/\1>/gi, "")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(new RegExp(`</?(${BLOCK_TAGS})\\b[^>]*>`, "gi"), "\n")
+    .replace(/<\/t[dh]>/gi, "\t")
+    .replace(/<[^>]*>/g, "");
+
+  return decodeEntities(text)
+    .split("\n")
+    .map((line) => line.replace(/[ \t\u00a0]+/g, " ").trim())
+    .filter((line) => line.length > 0)
+    .join("\n");
+}
+
+// BOM と UTF-8 としての妥当性から文字コードを判定する（不正なら Shift_JIS とみなす）
+export function detectEncoding(data: Buffer): string {
+  if (data[0] === 0xef && data[1] === 0xbb && data[2] === 0xbf) return "utf-8";
+  if (data[0] === 0xff && data[1] === 0xfe) return "utf-16le";
+  if (data[0] === 0xfe && data[1] === 0xff) return "utf-16be";
+
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(data);
+    return "utf-8";
+  } catch {
+    return "shift_jis";
+  }
+}
+
+export function decodeText(data: Buffer): { text: string; encoding: string } {
+  const encoding = detectEncoding(data);
+  // TextDecoder は既定で BOM を取り除く
+  return { text: new TextDecoder(encoding).decode(data), encoding };
+}
+
+const fromHtml = (html: string): ExtractedContent => ({
+  text: htmlToText(html),
+  html,
+  headings: extractHeadings(html),
+});
+
+export const googleDocExtractor: ContentExtractor = {
+  name: "google-doc",
+  mimeTypes: [GOOGLE_DOC_MIME_TYPE],
+  // 見出しを残すため HTML で書き出す
+  exportMimeType: "text/html",
+  async extract({ data }) {
+    return fromHtml(data.toString("utf-8"));
+  },
+};
+
+export const docxExtractor: ContentExtractor = {
+  name: "docx",
+  mimeTypes: [DOCX_MIME_TYPE],
+  async extract({ data }) {
+    const result = await mammoth.convertToHtml({ buffer: data });
+    return fromHtml(result.value);
+  },
+};
+
+export const pdfExtractor: ContentExtractor = {
+  name: "pdf",
+  mimeTypes: [PDF_MIME_TYPE],
+  async extract({ data }) {
+    const pdf = await getDocumentProxy(new Uint8Array(data));
+    const { text } = await extractText(pdf, { mergePages: false });
+    return {
+      text: text
+        .map((page) => page.trim())
+        .filter(Boolean)
+        .join("\n"),
+    };
+  },
+};
+
+export const plainTextExtractor: ContentExtractor = {
+  name: "text",
+  mimeTypes: ["text/plain"],
+  async extract({ data }) {
+    return decodeText(data);
+  },
+};
+
+const EXTRACTORS: ContentExtractor[] = [
+  googleDocExtractor,
+  docxExtractor,
+  pdfExtractor,
+  plainTextExtractor,
+];
+
+// 本文を取り出せるファイル形式
+export const EXTRACTABLE_MIME_TYPES = EXTRACTORS.flatMap(
+  (extractor) => extractor.mimeTypes
+);
+
+export function getContentExtractor(
+  mimeType: string | null | undefined
+): ContentExtractor | undefined {
+  if (!mimeType) return undefined;
+  return EXTRACTORS.find((extractor) => extractor.mimeTypes.includes(mimeType));
+}
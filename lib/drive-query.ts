@@ -0,0 +1,106 @@
+// Drive API の files.list に渡す q 文字列を組み立てる
+// https://developers.google.com/drive/api/guides/ref-search-terms
+
+export type DriveQuery =
+  | { type: "clause"; text: string }
+  | { type: "and" | "or"; terms: DriveQuery[] }
+  | { type: "not"; term: DriveQuery };
+
+// and / or に渡せる値（条件付きの句を && で書けるよう falsy は無視する）
+export type DriveQueryTerm = DriveQuery | null | undefined | false | "";
+
+export type DriveTextField = "name" | "fullText";
+export type DriveTimeField = "createdTime" | "modifiedTime";
+export type DriveComparison = "=" | "!=" | "<" | "<=" | ">" | ">=";
+
+// 文字列リテラル内ではバックスラッシュとシングルクォートをエスケープする
+export function escapeDriveQueryValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/'/g, "\\'");
+}
+
+function literal(value: string): string {
+  return `'${escapeDriveQueryValue(value)}'`;
+}
+
+function clause(text: string): DriveQuery {
+  return { type: "clause", text };
+}
+
+export function contains(field: DriveTextField, value: string): DriveQuery {
+  return clause(`${field} contains ${literal(value)}`);
+}
+
+export function nameContains(value: string): DriveQuery {
+  return contains("name", value);
+}
+
+export function mimeTypeIs(mimeType: string): DriveQuery {
+  return clause(`mimeType = ${literal(mimeType)}`);
+}
+
+// いずれかの形式に一致する（mimeType = 'a' or mimeType = 'b' ...）
+export function mimeTypeIn(mimeTypes: readonly string[]): DriveQuery | null {
+  return or(...mimeTypes.map(mimeTypeIs));
+}
+
+export function inParents(folderId: string): DriveQuery {
+  return clause(`${literal(folderId)} in parents`);
+}
+
+export function isTrashed(trashed: boolean): DriveQuery {
+  return clause(`trashed = ${trashed}`);
+}
+
+export function compareTime(
+  field: DriveTimeField,
+  comparison: DriveComparison,
+  time: string | number | Date
+): DriveQuery {
+  return clause(
+    `${field} ${comparison} ${literal(new Date(time).toISOString())}`
+  );
+}
+
+function group(type: "and" | "or", terms: DriveQueryTerm[]): DriveQuery | null {
+  const queries = terms
+    .filter((term): term is DriveQuery => !!term)
+    // 同じ演算子のグループは平らにする
+    .flatMap((term) => (term.type === type ? term.terms : [term]));
+  if (queries.length === 0) return null;
+  return queries.length === 1 ? queries[0] : { type, terms: queries };
+}
+
+export function and(...terms: DriveQueryTerm[]): DriveQuery | null {
+  return group("and", terms);
+}
+
+export function or(...terms: DriveQueryTerm[]): DriveQuery | null {
+  return group("or", terms);
+}
+
+export function not(term: DriveQuery): DriveQuery {
+  return { type: "not", term };
+}
+
+function renderTerm(query: DriveQuery, parent?: "and" | "or" | "not"): string {
+  switch (query.type) {
+    case "clause":
+      return query.text;
+    case "not":
+      return `not ${renderTerm(query.term, "not")}`;
+    default: {
+      const text = query.terms
+        .map((term) => renderTerm(term, query.type))
+        .join(` ${query.type} `);
+      // 入れ子のグループは括弧で囲んで優先順位を明示する
+      return parent ? `(${text})` : text;
+    }
+  }
+}
+
+// q パラメーターの文字列にする（条件がなければ undefined）
+export function renderDriveQuery(
+  query: DriveQueryTerm
+): string | undefined {
+  return query ? renderTerm(query) : undefined;
+}
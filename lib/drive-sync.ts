@@ -0,0 +1,271 @@
+import { createHash } from "crypto";
+import path from "path";
+import { drive_v3 } from "googleapis";
+import { createJsonStore, getDataDirectory, JsonStore } from "./json-store";
+import { getGoogleErrorStatus, isGoogleAuthError } from "./google-api-errors";
+import { EXTRACTABLE_MIME_TYPES } from "./content-extractors";
+import {
+  and,
+  isTrashed,
+  mimeTypeIn,
+  mimeTypeIs,
+  nameContains,
+  or,
+  renderDriveQuery,
+} from "./drive-query";
+import { getLogger } from "./logger";
+
+export type IndexedFileKind = "meeting" | "transcript";
+
+export interface IndexedFile extends drive_v3.Schema$File {
+  kind: IndexedFileKind;
+}
+
+// ユーザーごとの会議ファイルのローカルインデックス
+export interface MeetingIndex {
+  // 次に changes.list を呼ぶときのページトークン
+  startPageToken: string;
+  syncedAt: string;
+  files: Record<string, IndexedFile>;
+  // 初回の全件取得が上限で打ち切られた（一覧は Drive を直接検索する）
+  truncated?: boolean;
+}
+
+export interface SyncResult {
+  index: MeetingIndex;
+  added: number;
+  updated: number;
+  removed: number;
+  // 新しく見つかった文字起こしの件数
+  newTranscripts: number;
+}
+
+const FILE_FIELDS =
+  "id,name,createdTime,modifiedTime,size,webViewLink,mimeType,description,properties,appProperties,parents,trashed";
+
+// 初回の全件取得の上限
+const MAX_INITIAL_FILES = 1000;
+// この間隔以内の再同期は省略する
+const SYNC_INTERVAL_MS = 30 * 1000;
+
+const MEETING_MIME_TYPE = "application/vnd.google-apps.document";
+
+const log = getLogger("drive-sync");
+
+// 同じユーザーの同期が並行して走らないようにする
+const inFlight = new Map<string, Promise<SyncResult>>();
+
+export function isDriveSyncEnabled(): boolean {
+  return process.env.DRIVE_SYNC !== "off";
+}
+
+// 会議ファイル（Gemini のメモ）・文字起こしのどちらに当たるかを判定する
+export function classifyFile(
+  file: drive_v3.Schema$File
+): IndexedFileKind | null {
+  if (file.trashed || !file.id || !file.name) return null;
+
+  const name = file.name.toLowerCase();
+  if (file.mimeType === MEETING_MIME_TYPE && name.includes("gemini")) {
+    return "meeting";
+  }
+  if (
+    file.mimeType &&
+    EXTRACTABLE_MIME_TYPES.includes(file.mimeType) &&
+    (name.includes("transcript") || file.name.includes("文字起こし"))
+  ) {
+    return "transcript";
+  }
+  return null;
+}
+
+// Drive の Changes API で会議ファイルのインデックスを差分更新する
+export class DriveSync {
+  private store: JsonStore<MeetingIndex | null>;
+
+  constructor(
+    private drive: drive_v3.Drive,
+    private userKey: string
+  ) {
+    const fileName = createHash("sha256").update(userKey).digest("hex");
+    this.store = createJsonStore<MeetingIndex | null>(
+      path.join(getDataDirectory(), "meeting-index", `${fileName}.json`),
+      () => null
+    );
+  }
+
+  sync(options: { force?: boolean } = {}): Promise<SyncResult> {
+    const running = inFlight.get(this.userKey);
+    if (running) return running;
+
+    const task = this.runSync(!!options.force).finally(() =>
+      inFlight.delete(this.userKey)
+    );
+    inFlight.set(this.userKey, task);
+    return task;
+  }
+
+  private async runSync(force: boolean): Promise<SyncResult> {
+    const current = await this.store.read();
+    if (!current) {
+      return this.initialize();
+    }
+
+    if (
+      !force &&
+      Date.now() - new Date(current.syncedAt).getTime() < SYNC_INTERVAL_MS
+    ) {
+      return {
+        index: current,
+        added: 0,
+        updated: 0,
+        removed: 0,
+        newTranscripts: 0,
+      };
+    }
+
+    try {
+      return await this.applyChanges(current);
+    } catch (error) {
+      if (isGoogleAuthError(error)) throw error;
+      // ページトークンが失効した場合は作り直す
+      const status = getGoogleErrorStatus(error);
+      if (status === 400 || status === 404 || status === 410) {
+        log.warn("Drive change token expired, rebuilding meeting index");
+        return this.initialize();
+      }
+      throw error;
+    }
+  }
+
+  private async initialize(): Promise<SyncResult> {
+    log.info("Building Drive meeting index");
+
+    // 一覧の取得中の変更を取りこぼさないよう、先にトークンを取得する
+    const tokenResponse = await this.drive.changes.getStartPageToken({});
+    const startPageToken = tokenResponse.data.startPageToken || "";
+
+    const files: Record<string, IndexedFile> = {};
+    const query = renderDriveQuery(
+      and(
+        isTrashed(false),
+        or(
+          and(nameContains("Gemini"), mimeTypeIs(MEETING_MIME_TYPE)),
+          and(
+            or(nameContains("transcript"), nameContains("文字起こし")),
+            mimeTypeIn(EXTRACTABLE_MIME_TYPES)
+          )
+        )
+      )
+    );
+    let pageToken: string | undefined;
+    let count = 0;
+
+    do {
+      const response = await this.drive.files.list({
+        q: query,
+        spaces: "drive",
+        fields: `nextPageToken,files(${FILE_FIELDS})`,
+        orderBy: "createdTime desc",
+        pageSize: 100,
+        pageToken,
+      });
+
+      for (const file of response.data.files || []) {
+        const kind = classifyFile(file);
+        if (kind && file.id) {
+          files[file.id] = { ...file, kind };
+          count++;
+        }
+      }
+      pageToken = response.data.nextPageToken || undefined;
+    } while (pageToken && count < MAX_INITIAL_FILES);
+
+    const index: MeetingIndex = {
+      startPageToken,
+      syncedAt: new Date().toISOString(),
+      files,
+      truncated: !!pageToken,
+    };
+    await this.save(index);
+    log.info("Indexed Drive files", { count, truncated: index.truncated });
+
+    // 作り直しは既存ファイルの取り込みであり、新しく追加されたファイルではない
+    return {
+      index,
+      added: 0,
+      updated: 0,
+      removed: 0,
+      newTranscripts: 0,
+    };
+  }
+
+  private async applyChanges(current: MeetingIndex): Promise<SyncResult> {
+    const files = { ...current.files };
+    const result = { added: 0, updated: 0, removed: 0, newTranscripts: 0 };
+    let pageToken: string | undefined = current.startPageToken;
+    let startPageToken = current.startPageToken;
+
+    while (pageToken) {
+      const response: { data: drive_v3.Schema$ChangeList } =
+        await this.drive.changes.list({
+          pageToken,
+          spaces: "drive",
+          includeRemoved: true,
+          pageSize: 100,
+          fields: `nextPageToken,newStartPageToken,changes(fileId,removed,file(${FILE_FIELDS}))`,
+        });
+
+      for (const change of response.data.changes || []) {
+        if (!change.fileId) continue;
+
+        const existing = files[change.fileId];
+        const kind =
+          change.removed || !change.file ? null : classifyFile(change.file);
+
+        if (!kind) {
+          // 削除・ゴミ箱・名前変更で対象外になったもの
+          if (existing) {
+            delete files[change.fileId];
+            result.removed++;
+          }
+          continue;
+        }
+
+        files[change.fileId] = { ...change.file!, kind };
+        if (existing) {
+          result.updated++;
+        } else {
+          result.added++;
+          if (kind === "transcript") result.newTranscripts++;
+        }
+      }
+
+      pageToken = response.data.nextPageToken || undefined;
+      if (response.data.newStartPageToken) {
+        startPageToken = response.data.newStartPageToken;
+      }
+    }
+
+    const index: MeetingIndex = {
+      startPageToken,
+      syncedAt: new Date().toISOString(),
+      files,
+      truncated: current.truncated,
+    };
+    await this.save(index);
+
+    if (result.added || result.updated || result.removed) {
+      log.info("Synced Drive changes", {
+        added: result.added,
+        updated: result.updated,
+        removed: result.removed,
+      });
+    }
+    return { index, ...result };
+  }
+
+  private save(index: MeetingIndex): Promise<void> {
+    return this.store.replace(index);
+  }
+}
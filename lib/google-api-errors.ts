@@ -0,0 +1,146 @@
+// googleapis（gaxios）のエラーから HTTP ステータスを取り出す
+// （ラップされたエラーは cause をたどる）
+export function getGoogleErrorStatus(error: unknown): number | undefined {
+  let current: unknown = error;
+  for (let depth = 0; current && depth < 5; depth++) {
+    const candidate = current as {
+      status?: unknown;
+      code?: unknown;
+      response?: { status?: unknown };
+      cause?: unknown;
+    };
+    const status =
+      candidate.response?.status ?? candidate.status ?? candidate.code;
+    if (typeof status === "number") return status;
+    if (typeof status === "string" && /^\d{3}$/.test(status)) {
+      return Number(status);
+    }
+    current = candidate.cause;
+  }
+  return undefined;
+}
+
+// アクセストークンの期限切れ・失効により再ログインが必要なエラーか
+export function isGoogleAuthError(error: unknown): boolean {
+  return getGoogleErrorStatus(error) === 401;
+}
+
+// Google API のエラー種別ごとのクラス（ルートで HTTP ステータスに変換する）
+export class GoogleApiError extends Error {
+  readonly status?: number;
+  readonly reason?: string;
+
+  constructor(
+    message: string,
+    options: { status?: number; reason?: string; cause?: unknown } = {}
+  ) {
+    super(message, { cause: options.cause });
+    this.name = "GoogleApiError";
+    this.status = options.status;
+    this.reason = options.reason;
+  }
+}
+
+// アクセストークンの期限切れ・失効（401）
+export class GoogleAuthError extends GoogleApiError {
+  name = "GoogleAuthError";
+}
+
+// ファイル・カレンダーへのアクセス権がない（403）
+export class GooglePermissionError extends GoogleApiError {
+  name = "GooglePermissionError";
+}
+
+// 対象が存在しない（404）
+export class GoogleNotFoundError extends GoogleApiError {
+  name = "GoogleNotFoundError";
+}
+
+// レート制限・割り当て超過（429 または理由付きの 403）
+export class GoogleQuotaError extends GoogleApiError {
+  name = "GoogleQuotaError";
+  retryAfterMs?: number;
+}
+
+// 一定時間内に応答がない
+export class GoogleTimeoutError extends GoogleApiError {
+  name = "GoogleTimeoutError";
+}
+
+// 再試行しても 5xx が返る
+export class GoogleUnavailableError extends GoogleApiError {
+  name = "GoogleUnavailableError";
+}
+
+// 時間をおけば解消する 403 の理由
+const RATE_LIMIT_REASONS = ["rateLimitExceeded", "userRateLimitExceeded"];
+const QUOTA_REASONS = [
+  ...RATE_LIMIT_REASONS,
+  "quotaExceeded",
+  "dailyLimitExceeded",
+  "sharingRateLimitExceeded",
+];
+
+// エラー応答の errors[].reason（Drive・Calendar の 403 の区別に使う）
+export function getGoogleErrorReason(error: unknown): string | undefined {
+  let current: unknown = error;
+  for (let depth = 0; current && depth < 5; depth++) {
+    const candidate = current as {
+      reason?: unknown;
+      errors?: Array<{ reason?: unknown }>;
+      response?: { data?: { error?: { errors?: Array<{ reason?: unknown }> } } };
+      cause?: unknown;
+    };
+    const reason =
+      candidate.reason ??
+      candidate.errors?.[0]?.reason ??
+      candidate.response?.data?.error?.errors?.[0]?.reason;
+    if (typeof reason === "string") return reason;
+    current = candidate.cause;
+  }
+  return undefined;
+}
+
+// 429・5xx・レート制限の 403 は時間をおいて再試行する
+export function isRetryableGoogleError(error: unknown): boolean {
+  if (error instanceof GoogleTimeoutError) return true;
+
+  const status = getGoogleErrorStatus(error);
+  if (status === 429 || (status !== undefined && status >= 500)) return true;
+  if (status === 403) {
+    const reason = getGoogleErrorReason(error);
+    return reason !== undefined && RATE_LIMIT_REASONS.includes(reason);
+  }
+
+  // 接続の切断などステータスのない通信エラー
+  const code = (error as { code?: unknown } | null)?.code;
+  return (
+    typeof code === "string" &&
+    ["ECONNRESET", "ETIMEDOUT", "EAI_AGAIN", "ECONNREFUSED"].includes(code)
+  );
+}
+
+// googleapis のエラーを種別ごとのクラスに変換する（ラップされたエラーは cause をたどる）
+export function toGoogleApiError(error: unknown): GoogleApiError | null {
+  let current: unknown = error;
+  for (let depth = 0; current && depth < 5; depth++) {
+    if (current instanceof GoogleApiError) return current;
+    current = (current as { cause?: unknown }).cause;
+  }
+
+  const status = getGoogleErrorStatus(error);
+  if (status === undefined) return null;
+
+  const reason = getGoogleErrorReason(error);
+  const message = error instanceof Error ? error.message : String(error);
+  const options = { status, reason, cause: error };
+
+  if (status === 401) return new GoogleAuthError(message, options);
+  if (status === 429 || (reason && QUOTA_REASONS.includes(reason))) {
+    return new GoogleQuotaError(message, options);
+  }
+  if (status === 403) return new GooglePermissionError(message, options);
+  if (status === 404) return new GoogleNotFoundError(message, options);
+  if (status >= 500) return new GoogleUnavailableError(message, options);
+  return new GoogleApiError(message, options);
+}
@@ -0,0 +1,200 @@
+import { google } from "googleapis";
+import {
+  GoogleQuotaError,
+  GoogleTimeoutError,
+  GoogleUnavailableError,
+  getGoogleErrorStatus,
+  isRetryableGoogleError,
+  toGoogleApiError,
+} from "./google-api-errors";
+import { getLogger } from "./logger";
+
+export interface GoogleClientOptions {
+  // 同時実行数をユーザー単位で制限するためのキー（なければトークン単位）
+  userKey?: string;
+}
+
+type GoogleAuthClient = InstanceType<typeof google.auth.OAuth2>;
+type GoogleRequestOptions = Parameters<GoogleAuthClient["request"]>[0];
+
+const DEFAULT_MAX_RETRIES = 4;
+const BASE_RETRY_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 16 * 1000;
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_TIMEOUT_MS = 30 * 1000;
+
+const log = getLogger("google-api");
+
+function getNumberEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+// 同時に実行するリクエスト数を制限するキュー
+class ConcurrencyLimiter {
+  private active = 0;
+  private waiting: Array<() => void> = [];
+
+  constructor(private readonly maxConcurrency: number) {}
+
+  get idle(): boolean {
+    return this.active === 0 && this.waiting.length === 0;
+  }
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    if (this.active >= this.maxConcurrency) {
+      // 枠は終了した処理からそのまま引き継ぐ（引き継ぎ中に idle に見えないように）
+      await new Promise<void>((resolve) => this.waiting.push(resolve));
+    } else {
+      this.active++;
+    }
+    try {
+      return await task();
+    } finally {
+      const next = this.waiting.shift();
+      if (next) {
+        next();
+      } else {
+        this.active--;
+      }
+    }
+  }
+}
+
+// ユーザーごとのリミッター（処理中のものだけ保持する）
+const limiters = new Map<string, ConcurrencyLimiter>();
+
+async function runLimited<T>(key: string, task: () => Promise<T>): Promise<T> {
+  let limiter = limiters.get(key);
+  if (!limiter) {
+    limiter = new ConcurrencyLimiter(
+      Math.max(1, getNumberEnv("GOOGLE_API_CONCURRENCY", DEFAULT_CONCURRENCY))
+    );
+    limiters.set(key, limiter);
+  }
+
+  try {
+    return await limiter.run(task);
+  } finally {
+    // 別のリミッターに置き換わっていない場合だけ、処理がなくなったら破棄する
+    if (limiter.idle && limiters.get(key) === limiter) limiters.delete(key);
+  }
+}
+
+// 指定時間内に終わらないリクエストは中断する
+async function withTimeout<T>(
+  task: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number
+): Promise<T> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    return await task(controller.signal);
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new GoogleTimeoutError(
+        `Google API request timed out after ${timeoutMs}ms`,
+        { cause: error }
+      );
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Retry-After ヘッダー（秒数または日時）をミリ秒に変換する
+function getRetryAfterMs(error: unknown): number | undefined {
+  const headers = (error as { response?: { headers?: unknown } } | null)
+    ?.response?.headers;
+  const value =
+    headers instanceof Headers
+      ? headers.get("retry-after")
+      : (headers as Record<string, unknown> | undefined)?.["retry-after"];
+  if (typeof value !== "string") return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
+
+// 指数バックオフ（フルジッター）。Retry-After があればそれに従う
+function getRetryDelayMs(attempt: number, error: unknown): number {
+  const retryAfter = getRetryAfterMs(error);
+  if (retryAfter !== undefined) {
+    return Math.min(retryAfter, MAX_RETRY_DELAY_MS);
+  }
+
+  const ceiling = Math.min(
+    BASE_RETRY_DELAY_MS * 2 ** attempt,
+    MAX_RETRY_DELAY_MS
+  );
+  return Math.random() * ceiling;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Google API 呼び出しの共通処理: 同時実行数の制限・タイムアウト・再試行・エラーの型付け
+export async function googleRequest<T>(
+  limiterKey: string,
+  task: (signal: AbortSignal) => Promise<T>
+): Promise<T> {
+  const maxRetries = getNumberEnv(
+    "GOOGLE_API_MAX_RETRIES",
+    DEFAULT_MAX_RETRIES
+  );
+  const timeoutMs = getNumberEnv("GOOGLE_API_TIMEOUT_MS", DEFAULT_TIMEOUT_MS);
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      // 待機中は枠を空けるため、試行ごとに枠を取る
+      return await runLimited(limiterKey, () => withTimeout(task, timeoutMs));
+    } catch (error) {
+      if (attempt >= maxRetries || !isRetryableGoogleError(error)) {
+        const typed = toGoogleApiError(error);
+        if (typed instanceof GoogleQuotaError) {
+          typed.retryAfterMs = getRetryAfterMs(error);
+        }
+        if (
+          typed instanceof GoogleUnavailableError ||
+          typed instanceof GoogleQuotaError
+        ) {
+          log.error("Google API request failed", {
+            attempts: attempt + 1,
+            error: typed,
+          });
+        }
+        throw typed || error;
+      }
+
+      const delay = getRetryDelayMs(attempt, error);
+      log.warn("Retrying Google API request", {
+        delayMs: Math.round(delay),
+        attempt: attempt + 1,
+        maxRetries,
+        status: getGoogleErrorStatus(error),
+      });
+      await sleep(delay);
+    }
+  }
+}
+
+// すべての API 呼び出しが googleRequest を通る OAuth2 クライアントを作る
+export function createGoogleAuth(
+  accessToken: string,
+  options: GoogleClientOptions = {}
+): GoogleAuthClient {
+  const auth = new google.auth.OAuth2();
+  auth.setCredentials({ access_token: accessToken });
+
+  const limiterKey = options.userKey || accessToken;
+  const request = auth.request.bind(auth);
+  // gaxios 側の再試行は無効にして、こちらの再試行に一本化する
+  auth.request = ((requestOptions: GoogleRequestOptions) =>
+    googleRequest(limiterKey, (signal) =>
+      request({ ...requestOptions, retry: false, signal })
+    )) as GoogleAuthClient["request"];
+
+  return auth;
+}
@@ -1,30 +1,93 @@
-import { google } from "googleapis";
+import { google, calendar_v3, drive_v3 } from "googleapis";
+import { parseTranscript } from "./transcript-parser";
+import { getUserPins, MeetingPin } from "./pin-store";
+import { GoogleNotFoundError, isGoogleAuthError } from "./google-api-errors";
+import { cached, userCacheKey } from "./cache";
+import { createGoogleAuth } from "./google-client";
+import {
+  decodeText,
+  EXTRACTABLE_MIME_TYPES,
+  getContentExtractor,
+  GOOGLE_DOC_MIME_TYPE,
+} from "./content-extractors";
+import { MeetingNotes, parseMeetingNotes } from "./meeting-notes";
+import { MeetingChat, parseChatLog } from "./chat-parser";
+import {
+  classifyArtifact,
+  createMeetingBundle,
+  extractMeetingBaseName,
+  getSessionKey,
+  MeetingArtifact,
+  parseSessionStartTime,
+  toMeetingArtifact,
+} from "./meeting-bundle";
+import {
+  and,
+  compareTime,
+  contains,
+  DriveQuery,
+  inParents,
+  isTrashed,
+  mimeTypeIn,
+  mimeTypeIs,
+  nameContains,
+  or,
+  renderDriveQuery,
+} from "./drive-query";
+import { getLogger } from "./logger";
+import { createMatchResult } from "./match-result";
+import { DriveSync, isDriveSyncEnabled, SyncResult } from "./drive-sync";
+import {
+  collectAssignedEventKeys,
+  decodeMeetingCursor,
+  encodeMeetingCursor,
+  hashCursorKey,
+} from "./page-cursor";
+import {
+  DEFAULT_CALENDAR_IDS,
+  getSelectedCalendarIds,
+} from "./calendar-settings";
+import {
+  assignCalendarEvents,
+  CalendarMatchCandidate,
+  extractMeetingIdentifiers,
+  extractMeetLinkFromEvent,
+  getCalendarWindowMs,
+  getMeetingStartTime,
+  getMeetingWindow,
+  hasGoogleMeetLink,
+  isWithinWindow,
+  mergeTimeWindows,
+  scoreCalendarEvent,
+  TimeWindow,
+} from "./calendar-matcher";
+
+// 会議データの取得元（Meet REST API / Drive のファイル名ヒューリスティック）
+export type MeetingSource = "meet" | "drive";
 
 export interface Meeting {
   id: string;
   name: string;
   createdTime: string;
+  source?: MeetingSource;
+  // Meet REST API の会議記録情報（source が "meet" の場合）
+  conferenceRecord?: string;
+  space?: string;
+  // 会議の開始時刻（Drive の場合はファイル名の開始日時から求める）
+  startTime?: string;
+  endTime?: string;
   modifiedTime?: string;
   size?: number;
   webViewLink?: string;
   meetingCode?: string;
   // カレンダー情報
-  calendarEvent?: {
-    eventId: string;
-    calendarId: string;
-    summary?: string;
-    startTime?: string;
-    endTime?: string;
-    meetLink?: string;
-    organizer?: {
-      email: string;
-      displayName?: string;
-    };
-    attendees?: Array<{
-      email: string;
-      displayName?: string;
-      responseStatus?: string;
-    }>;
+  calendarEvent?: MeetingCalendarEvent;
+  // 採用されなかったカレンダー予定の候補（一致スコアの高い順）
+  calendarAlternates?: MeetingCalendarEvent[];
+  // ユーザーが手動で固定した紐付け
+  pin?: {
+    transcriptId?: string;
+    calendarEventId?: string;
   };
   // 内部的に使用する詳細情報（オプショナル）
   _meetingIdentifiers?: {
@@ -40,6 +103,60 @@ export interface Meeting {
   };
 }
 
+export interface MeetingCalendarEvent {
+  eventId: string;
+  calendarId: string;
+  summary?: string;
+  startTime?: string;
+  endTime?: string;
+  meetLink?: string;
+  organizer?: {
+    email: string;
+    displayName?: string;
+  };
+  attendees?: Array<{
+    email: string;
+    displayName?: string;
+    responseStatus?: string;
+  }>;
+  // 手動で固定された予定の場合は true
+  pinned?: boolean;
+  // 自動で紐付けた場合の一致スコアと根拠
+  match?: MatchResult;
+}
+
+// ユーザーのカレンダーリストの1件
+export interface CalendarInfo {
+  id: string;
+  summary: string;
+  primary: boolean;
+  accessRole?: string;
+  backgroundColor?: string;
+}
+
+// 取得元カレンダー付きの予定
+interface CalendarSourceEvent {
+  calendarId: string;
+  event: calendar_v3.Schema$Event;
+}
+
+export type MatchConfidence = "high" | "medium" | "low";
+
+export interface MatchReason {
+  // 機械的に判別するためのコード（例: "meeting_code", "time_proximity"）
+  code: string;
+  // 画面表示用の説明
+  label: string;
+  points: number;
+}
+
+// 自動照合の結果（スコアと、その内訳）
+export interface MatchResult {
+  score: number;
+  confidence: MatchConfidence;
+  reasons: MatchReason[];
+}
+
 export interface Transcript {
   id: string;
   name: string;
@@ -49,217 +166,715 @@ export interface Transcript {
   webViewLink?: string;
   downloadLink?: string;
   content?: string;
+  // 会議との関連度スコア（Drive の候補選択時）
+  relevanceScore?: number;
+  // 手動で固定された文字起こしの場合は true
+  pinned?: boolean;
+  // 会議との一致スコアと根拠
+  match?: MatchResult;
+  // 本文を取得した時刻（キャッシュから返した場合は元の取得時刻）
+  fetchedAt?: string;
+  // Meet REST API の文字起こし情報（source が "meet" の場合）
+  source?: MeetingSource;
+  conferenceRecord?: string;
+  startTime?: string;
+  endTime?: string;
+  entries?: TranscriptEntry[];
+}
+
+export interface MeetingListOptions {
+  // 前ページの nextCursor（取得元のページトークン。Drive では重複除去の状態も含む）
+  cursor?: string;
+  pageSize?: number;
+  // createdTime の範囲（ISO 8601）
+  createdFrom?: string;
+  createdTo?: string;
+  // ファイル名・本文に対する自由文字列検索
+  query?: string;
+}
+
+export interface MeetingPage {
+  meetings: Meeting[];
+  nextCursor?: string;
+  source?: MeetingSource;
+  // 含まれるデータのうち最も古いものを取得した時刻（ISO 8601）
+  fetchedAt?: string;
+}
+
+// 文字起こしとして扱うファイル形式（本文を取り出せるもの）
+export const TRANSCRIPT_MIME_TYPES = EXTRACTABLE_MIME_TYPES;
+
+// 文字起こしらしいファイル名（追加のキーワードも含めていずれかを含む）
+function transcriptNameQuery(...extraKeywords: string[]): DriveQuery | null {
+  return or(
+    ...["transcript", "文字起こし", "Transcript", ...extraKeywords].map(
+      nameContains
+    )
+  );
 }
 
+export const DEFAULT_MEETING_PAGE_SIZE = 10;
+export const MAX_MEETING_PAGE_SIZE = 100;
+
 export interface TranscriptEntry {
+  // 文字起こし内での通し番号（0 始まり）
+  index: number;
   text: string;
   timestamp?: string;
+  speaker?: string;
+  // 会議開始からのオフセット（ミリ秒）
+  startMs?: number;
+  endMs?: number;
+  // Meet REST API の transcripts.entries から得た発話時刻（ISO 8601）
+  startTime?: string;
+  endTime?: string;
 }
 
+// 同じフォルダ・同日・名前の一致が揃えば high
+const TRANSCRIPT_MATCH_THRESHOLDS = { high: 30, medium: 15 };
+
+export interface CalendarEnrichOptions {
+  // 前のページで割り当て済みの予定（hashCursorKey した予定 ID）
+  assignedEventKeys?: Iterable<string>;
+}
+
+export interface GoogleMeetAPIOptions {
+  // 手動の紐付け（ピン）・キャッシュに使うユーザーキー（未指定時はどちらも使わない）
+  userKey?: string;
+  // キャッシュを使わずに Google API から取得し直す
+  forceRefresh?: boolean;
+}
+
+const log = getLogger("drive");
+// 照合の詳細は LOG_DEBUG=matcher で出力する
+const matcherLog = getLogger("matcher");
+
+// ローカルインデックスから返したページの続きを示すカーソル
+const INDEX_CURSOR_PREFIX = "index:";
+
+// キャッシュの有効期間
+const MEETING_LIST_TTL_MS = 60 * 1000;
+const CALENDAR_EVENTS_TTL_MS = 5 * 60 * 1000;
+const TRANSCRIPT_CANDIDATES_TTL_MS = 5 * 60 * 1000;
+// 本文は modifiedTime が変わるまで有効
+const FILE_CONTENT_TTL_MS = 24 * 60 * 60 * 1000;
+// 会議の終了後、Gemini のメモが作成されるまでの猶予
+const NOTES_CREATION_WINDOW_MS = 60 * 60 * 1000;
+// 同じ会議の録画・チャットなどを探す、会議の開始時刻の前後の範囲
+const SESSION_ARTIFACT_WINDOW_MS = 6 * 60 * 60 * 1000;
+
 export class GoogleMeetAPI {
   private auth: InstanceType<typeof google.auth.OAuth2>;
   private drive: ReturnType<typeof google.drive>;
   private calendar: ReturnType<typeof google.calendar>;
-
-  constructor(accessToken: string) {
-    this.auth = new google.auth.OAuth2();
-    this.auth.setCredentials({ access_token: accessToken });
+  private userKey?: string;
+  private forceRefresh: boolean;
+  private pins?: Promise<Record<string, MeetingPin>>;
+  // このインスタンスで使ったデータのうち最も古い取得時刻
+  private oldestFetchedAt?: number;
+
+  constructor(accessToken: string, options: GoogleMeetAPIOptions = {}) {
+    this.userKey = options.userKey;
+    this.forceRefresh = !!options.forceRefresh;
+    this.auth = createGoogleAuth(accessToken, { userKey: this.userKey });
     this.drive = google.drive({ version: "v3", auth: this.auth });
     this.calendar = google.calendar({ version: "v3", auth: this.auth });
   }
 
-  async getMeetings(): Promise<Meeting[]> {
+  async getMeetings(options: MeetingListOptions = {}): Promise<MeetingPage> {
     try {
-      console.log("Fetching Google Meet files from Google Drive...");
-
       // Google Drive から Google Meet で生成されたファイルを検索
-      const response = await this.drive.files.list({
-        q: "name contains 'Gemini' and mimeType = 'application/vnd.google-apps.document'",
-        spaces: "drive",
-        fields:
-          "files(id,name,createdTime,modifiedTime,size,webViewLink,mimeType,description,properties,appProperties,parents)",
-        orderBy: "createdTime desc",
-        pageSize: 5,
-      });
-
-      console.log(response.data.files);
-
-      const files = response.data.files || [];
-      console.log(`Found ${files.length} potential meeting files`);
+      const pageSize = this.normalizePageSize(options.pageSize);
+      const cursor = decodeMeetingCursor(options.cursor);
+      const listOptions = { ...options, cursor: cursor.pageToken };
+      const listing =
+        (await this.listMeetingFilesFromIndex(listOptions, pageSize)) ||
+        (await this.listMeetingFiles(
+          // インデックスのカーソルは Drive のページトークンにならないため先頭から取り直す
+          // （前のページで返した会議は processedMeetings で除く）
+          listOptions.cursor?.startsWith(INDEX_CURSOR_PREFIX)
+            ? { ...listOptions, cursor: undefined }
+            : listOptions,
+          pageSize
+        ));
+
+      const files = listing.files;
+      log.debug("Found potential meeting files", { count: files.length });
 
       // ファイル情報を会議情報に変換
       const meetings: Meeting[] = [];
-      const processedMeetings = new Set<string>();
+      // 前のページで返した会議も含めて重複を避ける
+      const processedMeetings = new Set(cursor.seen);
 
       for (const file of files) {
-        // ファイル名から会議コードを抽出（推定）
-        const meetingCode = this.extractMeetingCode(file.name || "");
-
-        // より詳細な会議識別子を抽出
-        const meetingIdentifiers = this.extractMeetingIdentifiers(
-          file.name || ""
-        );
-
-        // ファイルのメタデータから会議情報を抽出
-        const meetingMetadata = this.extractMeetingMetadataFromFile(file);
-
-        const meetingKey =
-          meetingCode ||
-          meetingIdentifiers.meetingCode ||
-          file.createdTime ||
-          file.id;
-
-        // 重複を避ける
-        if (meetingKey && !processedMeetings.has(meetingKey)) {
-          processedMeetings.add(meetingKey);
-
-          meetings.push({
-            id: file.id || "",
-            name: this.generateMeetingName(file.name || ""),
-            createdTime: file.createdTime || "",
-            modifiedTime: file.modifiedTime || undefined,
-            size: parseInt(file.size || "0"),
-            webViewLink: file.webViewLink || undefined,
-            meetingCode: meetingCode || meetingIdentifiers.meetingCode,
-            // 内部的に使用する詳細情報
-            _meetingIdentifiers: meetingIdentifiers,
-            _meetingMetadata: meetingMetadata,
-          });
+        const meeting = this.toMeeting(file);
+        const meetingKey = meeting.meetingCode || file.createdTime || file.id;
+        if (!meetingKey) continue;
+
+        const hashedKey = hashCursorKey(meetingKey);
+        if (!processedMeetings.has(hashedKey)) {
+          processedMeetings.add(hashedKey);
+          meetings.push(meeting);
         }
       }
 
       // カレンダーイベントとの紐付けを試行
       const meetingsWithCalendar = await this.enrichMeetingsWithCalendarData(
-        meetings
+        meetings,
+        { assignedEventKeys: cursor.assigned }
       );
 
-      return meetingsWithCalendar;
+      return {
+        meetings: meetingsWithCalendar,
+        nextCursor: listing.nextPageToken
+          ? encodeMeetingCursor({
+              pageToken: listing.nextPageToken,
+              seen: [...processedMeetings],
+              assigned: [
+                ...cursor.assigned,
+                ...collectAssignedEventKeys(meetingsWithCalendar),
+              ],
+            })
+          : undefined,
+        source: "drive",
+        fetchedAt: this.getFetchedAt(),
+      };
     } catch (error) {
-      console.error("Error fetching Google Drive files:", error);
+      log.error("Error fetching Google Drive files", { error });
       throw new Error(
         `Failed to fetch meeting files: ${
           error instanceof Error ? error.message : "Unknown error"
-        }`
+        }`,
+        { cause: error }
       );
     }
   }
 
-  private async enrichMeetingsWithCalendarData(
-    meetings: Meeting[]
+  // Drive を直接検索する（キーワード検索時やインデックスを使えない場合）
+  private listMeetingFiles(
+    options: MeetingListOptions,
+    pageSize: number
+  ): Promise<{ files: drive_v3.Schema$File[]; nextPageToken?: string }> {
+    const query = this.buildMeetingQuery(options);
+    return this.withCache(
+      "meetings",
+      [query, pageSize, options.cursor],
+      MEETING_LIST_TTL_MS,
+      async () => {
+        const response = await this.drive.files.list({
+          q: query,
+          spaces: "drive",
+          fields:
+            "nextPageToken,files(id,name,createdTime,modifiedTime,size,webViewLink,mimeType,description,properties,appProperties,parents)",
+          orderBy: "createdTime desc",
+          pageSize,
+          pageToken: options.cursor || undefined,
+        });
+        return {
+          files: response.data.files || [],
+          nextPageToken: response.data.nextPageToken || undefined,
+        };
+      }
+    );
+  }
+
+  // Drive の変更をローカルインデックスに取り込む
+  syncMeetingIndex(options: { force?: boolean } = {}): Promise<SyncResult> {
+    if (!this.userKey) {
+      throw new Error("User key is required to sync the meeting index");
+    }
+    return new DriveSync(this.drive, this.userKey).sync(options);
+  }
+
+  // 同期済みのローカルインデックスから会議ファイルを返す（使えない場合は null）
+  private async listMeetingFilesFromIndex(
+    options: MeetingListOptions,
+    pageSize: number
+  ): Promise<{ files: drive_v3.Schema$File[]; nextPageToken?: string } | null> {
+    // 本文検索は Drive 側でしかできない。Drive のページトークンでの続きも同様
+    if (!this.userKey || !isDriveSyncEnabled() || options.query?.trim()) {
+      return null;
+    }
+    if (options.cursor && !options.cursor.startsWith(INDEX_CURSOR_PREFIX)) {
+      return null;
+    }
+
+    try {
+      const { index } = await this.syncMeetingIndex({
+        force: this.forceRefresh,
+      });
+      // 全件を取り込めていないインデックスでは一覧が欠けるため使わない
+      if (index.truncated) {
+        log.debug("Meeting index is truncated, listing Drive directly");
+        return null;
+      }
+      this.recordFetchedAt(new Date(index.syncedAt).getTime());
+
+      const from = options.createdFrom
+        ? new Date(options.createdFrom).getTime()
+        : -Infinity;
+      const to = options.createdTo
+        ? new Date(options.createdTo).getTime()
+        : Infinity;
+      const meetingFiles = Object.values(index.files)
+        .filter((file) => {
+          if (file.kind !== "meeting") return false;
+          const created = new Date(file.createdTime || 0).getTime();
+          return created >= from && created <= to;
+        })
+        .sort((a, b) => (b.createdTime || "").localeCompare(a.createdTime || ""));
+
+      const offset = options.cursor
+        ? Number(options.cursor.slice(INDEX_CURSOR_PREFIX.length)) || 0
+        : 0;
+      const files = meetingFiles.slice(offset, offset + pageSize);
+      const nextOffset = offset + files.length;
+
+      log.debug("Listing meeting files from local index", {
+        count: files.length,
+        total: meetingFiles.length,
+      });
+      return {
+        files,
+        nextPageToken:
+          nextOffset < meetingFiles.length
+            ? `${INDEX_CURSOR_PREFIX}${nextOffset}`
+            : undefined,
+      };
+    } catch (error) {
+      if (isGoogleAuthError(error)) throw error;
+      log.warn("Drive sync failed, listing meeting files directly", {
+        error,
+      });
+      return null;
+    }
+  }
+
+  async getMeeting(meetingId: string): Promise<Meeting | null> {
+    try {
+      const response = await this.drive.files.get({
+        fileId: meetingId,
+        fields:
+          "id,name,createdTime,modifiedTime,size,webViewLink,mimeType,description,properties,appProperties,parents",
+      });
+
+      const [meeting] = await this.enrichMeetingsWithCalendarData([
+        this.toMeeting(response.data),
+      ]);
+      return meeting;
+    } catch (error) {
+      // 存在しない会議だけを null にし、トークン切れや権限・割り当てのエラーは呼び出し元に返す
+      if (error instanceof GoogleNotFoundError) {
+        log.warn("Meeting file not found", { meetingId });
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  // Gemini の会議メモ（Google ドキュメント）を HTML で書き出して構造化する
+  async getMeetingNotes(documentId: string): Promise<MeetingNotes | null> {
+    let file: drive_v3.Schema$File;
+    try {
+      const response = await this.drive.files.get({
+        fileId: documentId,
+        fields: "id,name,mimeType,modifiedTime,webViewLink",
+      });
+      file = response.data;
+    } catch (error) {
+      if (error instanceof GoogleNotFoundError) return null;
+      throw error;
+    }
+    if (!file.id || file.mimeType !== GOOGLE_DOC_MIME_TYPE) return null;
+
+    const fileId = file.id;
+    const notes = await this.withCache(
+      "meeting-notes",
+      [fileId],
+      FILE_CONTENT_TTL_MS,
+      async () => {
+        const html = await this.downloadFile(fileId, "text/html");
+        return parseMeetingNotes(html.toString("utf-8"));
+      },
+      file.modifiedTime || undefined
+    );
+
+    return {
+      documentId: fileId,
+      name: file.name || "",
+      modifiedTime: file.modifiedTime || undefined,
+      webViewLink: file.webViewLink || undefined,
+      ...notes,
+    };
+  }
+
+  // 会議の時間帯に作成された Gemini のメモを探す（Meet REST API の会議記録用）
+  async findMeetingNotes(meeting: Meeting): Promise<MeetingNotes | null> {
+    if (!meeting.startTime) return null;
+    const endTime = new Date(meeting.endTime || meeting.startTime).getTime();
+
+    const response = await this.drive.files.list({
+      q: renderDriveQuery(
+        and(
+          nameContains("Gemini"),
+          mimeTypeIs(GOOGLE_DOC_MIME_TYPE),
+          isTrashed(false),
+          compareTime("createdTime", ">=", meeting.startTime),
+          compareTime(
+            "createdTime",
+            "<=",
+            endTime + NOTES_CREATION_WINDOW_MS
+          )
+        )
+      ),
+      spaces: "drive",
+      fields: "files(id,name,createdTime)",
+      orderBy: "createdTime",
+      pageSize: 10,
+    });
+
+    // 同じ時間帯に複数あれば会議名を含むものを優先する
+    const files = response.data.files || [];
+    const name = meeting.name.toLowerCase();
+    const file =
+      files.find((candidate) =>
+        candidate.name?.toLowerCase().includes(name)
+      ) || files[0];
+    return file?.id ? this.getMeetingNotes(file.id) : null;
+  }
+
+  // 同じ会議で作成されたメモ・文字起こし・録画・チャットのファイルを探す
+  async findSessionArtifacts(meeting: Meeting): Promise<MeetingArtifact[]> {
+    const baseName = extractMeetingBaseName(meeting.name);
+    const parents = meeting._meetingMetadata?.parents || [];
+    const startMs = new Date(meeting.startTime || meeting.createdTime).getTime();
+    if (!Number.isFinite(startMs) || (!baseName && parents.length === 0)) {
+      return [];
+    }
+
+    const files = await this.withCache(
+      "session-artifacts",
+      [meeting.id, baseName, parents],
+      TRANSCRIPT_CANDIDATES_TTL_MS,
+      async () => {
+        const response = await this.drive.files.list({
+          q: renderDriveQuery(
+            and(
+              isTrashed(false),
+              or(
+                ...parents.map(inParents),
+                baseName && nameContains(baseName)
+              ),
+              compareTime(
+                "createdTime",
+                ">=",
+                startMs - SESSION_ARTIFACT_WINDOW_MS
+              ),
+              compareTime(
+                "createdTime",
+                "<=",
+                startMs + SESSION_ARTIFACT_WINDOW_MS
+              )
+            )
+          ),
+          spaces: "drive",
+          fields:
+            "files(id,name,createdTime,modifiedTime,size,webViewLink,mimeType,parents)",
+          orderBy: "createdTime",
+          pageSize: 50,
+        });
+        return response.data.files || [];
+      }
+    );
+
+    // ファイル名の日時が分かればそれで、なければ会議名の一致で同じ会議とみなす
+    const sessionKey = getSessionKey(meeting.name);
+    const normalizedBaseName = baseName.toLowerCase();
+    const artifacts: MeetingArtifact[] = [];
+    for (const file of files) {
+      const kind = classifyArtifact(file);
+      if (!kind || !file.id) continue;
+
+      const fileSessionKey = getSessionKey(file.name || "");
+      const sameSession =
+        sessionKey && fileSessionKey
+          ? sessionKey === fileSessionKey
+          : extractMeetingBaseName(file.name || "").toLowerCase() ===
+            normalizedBaseName;
+      if (sameSession) artifacts.push(toMeetingArtifact(kind, file));
+    }
+
+    matcherLog.debug("Found session artifacts", {
+      meetingId: meeting.id,
+      candidates: files.length,
+      artifacts: artifacts.map((artifact) => artifact.kind),
+    });
+    return artifacts;
+  }
+
+  // 会議のチャットの書き出し（SBV 形式のテキスト）を取得して解析する
+  async getMeetingChat(fileId: string): Promise<MeetingChat | null> {
+    let file: drive_v3.Schema$File;
+    try {
+      const response = await this.drive.files.get({
+        fileId,
+        fields: "id,name,mimeType,modifiedTime,webViewLink",
+      });
+      file = response.data;
+    } catch (error) {
+      if (error instanceof GoogleNotFoundError) return null;
+      throw error;
+    }
+    if (!file.id) return null;
+
+    const chatFileId = file.id;
+    const messages = await this.withCache(
+      "meeting-chat",
+      [chatFileId],
+      FILE_CONTENT_TTL_MS,
+      async () => {
+        // ドキュメントに変換されている場合はテキストで書き出す
+        const data = await this.downloadFile(
+          chatFileId,
+          file.mimeType === GOOGLE_DOC_MIME_TYPE ? "text/plain" : undefined
+        );
+        return parseChatLog(decodeText(data).text);
+      },
+      file.modifiedTime || undefined
+    );
+
+    return {
+      fileId: chatFileId,
+      name: file.name || "",
+      modifiedTime: file.modifiedTime || undefined,
+      webViewLink: file.webViewLink || undefined,
+      messages,
+    };
+  }
+
+  // 会議と同じ回のチャットファイルを探す
+  async findMeetingChat(meeting: Meeting): Promise<MeetingChat | null> {
+    const artifacts = await this.findSessionArtifacts(meeting);
+    const { chat } = createMeetingBundle(meeting, artifacts);
+    return chat ? this.getMeetingChat(chat.id) : null;
+  }
+
+  private toMeeting(file: drive_v3.Schema$File): Meeting {
+    // ファイル名から会議コードを抽出（推定）
+    const meetingCode = this.extractMeetingCode(file.name || "");
+
+    // より詳細な会議識別子を抽出
+    const meetingIdentifiers = extractMeetingIdentifiers(file.name || "");
+
+    // ファイルのメタデータから会議情報を抽出
+    const meetingMetadata = this.extractMeetingMetadataFromFile(file);
+
+    return {
+      id: file.id || "",
+      name: this.generateMeetingName(file.name || ""),
+      createdTime: file.createdTime || "",
+      // ファイル名の開始日時（ファイルの作成は会議の終了後になる）
+      startTime: parseSessionStartTime(file.name || ""),
+      modifiedTime: file.modifiedTime || undefined,
+      size: parseInt(file.size || "0"),
+      webViewLink: file.webViewLink || undefined,
+      meetingCode: meetingCode || meetingIdentifiers.meetingCode,
+      source: "drive",
+      // 内部的に使用する詳細情報
+      _meetingIdentifiers: meetingIdentifiers,
+      _meetingMetadata: meetingMetadata,
+    };
+  }
+
+  private buildMeetingQuery(options: MeetingListOptions): string {
+    const query = options.query?.trim();
+    return (
+      renderDriveQuery(
+        and(
+          nameContains("Gemini"),
+          mimeTypeIs("application/vnd.google-apps.document"),
+          options.createdFrom &&
+            compareTime("createdTime", ">=", options.createdFrom),
+          options.createdTo &&
+            compareTime("createdTime", "<=", options.createdTo),
+          query && or(nameContains(query), contains("fullText", query))
+        )
+      ) || ""
+    );
+  }
+
+  private normalizePageSize(pageSize?: number): number {
+    if (!pageSize || !Number.isFinite(pageSize)) {
+      return DEFAULT_MEETING_PAGE_SIZE;
+    }
+    return Math.min(Math.max(Math.floor(pageSize), 1), MAX_MEETING_PAGE_SIZE);
+  }
+
+  async enrichMeetingsWithCalendarData(
+    meetings: Meeting[],
+    options: CalendarEnrichOptions = {}
   ): Promise<Meeting[]> {
     try {
-      console.log("=== ENRICHING MEETINGS WITH CALENDAR DATA ===");
-      console.log(`Processing ${meetings.length} meetings`);
-
-      // 過去30日間のカレンダーイベントを取得
-      const timeMin = new Date();
-      timeMin.setDate(timeMin.getDate() - 30);
-      console.log(`Searching calendar events from: ${timeMin.toISOString()}`);
-
-      // まず全てのイベントを取得（検索クエリなし）
-      const calendarResponse = await this.calendar.events.list({
-        calendarId: "primary",
-        timeMin: timeMin.toISOString(),
-        maxResults: 100,
-        singleEvents: true,
-        orderBy: "startTime",
-        // q: "meet.google.com OR Google Meet", // 一旦コメントアウト
+      log.debug("Enriching meetings with calendar data", {
+        meetings: meetings.length,
       });
 
-      const events = calendarResponse.data.items || [];
-      console.log(`Found ${events.length} calendar events total`);
+      const pins = await this.getPins();
+      const pinnedEvents = await this.fetchPinnedEvents(meetings, pins);
+
+      // 各会議の前後だけを検索する（重なる時間帯はまとめて取得）
+      const windowMs = getCalendarWindowMs();
+      const meetingWindows = new Map<string, TimeWindow>();
+      for (const meeting of meetings) {
+        const window = getMeetingWindow(getMeetingStartTime(meeting), windowMs);
+        if (window) meetingWindows.set(meeting.id, window);
+      }
+      const ranges = mergeTimeWindows([...meetingWindows.values()]);
+      matcherLog.debug("Searching calendar events", {
+        ranges: ranges.length,
+        windowHours: windowMs / 3600000,
+      });
+
+      // 選択されたカレンダーを並行して検索する
+      const calendarIds = await this.getCalendarIdsToSearch();
+      const eventsByCalendar = await Promise.all(
+        calendarIds.flatMap((calendarId) =>
+          ranges.map((range) => this.fetchCalendarEvents(calendarId, range))
+        )
+      );
+
+      // 共有された予定は複数のカレンダーに現れるため、先に見つかった方を使う
+      const seenEventIds = new Set<string>();
+      const events = eventsByCalendar.flat().filter(({ event }) => {
+        if (!event.id || seenEventIds.has(event.id)) return false;
+        seenEventIds.add(event.id);
+        return true;
+      });
 
       // Google Meetイベントをフィルタリング
-      const meetEvents = events.filter((event) =>
-        this.hasGoogleMeetLink(event)
+      const meetEvents = events.filter(({ event }) =>
+        hasGoogleMeetLink(event)
       );
-      console.log(`Found ${meetEvents.length} events with Google Meet links`);
-
-      // デバッグ: 最初の5件のイベントを詳細表示
-      events.slice(0, 5).forEach((event, index) => {
-        console.log(`Event ${index + 1}:`, {
-          id: event.id,
-          summary: event.summary,
-          start: event.start?.dateTime || event.start?.date,
-          hasConferenceData: !!event.conferenceData,
-          hasMeetLink: this.hasGoogleMeetLink(event),
-          description: event.description?.substring(0, 100) + "...",
-        });
+      matcherLog.debug("Fetched calendar events", {
+        calendars: calendarIds.length,
+        events: events.length,
+        meetEvents: meetEvents.length,
       });
 
-      // 各会議にカレンダー情報を紐付け
-      const enrichedMeetings = meetings.map((meeting, index) => {
-        console.log(
-          `\n--- Processing Meeting ${index + 1}: "${meeting.name}" ---`
-        );
-        console.log(`Meeting created: ${meeting.createdTime}`);
-        console.log(`Meeting code: ${meeting.meetingCode || "None"}`);
+      // 全ての会議と予定の組み合わせを採点し、1対1で割り当てる
+      // （前のページで割り当てた予定は、このページの会議の候補にしない）
+      const assignedEventKeys = new Set(options.assignedEventKeys);
+      const candidates = meetings
+        .filter((meeting) => !pinnedEvents.has(meeting.id))
+        .flatMap((meeting) => {
+          const window = meetingWindows.get(meeting.id);
+          if (!window) return [];
+          const nearbyEvents = meetEvents.filter(
+            ({ event }) =>
+              isWithinWindow(
+                event.start?.dateTime || event.start?.date,
+                window
+              ) && !assignedEventKeys.has(hashCursorKey(event.id || ""))
+          );
+          return this.scoreCalendarCandidates(meeting, nearbyEvents);
+        });
+      const assignments = assignCalendarEvents(
+        meetings.map((meeting) => meeting.id),
+        candidates,
+        {
+          // 手動で固定された予定は、他のページの会議のものも含めて割り当てない
+          reservedEventIds: Object.values(pins).flatMap((pin) =>
+            pin.calendarEventId ? [pin.calendarEventId] : []
+          ),
+        }
+      );
 
-        const matchingEvent = this.findMatchingCalendarEvent(
-          meeting,
-          meetEvents
-        );
+      // 各会議にカレンダー情報を紐付け
+      const enrichedMeetings = meetings.map((meeting) => {
+        const pin = pins[meeting.id];
+        const pinnedMeeting: Meeting = pin
+          ? {
+              ...meeting,
+              pin: {
+                transcriptId: pin.transcriptId,
+                calendarEventId: pin.calendarEventId,
+              },
+            }
+          : meeting;
+
+        // 手動で固定された予定はスコアリングより優先する
+        const pinnedEvent = pinnedEvents.get(meeting.id);
+        if (pinnedEvent) {
+          matcherLog.debug("Using pinned calendar event", {
+            meetingId: meeting.id,
+            eventId: pinnedEvent.eventId,
+          });
+          return {
+            ...pinnedMeeting,
+            calendarEvent: { ...pinnedEvent, pinned: true },
+          };
+        }
 
-        if (matchingEvent) {
-          console.log(
-            `✅ MATCHED meeting "${meeting.name}" with calendar event "${matchingEvent.summary}"`
-          );
+        const assignment = assignments.get(meeting.id);
+        const toMatchedEvent = (
+          candidate: CalendarMatchCandidate<CalendarSourceEvent>
+        ): MeetingCalendarEvent => ({
+          ...this.toCalendarEvent(
+            candidate.event.event,
+            candidate.event.calendarId
+          ),
+          match: candidate.match,
+        });
+        const calendarAlternates = assignment?.alternates.map(toMatchedEvent);
+        const withAlternates: Meeting = calendarAlternates?.length
+          ? { ...pinnedMeeting, calendarAlternates }
+          : pinnedMeeting;
+
+        if (assignment?.selected) {
+          matcherLog.debug("Matched calendar event", {
+            meetingId: meeting.id,
+            meetingName: meeting.name,
+            eventId: assignment.selected.eventId,
+            eventSummary: assignment.selected.event.event.summary,
+            score: assignment.selected.match.score,
+            alternates: calendarAlternates?.length || 0,
+          });
           return {
-            ...meeting,
-            calendarEvent: {
-              eventId: matchingEvent.id || "",
-              calendarId: "primary",
-              summary: matchingEvent.summary || "",
-              startTime:
-                matchingEvent.start?.dateTime ||
-                matchingEvent.start?.date ||
-                "",
-              endTime:
-                matchingEvent.end?.dateTime || matchingEvent.end?.date || "",
-              meetLink: this.extractMeetLinkFromEvent(matchingEvent),
-              organizer: matchingEvent.organizer
-                ? {
-                    email: matchingEvent.organizer.email || "",
-                    displayName: matchingEvent.organizer.displayName,
-                  }
-                : undefined,
-              attendees:
-                matchingEvent.attendees?.map((attendee: any) => ({
-                  email: attendee.email || "",
-                  displayName: attendee.displayName,
-                  responseStatus: attendee.responseStatus,
-                })) || [],
-            },
+            ...withAlternates,
+            calendarEvent: toMatchedEvent(assignment.selected),
           };
-        } else {
-          console.log(`❌ NO MATCH found for meeting "${meeting.name}"`);
         }
 
-        return meeting;
+        matcherLog.debug("No calendar event matched", {
+          meetingId: meeting.id,
+          meetingName: meeting.name,
+        });
+
+        return withAlternates;
       });
 
       const matchedCount = enrichedMeetings.filter(
         (m) => m.calendarEvent
       ).length;
-      console.log(`\n=== SUMMARY ===`);
-      console.log(`Total meetings: ${meetings.length}`);
-      console.log(`Matched with calendar: ${matchedCount}`);
-      console.log(`Unmatched: ${meetings.length - matchedCount}`);
+      log.info("Matched meetings with calendar events", {
+        meetings: meetings.length,
+        matched: matchedCount,
+      });
 
       return enrichedMeetings;
     } catch (error) {
-      console.error("=== ERROR ENRICHING MEETINGS WITH CALENDAR DATA ===");
-      console.error("Error details:", error);
+      // トークン切れは再ログインを促すため、会議一覧ごと失敗させる
+      if (isGoogleAuthError(error)) throw error;
+      log.error("Failed to enrich meetings with calendar data", { error });
 
       if (error instanceof Error) {
-        console.error("Error message:", error.message);
         if (error.message.includes("insufficient authentication")) {
-          console.error(
-            "⚠️ Calendar API permission issue - user needs to re-authenticate"
+          log.warn(
+            "Calendar API permission issue, user needs to re-authenticate"
           );
         }
         if (error.message.includes("Calendar API has not been used")) {
-          console.error("⚠️ Calendar API not enabled in Google Cloud Console");
+          log.warn("Calendar API not enabled in Google Cloud Console");
         }
       }
 
@@ -268,262 +883,219 @@ export class GoogleMeetAPI {
     }
   }
 
-  private findMatchingCalendarEvent(
-    meeting: Meeting,
-    events: any[]
-  ): any | null {
-    const meetingTime = new Date(meeting.createdTime);
-    console.log(`  Searching for matches...`);
-
-    // 会議ファイル名から基本部分を抽出（日時やファイル種別を除去）
-    const cleanMeetingName = this.extractMeetingBaseName(meeting.name);
-    console.log(`  Cleaned meeting name: "${cleanMeetingName}"`);
+  // ユーザーが閲覧できるカレンダーの一覧
+  async listCalendars(): Promise<CalendarInfo[]> {
+    const calendars: CalendarInfo[] = [];
+    let pageToken: string | undefined;
 
-    // 会議ファイル名から会議IDやコードを抽出（保存済みのものを優先使用）
-    const meetingIdentifiers =
-      meeting._meetingIdentifiers ||
-      this.extractMeetingIdentifiers(meeting.name);
-    console.log(`  Extracted identifiers:`, meetingIdentifiers);
-
-    // ファイルのメタデータも確認
-    if (meeting._meetingMetadata) {
-      console.log(`  File metadata:`, {
-        hasDescription: !!meeting._meetingMetadata.description,
-        hasProperties: !!meeting._meetingMetadata.properties,
-        hasAppProperties: !!meeting._meetingMetadata.appProperties,
-        parentFolders: meeting._meetingMetadata.parents?.length || 0,
+    do {
+      const response = await this.calendar.calendarList.list({
+        pageToken,
+        fields:
+          "nextPageToken,items(id,summary,summaryOverride,primary,accessRole,backgroundColor)",
       });
-    }
-
-    // 複数の条件でマッチングを試行
-    for (const event of events) {
-      let matchScore = 0;
-      const matchReasons: string[] = [];
 
-      // 1. 会議ID/コードでの確実なマッチング（最優先）
-      const eventMeetingId = this.extractMeetingIdFromEvent(event);
-      if (
-        eventMeetingId &&
-        meetingIdentifiers.meetingId &&
-        eventMeetingId === meetingIdentifiers.meetingId
-      ) {
-        matchScore += 200;
-        matchReasons.push(`exact meeting ID: ${eventMeetingId}`);
-      }
-
-      // 2. 会議コードでマッチング
-      if (meeting.meetingCode && event.description) {
-        if (event.description.includes(meeting.meetingCode)) {
-          matchScore += 100;
-          matchReasons.push(`meeting code: ${meeting.meetingCode}`);
-        }
-      }
-
-      // 3. ファイル名から抽出した会議コードでマッチング
-      if (meetingIdentifiers.meetingCode) {
-        const eventMeetLink = this.extractMeetLinkFromEvent(event);
-        if (
-          eventMeetLink &&
-          eventMeetLink.includes(meetingIdentifiers.meetingCode)
-        ) {
-          matchScore += 150;
-          matchReasons.push(
-            `extracted meeting code: ${meetingIdentifiers.meetingCode}`
-          );
-        }
-      }
-
-      // 2. 時間の近さでマッチング
-      if (event.start?.dateTime) {
-        const eventTime = new Date(event.start.dateTime);
-        const timeDiff = Math.abs(eventTime.getTime() - meetingTime.getTime());
-        const hoursDiff = timeDiff / (1000 * 60 * 60);
-
-        if (hoursDiff <= 6) {
-          matchScore += Math.max(0, 50 - hoursDiff * 5); // 近いほど高得点
-          matchReasons.push(`time proximity: ${hoursDiff.toFixed(1)}h`);
-        }
-      }
-
-      // 3. ファイル名とイベント名の類似性（改善版）
-      if (event.summary && cleanMeetingName) {
-        const eventName = event.summary.toLowerCase();
-        const meetingNameLower = cleanMeetingName.toLowerCase();
-
-        // 完全一致
-        if (eventName === meetingNameLower) {
-          matchScore += 80;
-          matchReasons.push("exact name match");
-        }
-        // 部分一致
-        else if (
-          eventName.includes(meetingNameLower) ||
-          meetingNameLower.includes(eventName)
-        ) {
-          matchScore += 60;
-          matchReasons.push("partial name match");
-        }
-        // 共通キーワードの数
-        else {
-          const commonWords = this.countCommonWords(
-            meetingNameLower,
-            eventName
-          );
-          if (commonWords > 0) {
-            matchScore += commonWords * 10;
-            matchReasons.push(`${commonWords} common words`);
-          }
-        }
-      }
-
-      // 4. Google Meetリンクの有無
-      if (this.hasGoogleMeetLink(event)) {
-        matchScore += 10;
-        matchReasons.push("has meet link");
-      }
-
-      // マッチスコアが閾値を超えた場合
-      if (matchScore >= 30) {
-        console.log(
-          `  🎯 POTENTIAL MATCH with "${event.summary}" (score: ${matchScore})`
-        );
-        console.log(`     Reasons: ${matchReasons.join(", ")}`);
-
-        // 最初に見つかった有力候補を返す（後で改善可能）
-        if (matchScore >= 50) {
-          return event;
-        }
+      for (const item of response.data.items || []) {
+        if (!item.id) continue;
+        calendars.push({
+          id: item.id,
+          summary: item.summaryOverride || item.summary || item.id,
+          primary: !!item.primary,
+          accessRole: item.accessRole || undefined,
+          backgroundColor: item.backgroundColor || undefined,
+        });
       }
-    }
+      pageToken = response.data.nextPageToken || undefined;
+    } while (pageToken);
 
-    return null;
+    return calendars;
   }
 
-  private extractMeetingBaseName(fileName: string): string {
-    // ファイル名から基本的な会議名を抽出
-    let cleanName = fileName;
-
-    // 日時パターンを除去（例: "2025/08/25 13:58 JST"）
-    cleanName = cleanName.replace(
-      /\d{4}\/\d{1,2}\/\d{1,2}\s+\d{1,2}:\d{2}\s+JST/g,
-      ""
-    );
-
-    // ファイル種別を除去
-    cleanName = cleanName.replace(
-      /～(Chat|Recording|Gemini によるメモ).*$/g,
-      ""
+  // 照合に使うカレンダー ID（"primary" は実際の ID に置き換える）
+  private async getCalendarIdsToSearch(): Promise<string[]> {
+    const selected = await getSelectedCalendarIds(this.userKey).catch(
+      (error) => {
+        log.error("Failed to load calendar settings", { error });
+        return DEFAULT_CALENDAR_IDS;
+      }
     );
-    cleanName = cleanName.replace(/\s+のコピー.*$/g, "");
-    cleanName = cleanName.replace(/\.(pdf|docx?|txt)$/i, "");
-
-    // 余分な空白を除去
-    cleanName = cleanName.replace(/\s+/g, " ").trim();
 
-    return cleanName;
+    try {
+      const calendars = await this.listCalendars();
+      const primary = calendars.find((calendar) => calendar.primary);
+      const available = new Set(calendars.map((calendar) => calendar.id));
+      const resolved = selected
+        .map((id) => (id === "primary" && primary ? primary.id : id))
+        .filter((id) => available.has(id))
+        // 重複した予定はメインカレンダーのものを優先する
+        .sort((a, b) => Number(b === primary?.id) - Number(a === primary?.id));
+      return resolved.length > 0 ? [...new Set(resolved)] : DEFAULT_CALENDAR_IDS;
+    } catch (error) {
+      if (isGoogleAuthError(error)) throw error;
+      log.warn("Failed to list calendars, using selected IDs as-is", {
+        error,
+      });
+      return selected;
+    }
   }
 
-  private countCommonWords(str1: string, str2: string): number {
-    // 意味のある単語のみを対象とする
-    const words1 = str1
-      .split(/[\s\/\-_]+/)
-      .filter((word) => word.length > 1 && !word.match(/^[\d\-_\/]+$/));
-    const words2 = str2
-      .split(/[\s\/\-_]+/)
-      .filter((word) => word.length > 1 && !word.match(/^[\d\-_\/]+$/));
+  private async fetchCalendarEvents(
+    calendarId: string,
+    range: TimeWindow
+  ): Promise<CalendarSourceEvent[]> {
+    try {
+      const items = await this.withCache(
+        "calendar-events",
+        [calendarId, range.start, range.end],
+        CALENDAR_EVENTS_TTL_MS,
+        async () => {
+          const events: calendar_v3.Schema$Event[] = [];
+          let pageToken: string | undefined;
+          do {
+            const response = await this.calendar.events.list({
+              calendarId,
+              timeMin: new Date(range.start).toISOString(),
+              timeMax: new Date(range.end).toISOString(),
+              maxResults: 250,
+              singleEvents: true,
+              orderBy: "startTime",
+              pageToken,
+            });
+            events.push(...(response.data.items || []));
+            pageToken = response.data.nextPageToken || undefined;
+          } while (pageToken);
+          return events;
+        }
+      );
 
-    let commonCount = 0;
-    for (const word1 of words1) {
-      if (
-        words2.some(
-          (word2) =>
-            word1.includes(word2) ||
-            word2.includes(word1) ||
-            (word1.length > 2 &&
-              word2.length > 2 &&
-              (word1.includes(word2.substring(0, 3)) ||
-                word2.includes(word1.substring(0, 3))))
-        )
-      ) {
-        commonCount++;
-      }
+      return items.map((event) => ({ calendarId, event }));
+    } catch (error) {
+      if (isGoogleAuthError(error)) throw error;
+      // 1つのカレンダーの失敗で照合全体を止めない
+      log.warn("Failed to fetch calendar events", { calendarId, error });
+      return [];
     }
-
-    return commonCount;
   }
 
-  private extractMeetingIdentifiers(fileName: string): {
-    meetingId?: string;
-    meetingCode?: string;
-    conferenceId?: string;
-  } {
-    const identifiers: {
-      meetingId?: string;
-      meetingCode?: string;
-      conferenceId?: string;
-    } = {};
-
-    // Google Meet会議コードのパターン（xxx-xxxx-xxx）
-    const meetingCodeMatch = fileName.match(/([a-z]{3}-[a-z]{4}-[a-z]{3})/i);
-    if (meetingCodeMatch) {
-      identifiers.meetingCode = meetingCodeMatch[1];
-    }
-
-    // Google Meet URLからの抽出
-    const meetUrlMatch = fileName.match(/meet\.google\.com\/([a-z\-]+)/i);
-    if (meetUrlMatch) {
-      identifiers.meetingCode = meetUrlMatch[1];
+  async getCalendarEvent(
+    calendarId: string,
+    eventId: string
+  ): Promise<MeetingCalendarEvent | null> {
+    try {
+      const response = await this.calendar.events.get({ calendarId, eventId });
+      return this.toCalendarEvent(response.data, calendarId);
+    } catch (error) {
+      if (isGoogleAuthError(error)) throw error;
+      log.warn("Calendar event not accessible", { calendarId, eventId, error });
+      return null;
     }
+  }
 
-    // Conference IDの抽出（長い英数字文字列）
-    const conferenceIdMatch = fileName.match(/([a-zA-Z0-9]{20,})/);
-    if (conferenceIdMatch) {
-      identifiers.conferenceId = conferenceIdMatch[1];
+  private async getPins(): Promise<Record<string, MeetingPin>> {
+    if (!this.userKey) return {};
+    if (!this.pins) {
+      this.pins = getUserPins(this.userKey).catch((error) => {
+        log.error("Failed to load meeting pins", { error });
+        return {};
+      });
     }
+    return this.pins;
+  }
 
-    // ファイルIDから会議IDを推測
-    const fileIdMatch = fileName.match(/Meeting\s+ID[:\s]+([a-zA-Z0-9\-]+)/i);
-    if (fileIdMatch) {
-      identifiers.meetingId = fileIdMatch[1];
-    }
+  // 予定が削除された場合などは取得できず、スコアリングにフォールバックする
+  private async fetchPinnedEvents(
+    meetings: Meeting[],
+    pins: Record<string, MeetingPin>
+  ): Promise<Map<string, MeetingCalendarEvent>> {
+    const pinnedEvents = new Map<string, MeetingCalendarEvent>();
+
+    await Promise.all(
+      meetings.map(async (meeting) => {
+        const pin = pins[meeting.id];
+        if (!pin?.calendarEventId) return;
+
+        const event = await this.getCalendarEvent(
+          pin.calendarId || "primary",
+          pin.calendarEventId
+        );
+        if (event) {
+          pinnedEvents.set(meeting.id, event);
+        }
+      })
+    );
 
-    return identifiers;
+    return pinnedEvents;
   }
 
-  private extractMeetingIdFromEvent(event: any): string | undefined {
-    // conferenceDataから会議IDを取得
-    if (event.conferenceData?.conferenceId) {
-      return event.conferenceData.conferenceId;
-    }
-
-    // conferenceDataのentryPointsから会議コードを取得
-    if (event.conferenceData?.entryPoints) {
-      for (const entry of event.conferenceData.entryPoints) {
-        if (
-          entry.entryPointType === "video" &&
-          entry.uri?.includes("meet.google.com")
-        ) {
-          const meetCodeMatch = entry.uri.match(
-            /meet\.google\.com\/([a-z\-]+)/i
-          );
-          if (meetCodeMatch) {
-            return meetCodeMatch[1];
+  private toCalendarEvent(
+    event: calendar_v3.Schema$Event,
+    calendarId: string
+  ): MeetingCalendarEvent {
+    return {
+      eventId: event.id || "",
+      calendarId,
+      summary: event.summary || "",
+      startTime: event.start?.dateTime || event.start?.date || "",
+      endTime: event.end?.dateTime || event.end?.date || "",
+      meetLink: extractMeetLinkFromEvent(event),
+      organizer: event.organizer
+        ? {
+            email: event.organizer.email || "",
+            displayName: event.organizer.displayName || undefined,
           }
-        }
-      }
-    }
+        : undefined,
+      attendees:
+        event.attendees?.map((attendee) => ({
+          email: attendee.email || "",
+          displayName: attendee.displayName || undefined,
+          responseStatus: attendee.responseStatus || undefined,
+        })) || [],
+    };
+  }
 
-    // descriptionから会議コードを抽出
-    if (event.description) {
-      const meetLinkMatch = event.description.match(
-        /meet\.google\.com\/([a-z\-]+)/i
+  // 会議に対する全予定の採点結果を返す（割り当ては calendar-matcher で行う）
+  private scoreCalendarCandidates(
+    meeting: Meeting,
+    events: CalendarSourceEvent[]
+  ): CalendarMatchCandidate<CalendarSourceEvent>[] {
+    // 会議ファイル名から基本部分を抽出（日時やファイル種別を除去）
+    const cleanMeetingName = extractMeetingBaseName(meeting.name);
+
+    // 会議ファイル名から会議IDやコードを抽出（保存済みのものを優先使用）
+    const meetingIdentifiers =
+      meeting._meetingIdentifiers ||
+      extractMeetingIdentifiers(meeting.name);
+
+    const candidates: CalendarMatchCandidate<CalendarSourceEvent>[] = [];
+    for (const source of events) {
+      const { event } = source;
+      if (!event.id) continue;
+
+      const match = scoreCalendarEvent(
+        meeting,
+        event,
+        meetingIdentifiers,
+        cleanMeetingName
       );
-      if (meetLinkMatch) {
-        return meetLinkMatch[1];
+      if (match.score >= 30) {
+        matcherLog.debug("Potential calendar match", {
+          meetingId: meeting.id,
+          meetingName: meeting.name,
+          eventId: event.id,
+          eventSummary: event.summary,
+          score: match.score,
+          reasons: match.reasons.map((reason) => reason.code),
+        });
       }
+      candidates.push({
+        meetingId: meeting.id,
+        eventId: event.id,
+        event: source,
+        match,
+      });
     }
 
-    return undefined;
+    return candidates;
   }
 
   private extractMeetingMetadataFromFile(file: any): {
@@ -540,39 +1112,6 @@ export class GoogleMeetAPI {
     };
   }
 
-  private extractMeetLinkFromEvent(event: any): string | undefined {
-    // conferenceDataからMeetリンクを取得
-    if (event.conferenceData?.entryPoints) {
-      const meetEntry = event.conferenceData.entryPoints.find(
-        (entry: any) =>
-          entry.entryPointType === "video" &&
-          entry.uri?.includes("meet.google.com")
-      );
-      return meetEntry?.uri;
-    }
-
-    // descriptionからMeetリンクを抽出
-    if (event.description) {
-      const meetLinkMatch = event.description.match(
-        /https:\/\/meet\.google\.com\/[a-z\-]+/
-      );
-      return meetLinkMatch?.[0];
-    }
-
-    return undefined;
-  }
-
-  private hasGoogleMeetLink(event: any): boolean {
-    return !!(
-      event.conferenceData?.entryPoints?.some(
-        (entry: any) =>
-          entry.entryPointType === "video" &&
-          entry.uri?.includes("meet.google.com")
-      ) ||
-      (event.description && event.description.includes("meet.google.com"))
-    );
-  }
-
   private calculateStringSimilarity(str1: string, str2: string): number {
     const words1 = str1.split(/\s+/);
     const words2 = str2.split(/\s+/);
@@ -631,11 +1170,14 @@ export class GoogleMeetAPI {
 
   async getTranscript(meetingId: string): Promise<Transcript | null> {
     try {
-      console.log(`=== Simplified Transcript Search for: ${meetingId} ===`);
-
       // 1回のAPI呼び出しで包括的に検索
       const response = await this.drive.files.list({
-        q: `(name contains 'transcript' OR name contains '文字起こし' OR name contains 'Transcript' OR name contains 'Meeting') AND (mimeType='text/plain' OR mimeType='application/vnd.google-apps.document' OR mimeType='application/vnd.openxmlformats-officedocument.wordprocessingml.document')`,
+        q: renderDriveQuery(
+          and(
+            transcriptNameQuery("Meeting"),
+            mimeTypeIn(TRANSCRIPT_MIME_TYPES)
+          )
+        ),
         spaces: "drive",
         fields:
           "files(id,name,createdTime,modifiedTime,size,webViewLink,mimeType,parents)",
@@ -644,10 +1186,8 @@ export class GoogleMeetAPI {
       });
 
       const files = response.data.files || [];
-      console.log(`Found ${files.length} potential transcript files`);
-
       if (files.length === 0) {
-        console.log("No transcript files found");
+        log.info("No transcript files found", { meetingId });
         return null;
       }
 
@@ -659,21 +1199,18 @@ export class GoogleMeetAPI {
           fields: "id,name,createdTime,parents,mimeType",
         });
         meetingFile = meetingResponse.data;
-        console.log(`Meeting file: ${meetingFile.name}`);
       } catch (error) {
-        console.log(`Meeting file not accessible: ${meetingId}`);
+        log.warn("Meeting file not accessible", { meetingId, error });
       }
 
       // スコアベースで最適なファイルを選択
       const bestFile = this.selectBestTranscriptFile(files, meetingFile);
 
       if (!bestFile) {
-        console.log("No suitable transcript file found");
+        log.info("No suitable transcript file found", { meetingId });
         return null;
       }
 
-      console.log(`Selected transcript: ${bestFile.name} (score-based)`);
-
       // コンテンツを取得
       const content = await this.fetchFileContent(bestFile);
 
@@ -688,11 +1225,48 @@ export class GoogleMeetAPI {
         content: content,
       };
     } catch (error) {
-      console.error("Error fetching transcript:", error);
+      log.error("Error fetching transcript", { meetingId, error });
       throw new Error(
         `Failed to fetch transcript: ${
           error instanceof Error ? error.message : "Unknown error"
-        }`
+        }`,
+        { cause: error }
+      );
+    }
+  }
+
+  // 指定した文字起こしファイルを取得する（ユーザーがアクセスできる文字起こし形式のファイルのみ）
+  async getTranscriptById(
+    meetingId: string,
+    transcriptId: string
+  ): Promise<Transcript | null> {
+    try {
+      const file = await this.getReadableTranscriptFile(transcriptId);
+      if (!file) return null;
+
+      // 会議ファイル情報を取得（スコアリング用）
+      let meetingFile = null;
+      try {
+        const meetingResponse = await this.drive.files.get({
+          fileId: meetingId,
+          fields: "id,name,createdTime,parents,mimeType",
+        });
+        meetingFile = meetingResponse.data;
+      } catch (error) {
+        log.warn("Meeting file not accessible", { meetingId, error });
+      }
+
+      return {
+        ...this.toTranscript(file, meetingFile),
+        content: await this.fetchFileContent(file),
+      };
+    } catch (error) {
+      log.error("Error fetching transcript by ID", { transcriptId, error });
+      throw new Error(
+        `Failed to fetch transcript: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`,
+        { cause: error }
       );
     }
   }
@@ -703,51 +1277,147 @@ export class GoogleMeetAPI {
     // 各ファイルにスコアを付与
     const scoredFiles = files.map((file) => ({
       file,
-      score: this.calculateRelevanceScore(file, meetingFile),
+      score: this.scoreTranscriptFile(file, meetingFile).score,
     }));
 
     // スコアの高い順にソート
     scoredFiles.sort((a, b) => b.score - a.score);
 
-    // デバッグ: 上位5件のスコアを表示
-    console.log("Top transcript candidates:");
-    scoredFiles.slice(0, 5).forEach((item, index) => {
-      console.log(`  ${index + 1}. ${item.file.name} (score: ${item.score})`);
+    matcherLog.debug("Top transcript candidates", {
+      candidates: scoredFiles.slice(0, 5).map((item) => ({
+        id: item.file.id,
+        name: item.file.name,
+        score: item.score,
+      })),
     });
 
     return scoredFiles[0].file;
   }
 
-  private calculateRelevanceScore(file: any, meetingFile: any): number {
-    let score = 0;
+  // ユーザーが読める文字起こし形式のファイルのメタデータ（本文は取得しない）
+  private async getReadableTranscriptFile(
+    transcriptId: string
+  ): Promise<drive_v3.Schema$File | null> {
+    let file: drive_v3.Schema$File;
+    try {
+      const response = await this.drive.files.get({
+        fileId: transcriptId,
+        fields:
+          "id,name,createdTime,modifiedTime,size,webViewLink,mimeType,parents,trashed,ownedByMe,capabilities(canDownload)",
+      });
+      file = response.data;
+    } catch (error) {
+      if (isGoogleAuthError(error)) throw error;
+      log.warn("Transcript file not accessible", { transcriptId, error });
+      return null;
+    }
+
+    if (file.trashed) {
+      log.info("Transcript file is trashed", { transcriptId });
+      return null;
+    }
+    if (!file.mimeType || !TRANSCRIPT_MIME_TYPES.includes(file.mimeType)) {
+      log.info("Unsupported transcript mimeType", {
+        transcriptId,
+        mimeType: file.mimeType,
+      });
+      return null;
+    }
+    if (!file.ownedByMe && !file.capabilities?.canDownload) {
+      log.info("Transcript file is not readable by user", { transcriptId });
+      return null;
+    }
+    return file;
+  }
+
+  private toTranscript(
+    file: drive_v3.Schema$File,
+    meetingFile: drive_v3.Schema$File | null
+  ): Transcript {
+    return {
+      id: file.id || "",
+      name: file.name || "",
+      createdTime: file.createdTime || "",
+      modifiedTime: file.modifiedTime || undefined,
+      size: parseInt(file.size || "0"),
+      webViewLink: file.webViewLink || undefined,
+      downloadLink: `https://drive.google.com/uc?id=${file.id}`,
+      ...this.toTranscriptMatch(file, meetingFile),
+      fetchedAt: this.getFetchedAt(),
+    };
+  }
+
+  private toTranscriptMatch(
+    file: drive_v3.Schema$File,
+    meetingFile: drive_v3.Schema$File | null
+  ): Pick<Transcript, "relevanceScore" | "match"> {
+    const match = this.scoreTranscriptFile(file, meetingFile);
+    return { relevanceScore: match.score, match };
+  }
+
+  // 文字起こし候補と会議ファイルの関連度を根拠付きで採点する
+  private scoreTranscriptFile(
+    file: drive_v3.Schema$File,
+    meetingFile: drive_v3.Schema$File | null
+  ): MatchResult {
+    const reasons: MatchReason[] = [];
     const fileName = (file.name || "").toLowerCase();
 
     // ファイル名による加点
-    if (fileName.includes("transcript")) score += 10;
-    if (fileName.includes("文字起こし")) score += 10;
-    if (fileName.includes("meeting")) score += 5;
+    if (fileName.includes("transcript")) {
+      reasons.push({
+        code: "name_keyword",
+        label: "ファイル名に「transcript」を含む",
+        points: 10,
+      });
+    }
+    if (fileName.includes("文字起こし")) {
+      reasons.push({
+        code: "name_keyword",
+        label: "ファイル名に「文字起こし」を含む",
+        points: 10,
+      });
+    }
+    if (fileName.includes("meeting")) {
+      reasons.push({
+        code: "name_keyword",
+        label: "ファイル名に「meeting」を含む",
+        points: 5,
+      });
+    }
 
     // MIMEタイプによる加点
-    if (file.mimeType === "application/vnd.google-apps.document") score += 3;
-    if (file.mimeType === "text/plain") score += 2;
+    if (file.mimeType === "application/vnd.google-apps.document") {
+      reasons.push({ code: "mime_type", label: "Google ドキュメント", points: 3 });
+    }
+    if (file.mimeType === "text/plain") {
+      reasons.push({ code: "mime_type", label: "テキストファイル", points: 2 });
+    }
 
     // 作成日時による加点（新しいほど高得点、10日以内）
     if (file.createdTime) {
       const daysSinceCreation =
         (Date.now() - new Date(file.createdTime).getTime()) /
         (1000 * 60 * 60 * 24);
-      score += Math.max(0, 10 - daysSinceCreation);
+      if (daysSinceCreation < 10) {
+        reasons.push({
+          code: "recent",
+          label: `${Math.floor(daysSinceCreation)} 日前に作成`,
+          points: 10 - daysSinceCreation,
+        });
+      }
     }
 
     // 会議ファイルとの関連性
     if (meetingFile) {
       // 同じフォルダにある場合は大幅加点
-      if (
-        file.parents &&
-        meetingFile.parents &&
-        file.parents.some((p: string) => meetingFile.parents.includes(p))
-      ) {
-        score += 15;
+      const meetingParents = meetingFile.parents || [];
+      if (file.parents?.some((p) => meetingParents.includes(p))) {
+        reasons.push({
+          code: "same_folder",
+          label: "会議ファイルと同じフォルダ",
+          points: 15,
+        });
       }
 
       // 会議ファイル名との類似性
@@ -757,7 +1427,11 @@ export class GoogleMeetAPI {
           meetingBaseName &&
           fileName.includes(meetingBaseName.toLowerCase())
         ) {
-          score += 8;
+          reasons.push({
+            code: "name_similarity",
+            label: "会議ファイル名を含む",
+            points: 8,
+          });
         }
       }
 
@@ -766,267 +1440,331 @@ export class GoogleMeetAPI {
         const fileDate = new Date(file.createdTime).toDateString();
         const meetingDate = new Date(meetingFile.createdTime).toDateString();
         if (fileDate === meetingDate) {
-          score += 5;
+          reasons.push({
+            code: "same_day",
+            label: "会議と同じ日に作成",
+            points: 5,
+          });
         }
       }
     }
 
-    return score;
+    return createMatchResult(reasons, TRANSCRIPT_MATCH_THRESHOLDS);
   }
 
-  private async fetchFileContent(file: any): Promise<string> {
-    try {
-      console.log(`Fetching content for: ${file.name} (${file.mimeType})`);
+  private async fetchFileContent(file: drive_v3.Schema$File): Promise<string> {
+    const extractor = getContentExtractor(file.mimeType);
+    if (!file.id || !extractor) {
+      log.info("Unsupported file content", {
+        fileId: file.id,
+        mimeType: file.mimeType,
+      });
+      return "";
+    }
 
-      let content = "";
+    // modifiedTime が変わったら取得し直す
+    // （ダウンロードの失敗は呼び出し元に伝え、中身を読み取れない場合だけ空にする）
+    const content = await this.withCache(
+      "file-content",
+      [file.id, extractor.name],
+      FILE_CONTENT_TTL_MS,
+      async () => {
+        const data = await this.downloadFile(
+          file.id!,
+          extractor.exportMimeType
+        );
+        try {
+          const extracted = await extractor.extract({
+            data,
+            mimeType: file.mimeType!,
+            name: file.name || undefined,
+          });
+          return extracted.text;
+        } catch (error) {
+          log.error("Failed to extract file content", {
+            fileId: file.id,
+            extractor: extractor.name,
+            error,
+          });
+          return "";
+        }
+      },
+      file.modifiedTime || undefined
+    );
 
-      if (file.mimeType === "application/vnd.google-apps.document") {
-        // Google Docs の場合は export で取得
-        const exportResponse = await this.drive.files.export({
-          fileId: file.id!,
-          mimeType: "text/plain",
-        });
-        content = exportResponse.data as string;
-      } else {
-        // テキストファイルの場合は直接取得
-        const fileResponse = await this.drive.files.get({
-          fileId: file.id!,
-          alt: "media",
-        });
-        content = fileResponse.data as string;
-      }
+    log.debug("Fetched file content", {
+      fileId: file.id,
+      mimeType: file.mimeType,
+      extractor: extractor.name,
+      characters: content.length,
+    });
 
-      console.log(`Content fetched: ${content.length} characters`);
-      if (content && content.length > 0) {
-        console.log(`Preview: ${content.substring(0, 100)}...`);
-      }
+    return content;
+  }
 
-      return content;
-    } catch (error) {
-      console.error(`Failed to fetch content for ${file.name}:`, error);
-      return "";
-    }
+  // ファイルをバイナリで取得する（exportMimeType があれば Google ドキュメントを書き出す）
+  private async downloadFile(
+    fileId: string,
+    exportMimeType?: string
+  ): Promise<Buffer> {
+    const response = exportMimeType
+      ? await this.drive.files.export(
+          { fileId, mimeType: exportMimeType },
+          { responseType: "arraybuffer" }
+        )
+      : await this.drive.files.get(
+          { fileId, alt: "media" },
+          { responseType: "arraybuffer" }
+        );
+    return Buffer.from(response.data as unknown as ArrayBuffer);
   }
 
-  async getAllTranscripts(meetingId: string): Promise<Transcript[]> {
+  // 複数の検索戦略で文字起こしの候補ファイルを探す
+  private async discoverTranscriptFiles(meetingId: string): Promise<{
+    meetingFile: drive_v3.Schema$File | null;
+    files: drive_v3.Schema$File[];
+  }> {
+    // まず会議ファイルの情報を取得
+    let meetingFile: drive_v3.Schema$File | null = null;
     try {
-      console.log(`=== getAllTranscripts for meeting: ${meetingId} ===`);
+      const meetingResponse = await this.drive.files.get({
+        fileId: meetingId,
+        fields: "id,name,createdTime,parents,mimeType",
+      });
+      meetingFile = meetingResponse.data;
+    } catch (error) {
+      log.warn("Meeting file not found", { meetingId, error });
+    }
 
-      // まず会議ファイルの情報を取得
-      let meetingFile = null;
-      try {
-        const meetingResponse = await this.drive.files.get({
-          fileId: meetingId,
-          fields: "id,name,createdTime,parents,mimeType",
-        });
-        meetingFile = meetingResponse.data;
-        console.log(`Meeting file found:`, {
-          id: meetingFile.id,
-          name: meetingFile.name,
-          mimeType: meetingFile.mimeType,
-          parents: meetingFile.parents,
-          createdTime: meetingFile.createdTime,
-        });
-      } catch (error) {
-        console.log(`Meeting file not found: ${meetingId}`, error);
-      }
+    let allFiles: drive_v3.Schema$File[] = [];
+
+    // 戦略1: 会議ファイルと同じフォルダ内で文字起こしファイルを検索
+    if (
+      meetingFile &&
+      meetingFile.parents &&
+      meetingFile.parents.length > 0
+    ) {
+      const parentFolder = meetingFile.parents[0];
+
+      const folderResponse = await this.drive.files.list({
+        q: renderDriveQuery(
+          and(
+            inParents(parentFolder),
+            or(transcriptNameQuery(), mimeTypeIn(TRANSCRIPT_MIME_TYPES))
+          )
+        ),
+        spaces: "drive",
+        fields:
+          "files(id,name,createdTime,modifiedTime,size,webViewLink,mimeType,parents)",
+        orderBy: "createdTime desc",
+        pageSize: 20,
+      });
 
-      let allFiles: Array<{
-        id?: string | null;
-        name?: string | null;
-        createdTime?: string | null;
-        modifiedTime?: string | null;
-        size?: string | null;
-        webViewLink?: string | null;
-        mimeType?: string | null;
-      }> = [];
-
-      // 戦略1: 会議ファイルと同じフォルダ内で文字起こしファイルを検索
-      if (
-        meetingFile &&
-        meetingFile.parents &&
-        meetingFile.parents.length > 0
-      ) {
-        const parentFolder = meetingFile.parents[0];
+      allFiles = allFiles.concat(folderResponse.data.files || []);
+    }
 
-        const folderResponse = await this.drive.files.list({
-          q: `'${parentFolder}' in parents and (name contains 'transcript' or name contains '文字起こし' or name contains 'Transcript' or mimeType='text/plain' or mimeType='application/vnd.google-apps.document' or mimeType='application/vnd.openxmlformats-officedocument.wordprocessingml.document')`,
-          spaces: "drive",
-          fields:
-            "files(id,name,createdTime,modifiedTime,size,webViewLink,mimeType)",
-          orderBy: "createdTime desc",
-          pageSize: 20,
-        });
+    // 戦略2: 会議ファイル名に基づく類似名検索
+    if (meetingFile) {
+      const meetingBaseName = this.extractBaseName(meetingFile.name || "");
+
+      const nameResponse = await this.drive.files.list({
+        q: renderDriveQuery(
+          and(
+            or(
+              meetingBaseName && nameContains(meetingBaseName),
+              nameContains("transcript"),
+              nameContains("文字起こし")
+            ),
+            mimeTypeIn(TRANSCRIPT_MIME_TYPES)
+          )
+        ),
+        spaces: "drive",
+        fields:
+          "files(id,name,createdTime,modifiedTime,size,webViewLink,mimeType,parents)",
+        orderBy: "createdTime desc",
+        pageSize: 20,
+      });
 
-        allFiles = allFiles.concat(folderResponse.data.files || []);
-      }
+      allFiles = allFiles.concat(nameResponse.data.files || []);
+    }
 
-      // 戦略2: 会議ファイル名に基づく類似名検索
-      if (meetingFile) {
-        const meetingBaseName = this.extractBaseName(meetingFile.name || "");
+    // 戦略3: フォールバック - 全体検索
+    if (allFiles.length === 0) {
+      matcherLog.debug(
+        "No files found in folder/name search, trying global search"
+      );
+      const globalResponse = await this.drive.files.list({
+        q: renderDriveQuery(
+          and(transcriptNameQuery(), mimeTypeIn(TRANSCRIPT_MIME_TYPES))
+        ),
+        spaces: "drive",
+        fields:
+          "files(id,name,createdTime,modifiedTime,size,webViewLink,mimeType,parents)",
+        orderBy: "createdTime desc",
+        pageSize: 20,
+      });
 
-        const nameResponse = await this.drive.files.list({
-          q: `(name contains '${meetingBaseName}' or name contains 'transcript' or name contains '文字起こし') and (mimeType='text/plain' or mimeType='application/vnd.google-apps.document' or mimeType='application/vnd.openxmlformats-officedocument.wordprocessingml.document')`,
-          spaces: "drive",
-          fields:
-            "files(id,name,createdTime,modifiedTime,size,webViewLink,mimeType)",
-          orderBy: "createdTime desc",
-          pageSize: 20,
-        });
+      allFiles = globalResponse.data.files || [];
+      matcherLog.debug("Global transcript search", { count: allFiles.length });
+    }
 
-        allFiles = allFiles.concat(nameResponse.data.files || []);
-      }
+    // 戦略4: より広範囲な検索（mimeTypeの制限を緩和）
+    if (allFiles.length === 0) {
+      matcherLog.debug("No files found in global search, trying broader search");
+      const broadResponse = await this.drive.files.list({
+        q: renderDriveQuery(transcriptNameQuery("Meeting", "meet")),
+        spaces: "drive",
+        fields:
+          "files(id,name,createdTime,modifiedTime,size,webViewLink,mimeType,parents)",
+        orderBy: "createdTime desc",
+        pageSize: 50,
+      });
 
-      // 戦略3: フォールバック - 全体検索
-      if (allFiles.length === 0) {
-        console.log(
-          "No files found in folder/name search, trying global search"
-        );
-        const globalResponse = await this.drive.files.list({
-          q: `(name contains 'transcript' or name contains '文字起こし' or name contains 'Transcript') and (mimeType='text/plain' or mimeType='application/vnd.google-apps.document' or mimeType='application/vnd.openxmlformats-officedocument.wordprocessingml.document')`,
-          spaces: "drive",
-          fields:
-            "files(id,name,createdTime,modifiedTime,size,webViewLink,mimeType)",
-          orderBy: "createdTime desc",
-          pageSize: 20,
-        });
+      const broadFiles = broadResponse.data.files || [];
+
+      // 文字起こしらしいファイルをフィルタリング
+      allFiles = broadFiles.filter(
+        (file) =>
+          file.name &&
+          (file.name.toLowerCase().includes("transcript") ||
+            file.name.includes("文字起こし") ||
+            (file.name.toLowerCase().includes("meeting") &&
+              !!file.mimeType &&
+              TRANSCRIPT_MIME_TYPES.includes(file.mimeType)))
+      );
+      matcherLog.debug("Broad transcript search", {
+        count: broadFiles.length,
+        transcriptLike: allFiles.length,
+      });
+    }
 
-        allFiles = globalResponse.data.files || [];
-        console.log(`Global search found ${allFiles.length} files`);
-      }
+    // 重複を除去し、会議ファイルの作成日時に近い順にソート
+    const uniqueFiles = allFiles.filter(
+      (file, index, self) => self.findIndex((f) => f.id === file.id) === index
+    );
 
-      // 戦略4: より広範囲な検索（mimeTypeの制限を緩和）
-      if (allFiles.length === 0) {
-        console.log("No files found in global search, trying broader search");
-        const broadResponse = await this.drive.files.list({
-          q: `name contains 'transcript' or name contains '文字起こし' or name contains 'Transcript' or name contains 'Meeting' or name contains 'meet'`,
-          spaces: "drive",
-          fields:
-            "files(id,name,createdTime,modifiedTime,size,webViewLink,mimeType)",
-          orderBy: "createdTime desc",
-          pageSize: 50,
-        });
+    if (meetingFile && meetingFile.createdTime) {
+      const meetingTime = new Date(meetingFile.createdTime).getTime();
+      uniqueFiles.sort((a, b) => {
+        const aTime = a.createdTime ? new Date(a.createdTime).getTime() : 0;
+        const bTime = b.createdTime ? new Date(b.createdTime).getTime() : 0;
+        return Math.abs(aTime - meetingTime) - Math.abs(bTime - meetingTime);
+      });
+    }
 
-        const broadFiles = broadResponse.data.files || [];
-        console.log(`Broad search found ${broadFiles.length} files`);
-
-        // 文字起こしらしいファイルをフィルタリング
-        allFiles = broadFiles.filter(
-          (file) =>
-            file.name &&
-            (file.name.toLowerCase().includes("transcript") ||
-              file.name.includes("文字起こし") ||
-              (file.name.toLowerCase().includes("meeting") &&
-                (file.mimeType === "text/plain" ||
-                  file.mimeType === "application/vnd.google-apps.document" ||
-                  file.mimeType ===
-                    "application/vnd.openxmlformats-officedocument.wordprocessingml.document")))
-        );
-        console.log(`Filtered to ${allFiles.length} transcript-like files`);
-      }
+    return { meetingFile, files: uniqueFiles };
+  }
 
-      // 重複を除去し、会議ファイルの作成日時に近い順にソート
-      const uniqueFiles = allFiles.filter(
-        (file, index, self) => self.findIndex((f) => f.id === file.id) === index
+  // 文字起こしの候補を本文なしで返す（手動で固定されたものが先頭）
+  async listTranscriptFiles(meetingId: string): Promise<Transcript[]> {
+    try {
+      const candidates = await this.findTranscriptCandidates(meetingId);
+      return candidates.map(({ transcript }) => transcript);
+    } catch (error) {
+      log.error("Error listing transcript files", { meetingId, error });
+      throw new Error(
+        `Failed to list transcripts: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`,
+        { cause: error }
       );
+    }
+  }
 
-      if (meetingFile && meetingFile.createdTime) {
-        const meetingTime = new Date(meetingFile.createdTime).getTime();
-        uniqueFiles.sort((a, b) => {
-          const aTime = a.createdTime ? new Date(a.createdTime).getTime() : 0;
-          const bTime = b.createdTime ? new Date(b.createdTime).getTime() : 0;
-          return Math.abs(aTime - meetingTime) - Math.abs(bTime - meetingTime);
-        });
-      }
-
-      const results: Transcript[] = [];
-      for (const [index, file] of uniqueFiles.slice(0, 10).entries()) {
-        // 最大10件に制限
-        let content = undefined;
-
-        // 最初のファイルのコンテンツを取得
-        if (index === 0 && file.id) {
-          try {
-            console.log(`Fetching content for first transcript: ${file.name}`);
-            if (file.mimeType === "application/vnd.google-apps.document") {
-              const exportResponse = await this.drive.files.export({
-                fileId: file.id,
-                mimeType: "text/plain",
-              });
-              content = exportResponse.data as string;
-            } else {
-              const fileResponse = await this.drive.files.get({
-                fileId: file.id,
-                alt: "media",
-              });
-              content = fileResponse.data as string;
-            }
-            console.log(`Content fetched: ${content?.length || 0} characters`);
-          } catch (contentError) {
-            console.error(
-              `Failed to fetch content for ${file.name}:`,
-              contentError
-            );
-          }
-        }
-
-        results.push({
-          id: file.id || "",
-          name: file.name || "",
-          createdTime: file.createdTime || "",
-          modifiedTime: file.modifiedTime || undefined,
-          size: parseInt(file.size || "0"),
-          webViewLink: file.webViewLink || undefined,
-          downloadLink: `https://drive.google.com/uc?id=${file.id}`,
-          content: content,
-        });
-      }
-
-      console.log(`Found ${results.length} transcript files for meeting:`);
-      results.forEach((result, index) => {
-        console.log(
-          `  ${index + 1}. ${result.name} (${result.id}) - ${
-            result.createdTime
-          }`
+  // 文字起こしの候補を返す（本文は先頭の1件のみ取得する）
+  async getAllTranscripts(meetingId: string): Promise<Transcript[]> {
+    try {
+      const candidates = await this.findTranscriptCandidates(meetingId);
+      if (candidates.length > 0) {
+        candidates[0].transcript.content = await this.fetchFileContent(
+          candidates[0].file
         );
-      });
-
-      return results;
+      }
+      return candidates.map(({ transcript }) => transcript);
     } catch (error) {
-      console.error("Error fetching all transcripts:", error);
+      log.error("Error fetching all transcripts", { meetingId, error });
       throw new Error(
         `Failed to fetch transcripts: ${
           error instanceof Error ? error.message : "Unknown error"
-        }`
+        }`,
+        { cause: error }
       );
     }
   }
 
-  // 文字起こしテキストを解析してエントリに分割
-  parseTranscriptContent(content: string): TranscriptEntry[] {
-    if (!content) return [];
+  private async findTranscriptCandidates(
+    meetingId: string
+  ): Promise<Array<{ file: drive_v3.Schema$File; transcript: Transcript }>> {
+    // 候補の検索（最大4回の Drive クエリ）はキャッシュする
+    const { meetingFile, files } = await this.withCache(
+      "transcript-candidates",
+      [meetingId],
+      TRANSCRIPT_CANDIDATES_TTL_MS,
+      () => this.discoverTranscriptFiles(meetingId)
+    );
 
-    const lines = content.split("\n").filter((line) => line.trim());
-    const entries: TranscriptEntry[] = [];
+    // 手動で固定された文字起こしはスコアリングより優先する
+    const pinnedTranscriptId = (await this.getPins())[meetingId]
+      ?.transcriptId;
+    const pinnedFile = pinnedTranscriptId
+      ? await this.getReadableTranscriptFile(pinnedTranscriptId)
+      : null;
+
+    const candidates = [
+      ...(pinnedFile ? [pinnedFile] : []),
+      // 最大10件に制限
+      ...files.slice(0, 10).filter((file) => file.id !== pinnedFile?.id),
+    ].map((file) => ({
+      file,
+      transcript: {
+        ...this.toTranscript(file, meetingFile),
+        ...(file === pinnedFile && { pinned: true }),
+      },
+    }));
 
-    for (const line of lines) {
-      // タイムスタンプのパターンを探す
-      const timestampMatch = line.match(
-        /^\[?(\d{1,2}:\d{2}(?::\d{2})?)\]?\s*(.+)$/
-      );
+    log.info("Found transcript files", {
+      meetingId,
+      count: candidates.length,
+      pinned: !!pinnedFile,
+    });
+    return candidates;
+  }
 
-      if (timestampMatch) {
-        entries.push({
-          text: timestampMatch[2].trim(),
-          timestamp: timestampMatch[1],
-        });
-      } else if (line.trim()) {
-        entries.push({
-          text: line.trim(),
-        });
-      }
+  // ユーザー別にキャッシュする（ユーザーキーがない場合はキャッシュしない）
+  private async withCache<T>(
+    kind: string,
+    keyParts: unknown[],
+    ttlMs: number,
+    loader: () => Promise<T>,
+    version?: string
+  ): Promise<T> {
+    if (!this.userKey) {
+      this.recordFetchedAt(Date.now());
+      return loader();
+    }
+
+    const result = await cached(
+      userCacheKey(this.userKey, kind, keyParts),
+      loader,
+      { ttlMs, version, forceRefresh: this.forceRefresh }
+    );
+    this.recordFetchedAt(result.fetchedAt);
+    return result.value;
+  }
+
+  private recordFetchedAt(fetchedAt: number): void {
+    if (!this.oldestFetchedAt || fetchedAt < this.oldestFetchedAt) {
+      this.oldestFetchedAt = fetchedAt;
     }
+  }
 
-    return entries;
+  // これまでに返したデータのうち最も古い取得時刻
+  getFetchedAt(): string {
+    return new Date(this.oldestFetchedAt ?? Date.now()).toISOString();
+  }
+
+  // 文字起こしテキストを解析してエントリに分割
+  parseTranscriptContent(content: string): TranscriptEntry[] {
+    return parseTranscript(content).entries;
   }
 }
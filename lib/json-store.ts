@@ -0,0 +1,60 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+// ローカルの JSON ファイルにユーザー別のデータを保存する簡易ストア
+export interface JsonStore<T> {
+  read(): Promise<T>;
+  // 読み込み→更新→書き込みを同一プロセス内で直列に実行する
+  update<R>(updater: (data: T) => R | Promise<R>): Promise<R>;
+  // 内容を丸ごと置き換える
+  replace(data: T): Promise<void>;
+}
+
+export function getDataDirectory(): string {
+  return process.env.DATA_DIR || path.join(process.cwd(), ".data");
+}
+
+export function createJsonStore<T>(
+  filePath: string,
+  createEmpty: () => T
+): JsonStore<T> {
+  let writeQueue: Promise<unknown> = Promise.resolve();
+
+  const read = async (): Promise<T> => {
+    try {
+      const raw = await fs.readFile(filePath, "utf8");
+      return JSON.parse(raw) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return createEmpty();
+      }
+      throw error;
+    }
+  };
+
+  const write = async (data: T): Promise<void> => {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    // 途中で落ちてもファイルが壊れないよう一時ファイル経由で置き換える
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(data, null, 2), "utf8");
+    await fs.rename(tempPath, filePath);
+  };
+
+  const enqueue = <R>(job: () => Promise<R>): Promise<R> => {
+    const task = writeQueue.then(job);
+    writeQueue = task.catch(() => undefined);
+    return task;
+  };
+
+  const update = <R>(updater: (data: T) => R | Promise<R>): Promise<R> =>
+    enqueue(async () => {
+      const data = await read();
+      const result = await updater(data);
+      await write(data);
+      return result;
+    });
+
+  const replace = (data: T): Promise<void> => enqueue(() => write(data));
+
+  return { read, update, replace };
+}
@@ -0,0 +1,190 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { randomUUID } from "crypto";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  // スコープや固定の項目を付けたロガーを作る
+  child(bindings: LogFields): Logger;
+  isDebugEnabled(): boolean;
+}
+
+const LEVELS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+// 値を伏せる項目（アクセストークン・Cookie など）
+const SECRET_KEY_PATTERN =
+  /token|authorization|secret|password|cookie|credential|session/i;
+// 文字起こし本文などの会議内容（LOG_CONTENT=1 のときだけ出力する）
+const CONTENT_KEY_PATTERN = /^(content|text|preview|snippet|entries|body)$/i;
+// メッセージ中に紛れたトークン
+const TOKEN_VALUE_PATTERN = /\b(ya29\.[\w-]+|1\/\/[\w-]{20,}|Bearer\s+[\w.-]+)/g;
+
+const MAX_DEPTH = 4;
+
+const requestContext = new AsyncLocalStorage<{ requestId: string }>();
+
+function parseLevel(value: string | undefined): LogLevel {
+  return value && value in LEVELS ? (value as LogLevel) : "info";
+}
+
+// LOG_DEBUG=matcher,drive のように、スコープ単位で debug を有効にする
+function getDebugScopes(): string[] {
+  return (process.env.LOG_DEBUG || "")
+    .split(",")
+    .map((scope) => scope.trim())
+    .filter(Boolean);
+}
+
+function redactString(value: string): string {
+  return value.replace(TOKEN_VALUE_PATTERN, "[REDACTED]");
+}
+
+// Error は名前・メッセージ・ステータスだけを残す（gaxios のエラーはリクエストヘッダーを含むため）
+function serializeError(error: Error): LogFields {
+  const { status, code, reason } = error as Error & {
+    status?: unknown;
+    code?: unknown;
+    reason?: unknown;
+  };
+  const cause = (error as { cause?: unknown }).cause;
+  return {
+    name: error.name,
+    message: redactString(error.message),
+    ...(status !== undefined && { status }),
+    ...(code !== undefined && { code }),
+    ...(reason !== undefined && { reason }),
+    ...(cause instanceof Error && { cause: serializeError(cause) }),
+  };
+}
+
+export function redact(value: unknown, key = "", depth = 0): unknown {
+  if (value === null || value === undefined) return value;
+  if (SECRET_KEY_PATTERN.test(key)) return "[REDACTED]";
+  if (CONTENT_KEY_PATTERN.test(key) && process.env.LOG_CONTENT !== "1") {
+    const size =
+      typeof value === "string"
+        ? `${value.length} chars`
+        : Array.isArray(value)
+          ? `${value.length} items`
+          : "object";
+    return `[REDACTED ${size}]`;
+  }
+
+  if (value instanceof Error) return serializeError(value);
+  if (typeof value === "string") return redactString(value);
+  if (typeof value !== "object") return value;
+  if (depth >= MAX_DEPTH) return "[Object]";
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, "", depth + 1));
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([childKey, childValue]) => [
+      childKey,
+      redact(childValue, childKey, depth + 1),
+    ])
+  );
+}
+
+// 1行のテキスト形式。見出し以外の項目（error など）は末尾に JSON で付ける
+function formatText(record: LogFields): string {
+  const { time, level, scope, msg, requestId, ...fields } = record;
+  return `${time} ${String(level).toUpperCase()} ${
+    scope ? `[${scope}] ` : ""
+  }${msg}${requestId ? ` (${requestId})` : ""}${
+    Object.keys(fields).length > 0 ? ` ${JSON.stringify(fields)}` : ""
+  }`;
+}
+
+function write(level: LogLevel, record: LogFields): void {
+  const output =
+    process.env.LOG_FORMAT === "text"
+      ? formatText(record)
+      : JSON.stringify(record);
+
+  if (level === "error") {
+    console.error(output);
+  } else if (level === "warn") {
+    console.warn(output);
+  } else {
+    console.log(output);
+  }
+}
+
+export function createLogger(bindings: LogFields = {}): Logger {
+  const isEnabled = (level: LogLevel) => {
+    if (
+      level === "debug" &&
+      typeof bindings.scope === "string" &&
+      getDebugScopes().includes(bindings.scope)
+    ) {
+      return true;
+    }
+    return LEVELS[level] >= LEVELS[parseLevel(process.env.LOG_LEVEL)];
+  };
+
+  const log = (level: LogLevel, message: string, fields: LogFields = {}) => {
+    if (!isEnabled(level)) return;
+
+    const requestId = requestContext.getStore()?.requestId;
+    write(level, {
+      time: new Date().toISOString(),
+      level,
+      ...(requestId && { requestId }),
+      ...(redact({ ...bindings, ...fields }) as LogFields),
+      msg: redactString(message),
+    });
+  };
+
+  return {
+    debug: (message, fields) => log("debug", message, fields),
+    info: (message, fields) => log("info", message, fields),
+    warn: (message, fields) => log("warn", message, fields),
+    error: (message, fields) => log("error", message, fields),
+    child: (childBindings) => createLogger({ ...bindings, ...childBindings }),
+    isDebugEnabled: () => isEnabled("debug"),
+  };
+}
+
+export const logger = createLogger();
+
+export function getLogger(scope: string): Logger {
+  return logger.child({ scope });
+}
+
+export function getRequestId(): string | undefined {
+  return requestContext.getStore()?.requestId;
+}
+
+// API ルートのハンドラーをリクエスト ID 付きで実行し、応答ヘッダーにも付ける
+export function withRequestLogging<A extends unknown[]>(
+  handler: (...args: A) => Promise<Response>
+): (...args: A) => Promise<Response> {
+  return (...args: A) => {
+    const request = args[0] instanceof Request ? args[0] : undefined;
+    const requestId = request?.headers.get("x-request-id") || randomUUID();
+
+    return requestContext.run({ requestId }, async () => {
+      const startedAt = Date.now();
+      const response = await handler(...args);
+      logger.info("Request completed", {
+        method: request?.method,
+        path: request ? new URL(request.url).pathname : undefined,
+        status: response.status,
+        durationMs: Date.now() - startedAt,
+      });
+      response.headers.set("x-request-id", requestId);
+      return response;
+    });
+  };
+}
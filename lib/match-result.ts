@@ -0,0 +1,22 @@
+import type {
+  MatchConfidence,
+  MatchReason,
+  MatchResult,
+} from "./google-meet-api";
+
+// スコアの内訳から照合結果を作る（閾値以上で信頼度 high / medium）
+export function createMatchResult(
+  reasons: MatchReason[],
+  thresholds: { high: number; medium: number }
+): MatchResult {
+  const score = Math.round(
+    reasons.reduce((total, reason) => total + reason.points, 0)
+  );
+  const confidence: MatchConfidence =
+    score >= thresholds.high
+      ? "high"
+      : score >= thresholds.medium
+        ? "medium"
+        : "low";
+  return { score, confidence, reasons };
+}
@@ -0,0 +1,424 @@
+import { google, meet_v2 } from "googleapis";
+import {
+  Meeting,
+  MeetingListOptions,
+  MeetingPage,
+  Transcript,
+  TranscriptEntry,
+  DEFAULT_MEETING_PAGE_SIZE,
+  MAX_MEETING_PAGE_SIZE,
+} from "./google-meet-api";
+import { createMatchResult } from "./match-result";
+import { formatMsAsTimestamp } from "./transcript-parser";
+import { createGoogleAuth } from "./google-client";
+import { getLogger } from "./logger";
+
+const log = getLogger("meet");
+
+export interface MeetRestAPIOptions {
+  // モックサーバー等に向ける場合の API ルート URL（例: http://localhost:4010/）
+  rootUrl?: string;
+  // 同時実行数の制限に使うユーザーのキー
+  userKey?: string;
+}
+
+export interface MeetParticipant {
+  name: string;
+  displayName: string;
+  kind: "signedin" | "anonymous" | "phone" | "unknown";
+  user?: string;
+  earliestStartTime?: string;
+  latestEndTime?: string;
+}
+
+export interface MeetRecording {
+  name: string;
+  state?: string;
+  startTime?: string;
+  endTime?: string;
+  driveFileId?: string;
+  exportUri?: string;
+}
+
+// Google Meet REST API（conferenceRecords / participants / recordings / transcripts）のラッパー
+export class MeetRestAPI {
+  private auth: InstanceType<typeof google.auth.OAuth2>;
+  private meet: meet_v2.Meet;
+
+  constructor(accessToken: string, options: MeetRestAPIOptions = {}) {
+    this.auth = createGoogleAuth(accessToken, { userKey: options.userKey });
+    this.meet = google.meet({
+      version: "v2",
+      auth: this.auth,
+      rootUrl: options.rootUrl || process.env.GOOGLE_MEET_API_ROOT_URL,
+    });
+  }
+
+  async listConferenceRecords(
+    options: MeetingListOptions = {}
+  ): Promise<MeetingPage> {
+    log.debug("Fetching conference records from Google Meet API");
+
+    const pageSize = Math.min(
+      Math.max(options.pageSize || DEFAULT_MEETING_PAGE_SIZE, 1),
+      MAX_MEETING_PAGE_SIZE
+    );
+    const query = options.query?.trim().toLowerCase();
+    const filter = this.buildConferenceRecordFilter(options);
+    const meetings: Meeting[] = [];
+    let pageToken = options.cursor || undefined;
+
+    // 検索語は取得後に絞り込むため、ページが埋まるか末尾に達するまで続けて取得する
+    do {
+      const response = await this.meet.conferenceRecords.list({
+        filter,
+        pageSize,
+        pageToken,
+      });
+
+      const records = response.data.conferenceRecords || [];
+      log.info("Fetched conference records", { count: records.length });
+
+      // スペース情報（会議コード）は記録ごとに並行取得する
+      const page = await Promise.all(
+        records.map(async (record) => {
+          const space = await this.getSpace(record.space || undefined);
+          return this.toMeeting(record, space);
+        })
+      );
+
+      meetings.push(
+        ...(query
+          ? page.filter(
+              (meeting) =>
+                meeting.name.toLowerCase().includes(query) ||
+                meeting.meetingCode?.toLowerCase().includes(query)
+            )
+          : page)
+      );
+      pageToken = response.data.nextPageToken || undefined;
+    } while (query && pageToken && meetings.length < pageSize);
+
+    return {
+      meetings,
+      nextCursor: pageToken,
+      source: "meet",
+    };
+  }
+
+  async getConferenceRecord(recordId: string): Promise<Meeting | null> {
+    try {
+      const response = await this.meet.conferenceRecords.get({
+        name: this.toRecordName(recordId),
+      });
+      const space = await this.getSpace(response.data.space || undefined);
+      return this.toMeeting(response.data, space);
+    } catch (error) {
+      if (this.getStatus(error) === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async listParticipants(recordId: string): Promise<MeetParticipant[]> {
+    const participants: MeetParticipant[] = [];
+    let pageToken: string | undefined;
+
+    do {
+      const response = await this.meet.conferenceRecords.participants.list({
+        parent: this.toRecordName(recordId),
+        pageSize: 250,
+        pageToken,
+      });
+
+      for (const participant of response.data.participants || []) {
+        participants.push(this.toParticipant(participant));
+      }
+      pageToken = response.data.nextPageToken || undefined;
+    } while (pageToken);
+
+    return participants;
+  }
+
+  async listRecordings(recordId: string): Promise<MeetRecording[]> {
+    const recordings: MeetRecording[] = [];
+    let pageToken: string | undefined;
+
+    do {
+      const response = await this.meet.conferenceRecords.recordings.list({
+        parent: this.toRecordName(recordId),
+        pageToken,
+      });
+
+      for (const recording of response.data.recordings || []) {
+        recordings.push({
+          name: recording.name || "",
+          state: recording.state || undefined,
+          startTime: recording.startTime || undefined,
+          endTime: recording.endTime || undefined,
+          driveFileId: recording.driveDestination?.file || undefined,
+          exportUri: recording.driveDestination?.exportUri || undefined,
+        });
+      }
+      pageToken = response.data.nextPageToken || undefined;
+    } while (pageToken);
+
+    return recordings;
+  }
+
+  async listTranscripts(recordId: string): Promise<Transcript[]> {
+    const transcripts: Transcript[] = [];
+    let pageToken: string | undefined;
+
+    do {
+      const response = await this.meet.conferenceRecords.transcripts.list({
+        parent: this.toRecordName(recordId),
+        pageToken,
+      });
+
+      for (const transcript of response.data.transcripts || []) {
+        transcripts.push(this.toTranscript(transcript));
+      }
+      pageToken = response.data.nextPageToken || undefined;
+    } while (pageToken);
+
+    return transcripts;
+  }
+
+  async listTranscriptEntries(
+    transcriptName: string,
+    participants: MeetParticipant[] = []
+  ): Promise<TranscriptEntry[]> {
+    const speakerNames = new Map(
+      participants.map((participant) => [
+        participant.name,
+        participant.displayName,
+      ])
+    );
+    const entries: TranscriptEntry[] = [];
+    let pageToken: string | undefined;
+
+    do {
+      const response =
+        await this.meet.conferenceRecords.transcripts.entries.list({
+          parent: transcriptName,
+          pageSize: 100,
+          pageToken,
+        });
+
+      for (const entry of response.data.transcriptEntries || []) {
+        entries.push({
+          index: entries.length,
+          text: entry.text || "",
+          speaker: entry.participant
+            ? speakerNames.get(entry.participant) || undefined
+            : undefined,
+          startTime: entry.startTime || undefined,
+          endTime: entry.endTime || undefined,
+        });
+      }
+      pageToken = response.data.nextPageToken || undefined;
+    } while (pageToken);
+
+    // 最初の発話を起点としたオフセットを付与する
+    const origin = entries.find((entry) => entry.startTime)?.startTime;
+    if (origin) {
+      const originMs = new Date(origin).getTime();
+      for (const entry of entries) {
+        if (entry.startTime) {
+          entry.startMs = new Date(entry.startTime).getTime() - originMs;
+          entry.timestamp = formatMsAsTimestamp(entry.startMs);
+        }
+        if (entry.endTime) {
+          entry.endMs = new Date(entry.endTime).getTime() - originMs;
+        }
+      }
+    }
+
+    return entries;
+  }
+
+  // 会議記録の文字起こしを取得し、選択した1件（省略時は先頭）に構造化エントリと本文を付与する
+  async getTranscriptsWithEntries(
+    recordId: string,
+    transcriptId?: string
+  ): Promise<Transcript[]> {
+    const [transcripts, participants] = await Promise.all([
+      this.listTranscripts(recordId),
+      this.listParticipants(recordId),
+    ]);
+    log.debug("Fetched transcripts and participants", {
+      transcripts: transcripts.length,
+      participants: participants.length,
+    });
+
+    const selectedId = transcriptId || transcripts[0]?.id;
+    const results: Transcript[] = [];
+    for (const transcript of transcripts) {
+      // エントリ取得は選択した文字起こしのみ（Drive 版の getAllTranscripts と同様）
+      if (transcript.id === selectedId && transcript.conferenceRecord) {
+        const entries = await this.listTranscriptEntries(
+          `${transcript.conferenceRecord}/transcripts/${transcript.id}`,
+          participants
+        );
+        results.push({
+          ...transcript,
+          entries,
+          content: entries
+            .map((entry) =>
+              entry.speaker ? `${entry.speaker}: ${entry.text}` : entry.text
+            )
+            .join("\n"),
+        });
+      } else {
+        results.push(transcript);
+      }
+    }
+
+    return results;
+  }
+
+  private async getSpace(
+    spaceName?: string
+  ): Promise<meet_v2.Schema$Space | null> {
+    if (!spaceName) return null;
+
+    try {
+      const response = await this.meet.spaces.get({ name: spaceName });
+      return response.data;
+    } catch (error) {
+      // スペースは削除・権限不足で取得できない場合がある
+      log.warn("Space not accessible", {
+        spaceName,
+        status: this.getStatus(error),
+      });
+      return null;
+    }
+  }
+
+  private buildConferenceRecordFilter(
+    options: MeetingListOptions
+  ): string | undefined {
+    const clauses: string[] = [];
+
+    if (options.createdFrom) {
+      clauses.push(
+        `start_time>="${new Date(options.createdFrom).toISOString()}"`
+      );
+    }
+    if (options.createdTo) {
+      clauses.push(`start_time<="${new Date(options.createdTo).toISOString()}"`);
+    }
+
+    return clauses.length > 0 ? clauses.join(" AND ") : undefined;
+  }
+
+  private toMeeting(
+    record: meet_v2.Schema$ConferenceRecord,
+    space: meet_v2.Schema$Space | null
+  ): Meeting {
+    const recordName = record.name || "";
+    const recordId = recordName.replace(/^conferenceRecords\//, "");
+    const meetingCode = space?.meetingCode || undefined;
+    const startTime = record.startTime || "";
+
+    return {
+      id: recordId,
+      name: meetingCode ? `Google Meet ${meetingCode}` : "Google Meet 会議",
+      createdTime: startTime,
+      webViewLink: space?.meetingUri || undefined,
+      meetingCode,
+      source: "meet",
+      conferenceRecord: recordName,
+      space: record.space || undefined,
+      startTime: startTime || undefined,
+      endTime: record.endTime || undefined,
+      _meetingIdentifiers: {
+        meetingCode,
+        conferenceId: recordId,
+      },
+    };
+  }
+
+  private toTranscript(transcript: meet_v2.Schema$Transcript): Transcript {
+    const transcriptName = transcript.name || "";
+    const [recordPath, transcriptId] = transcriptName.split("/transcripts/");
+    const startTime = transcript.startTime || "";
+
+    return {
+      id: transcriptId || transcriptName,
+      name: transcript.startTime
+        ? `文字起こし (${new Date(transcript.startTime).toLocaleString("ja-JP")})`
+        : "文字起こし",
+      createdTime: startTime,
+      webViewLink: transcript.docsDestination?.exportUri || undefined,
+      source: "meet",
+      conferenceRecord: recordPath,
+      startTime: startTime || undefined,
+      endTime: transcript.endTime || undefined,
+      fetchedAt: new Date().toISOString(),
+      // 会議記録に直接紐付いているため推測を含まない
+      match: createMatchResult(
+        [
+          {
+            code: "conference_record",
+            label: "会議記録に紐付いた文字起こし",
+            points: 100,
+          },
+        ],
+        { high: 100, medium: 100 }
+      ),
+    };
+  }
+
+  private toParticipant(
+    participant: meet_v2.Schema$Participant
+  ): MeetParticipant {
+    const base = {
+      name: participant.name || "",
+      earliestStartTime: participant.earliestStartTime || undefined,
+      latestEndTime: participant.latestEndTime || undefined,
+    };
+
+    if (participant.signedinUser) {
+      return {
+        ...base,
+        kind: "signedin",
+        displayName: participant.signedinUser.displayName || "参加者",
+        user: participant.signedinUser.user || undefined,
+      };
+    }
+    if (participant.anonymousUser) {
+      return {
+        ...base,
+        kind: "anonymous",
+        displayName: participant.anonymousUser.displayName || "匿名ユーザー",
+      };
+    }
+    if (participant.phoneUser) {
+      return {
+        ...base,
+        kind: "phone",
+        displayName: participant.phoneUser.displayName || "電話参加者",
+      };
+    }
+    return { ...base, kind: "unknown", displayName: "参加者" };
+  }
+
+  private toRecordName(recordId: string): string {
+    return recordId.startsWith("conferenceRecords/")
+      ? recordId
+      : `conferenceRecords/${recordId}`;
+  }
+
+  private getStatus(error: unknown): number | undefined {
+    if (error && typeof error === "object") {
+      const status =
+        (error as { status?: unknown }).status ??
+        (error as { code?: unknown }).code;
+      if (typeof status === "number") return status;
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,161 @@
+import type { drive_v3 } from "googleapis";
+import type {
+  Meeting,
+  MeetingCalendarEvent,
+  Transcript,
+} from "./google-meet-api";
+import { GOOGLE_DOC_MIME_TYPE } from "./content-extractors";
+
+export type MeetingArtifactKind = "notes" | "transcript" | "recording" | "chat";
+
+// 会議で作成された Drive 上のファイル（本文は含めない）
+export interface MeetingArtifact {
+  kind: MeetingArtifactKind;
+  id: string;
+  name: string;
+  mimeType?: string;
+  createdTime?: string;
+  modifiedTime?: string;
+  size?: number;
+  webViewLink?: string;
+}
+
+// 1回の会議に属するファイルと、紐付いたカレンダー予定
+export interface MeetingBundle {
+  meeting: Meeting;
+  calendarEvent?: MeetingCalendarEvent;
+  notes: MeetingArtifact | null;
+  transcript: MeetingArtifact | null;
+  recording: MeetingArtifact | null;
+  chat: MeetingArtifact | null;
+}
+
+// 「2025/08/25 13:58 JST」「(2025-08-25 13:58 GMT+09:00)」形式の日時
+const SESSION_DATE_TIME =
+  /[(（]?\s*(\d{4})[\/-](\d{1,2})[\/-](\d{1,2})\s+(\d{1,2}):(\d{2})(?:\s*(JST|GMT[+-]?[\d:]*|UTC))?\s*[)）]?/;
+// Meet が付けるファイル種別の接尾辞（～Chat / ～Recording / ～Gemini によるメモ）
+const ARTIFACT_SUFFIX =
+  /[～~]\s*(Chat|Recording|Transcript|Gemini によるメモ|Notes by Gemini).*$/i;
+const NOTES_NAME = /Gemini によるメモ|Notes by Gemini/i;
+const TRANSCRIPT_NAME = /transcript|文字起こし/i;
+
+// ファイル名から会議名だけを取り出す（日時・ファイル種別・コピー・拡張子を除去）
+export function extractMeetingBaseName(fileName: string): string {
+  return fileName
+    .replace(new RegExp(SESSION_DATE_TIME.source, "g"), " ")
+    .replace(ARTIFACT_SUFFIX, "")
+    .replace(/\s+-\s+Gemini によるメモ.*$/, "")
+    .replace(/\s+のコピー.*$/g, "")
+    .replace(/\.(pdf|docx?|txt|sbv|mp4|webm)$/i, "")
+    .replace(/(\s+-)+\s*$/, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// 同じ会議のファイルを見分けるキー（会議名と開始日時。日時がなければ undefined）
+export function getSessionKey(fileName: string): string | undefined {
+  const match = fileName.match(SESSION_DATE_TIME);
+  if (!match) return undefined;
+
+  const [, year, month, day, hour, minute] = match;
+  const dateTime = [year, month, day, hour, minute]
+    .map((part) => part.padStart(2, "0"))
+    .join("");
+  return `${extractMeetingBaseName(fileName).toLowerCase()}|${dateTime}`;
+}
+
+export function classifyArtifact(
+  file: Pick<drive_v3.Schema$File, "name" | "mimeType">
+): MeetingArtifactKind | undefined {
+  const name = file.name || "";
+  const suffix = name.match(ARTIFACT_SUFFIX)?.[1]?.toLowerCase();
+
+  if (suffix === "recording" || file.mimeType?.startsWith("video/")) {
+    return "recording";
+  }
+  if (suffix === "chat") return "chat";
+  if (NOTES_NAME.test(name) && file.mimeType === GOOGLE_DOC_MIME_TYPE) {
+    return "notes";
+  }
+  if (suffix === "transcript" || TRANSCRIPT_NAME.test(name)) {
+    return "transcript";
+  }
+  return undefined;
+}
+
+export function toMeetingArtifact(
+  kind: MeetingArtifactKind,
+  file: drive_v3.Schema$File
+): MeetingArtifact {
+  return {
+    kind,
+    id: file.id || "",
+    name: file.name || "",
+    mimeType: file.mimeType || undefined,
+    createdTime: file.createdTime || undefined,
+    modifiedTime: file.modifiedTime || undefined,
+    size: file.size ? parseInt(file.size) : undefined,
+    webViewLink: file.webViewLink || undefined,
+  };
+}
+
+export function transcriptToArtifact(transcript: Transcript): MeetingArtifact {
+  return {
+    kind: "transcript",
+    id: transcript.id,
+    name: transcript.name,
+    createdTime: transcript.createdTime || undefined,
+    modifiedTime: transcript.modifiedTime,
+    size: transcript.size,
+    webViewLink: transcript.webViewLink,
+  };
+}
+
+// ファイル名の開始日時を ISO 8601 にする（タイムゾーンの表記がなければ undefined）
+export function parseSessionStartTime(fileName: string): string | undefined {
+  const match = fileName.match(SESSION_DATE_TIME);
+  const offsetMinutes = match?.[6] ? parseTimeZoneOffset(match[6]) : undefined;
+  if (!match || offsetMinutes === undefined) return undefined;
+
+  const [year, month, day, hour, minute] = match.slice(1, 6).map(Number);
+  const utcMs =
+    Date.UTC(year, month - 1, day, hour, minute) - offsetMinutes * 60 * 1000;
+  return Number.isNaN(utcMs) ? undefined : new Date(utcMs).toISOString();
+}
+
+// 「JST」「UTC」「GMT+09:00」「GMT-5」を UTC からの差（分）にする
+function parseTimeZoneOffset(zone: string): number | undefined {
+  if (zone === "JST") return 9 * 60;
+  if (zone === "UTC" || zone === "GMT") return 0;
+
+  const match = zone.match(/^GMT([+-])(\d{1,2})(?::?(\d{2}))?$/);
+  if (!match) return undefined;
+  const [, sign, hours, minutes] = match;
+  return (sign === "-" ? -1 : 1) * (Number(hours) * 60 + Number(minutes || 0));
+}
+
+// 種別ごとに、会議の開始時刻に最も近いファイルを割り当てる
+export function createMeetingBundle(
+  meeting: Meeting,
+  artifacts: MeetingArtifact[],
+  slots: Partial<Omit<MeetingBundle, "meeting" | "calendarEvent">> = {}
+): MeetingBundle {
+  const startMs = new Date(meeting.startTime || meeting.createdTime).getTime();
+  const distance = (artifact: MeetingArtifact) =>
+    artifact.createdTime
+      ? Math.abs(new Date(artifact.createdTime).getTime() - startMs)
+      : Number.MAX_SAFE_INTEGER;
+  const closest = (kind: MeetingArtifactKind) =>
+    artifacts
+      .filter((artifact) => artifact.kind === kind)
+      .sort((a, b) => distance(a) - distance(b))[0] || null;
+
+  return {
+    meeting,
+    ...(meeting.calendarEvent && { calendarEvent: meeting.calendarEvent }),
+    notes: slots.notes ?? closest("notes"),
+    transcript: slots.transcript ?? closest("transcript"),
+    recording: slots.recording ?? closest("recording"),
+    chat: slots.chat ?? closest("chat"),
+  };
+}
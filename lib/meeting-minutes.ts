@@ -0,0 +1,385 @@
+import type { MeetingCalendarEvent, TranscriptEntry } from "./google-meet-api";
+import { summarizeTranscript } from "./transcript-summary";
+import { getLogger } from "./logger";
+
+export interface MinutesActionItem {
+  task: string;
+  owner?: string;
+  // YYYY-MM-DD（発話から日付を特定できた場合）
+  dueDate?: string;
+}
+
+// 構造化された議事録
+export interface MeetingMinutes {
+  title: string;
+  date?: string;
+  attendees: string[];
+  agenda: string[];
+  decisions: string[];
+  actionItems: MinutesActionItem[];
+  provider: string;
+  model?: string;
+  chunkCount: number;
+  generatedAt: string;
+}
+
+export type MinutesContent = Pick<
+  MeetingMinutes,
+  "agenda" | "decisions" | "actionItems"
+>;
+
+export interface MinutesInput {
+  entries: TranscriptEntry[];
+  calendarEvent?: MeetingCalendarEvent;
+  meetingName?: string;
+}
+
+// プロバイダーに渡す会議の情報と文字起こしの一部
+export interface MinutesChunk {
+  title: string;
+  date?: string;
+  attendees: string[];
+  chunkIndex: number;
+  chunkCount: number;
+  entries: TranscriptEntry[];
+  // "[00:01:02] 話者: 発話" 形式の文字起こし
+  text: string;
+}
+
+// 議事録を生成するモデルの抽象化
+export interface MinutesProvider {
+  readonly name: string;
+  readonly model?: string;
+  generate(chunk: MinutesChunk): Promise<MinutesContent>;
+}
+
+export class MinutesProviderError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "MinutesProviderError";
+  }
+}
+
+// 1回のリクエストに含める文字起こしの文字数
+const DEFAULT_CHUNK_CHARS = 12000;
+const DEFAULT_LLM_TIMEOUT_MS = 120 * 1000;
+const MAX_FAKE_AGENDA_ITEMS = 5;
+
+const log = getLogger("minutes");
+
+const SYSTEM_PROMPT = `あなたは会議の議事録を作成するアシスタントです。
+与えられた文字起こしから、議題・決定事項・アクションアイテムを抽出してください。
+必ず次の形式の JSON のみを出力してください:
+{"agenda": ["議題"], "decisions": ["決定事項"], "actionItems": [{"task": "内容", "owner": "担当者", "dueDate": "YYYY-MM-DD"}]}
+担当者・期限が不明な場合は省略し、文字起こしにない内容は書かないでください。`;
+
+function formatEntry(entry: TranscriptEntry): string {
+  const timestamp = entry.timestamp ? `[${entry.timestamp}] ` : "";
+  const speaker = entry.speaker ? `${entry.speaker}: ` : "";
+  return `${timestamp}${speaker}${entry.text}`;
+}
+
+// 発話の途中で切らないよう、発話単位で文字数の上限ごとに分割する
+export function chunkEntries(
+  entries: TranscriptEntry[],
+  maxChars = DEFAULT_CHUNK_CHARS
+): TranscriptEntry[][] {
+  const chunks: TranscriptEntry[][] = [];
+  let current: TranscriptEntry[] = [];
+  let size = 0;
+
+  for (const entry of entries) {
+    const length = formatEntry(entry).length + 1;
+    if (current.length > 0 && size + length > maxChars) {
+      chunks.push(current);
+      current = [];
+      size = 0;
+    }
+    current.push(entry);
+    size += length;
+  }
+  if (current.length > 0) chunks.push(current);
+
+  return chunks;
+}
+
+function normalizeText(text: string): string {
+  return text.normalize("NFKC").replace(/\s+/g, " ").trim().toLowerCase();
+}
+
+function uniqueBy<T>(items: T[], key: (item: T) => string): T[] {
+  const seen = new Set<string>();
+  return items.filter((item) => {
+    const value = key(item);
+    if (!value || seen.has(value)) return false;
+    seen.add(value);
+    return true;
+  });
+}
+
+// 分割して生成した結果をまとめる（同じ内容は1件にする）
+function mergeContents(contents: MinutesContent[]): MinutesContent {
+  return {
+    agenda: uniqueBy(
+      contents.flatMap((content) => content.agenda),
+      normalizeText
+    ),
+    decisions: uniqueBy(
+      contents.flatMap((content) => content.decisions),
+      normalizeText
+    ),
+    actionItems: uniqueBy(
+      contents.flatMap((content) => content.actionItems),
+      (item) => normalizeText(item.task)
+    ),
+  };
+}
+
+// モデルの出力を検証し、想定外の値は捨てる
+export function sanitizeMinutesContent(value: unknown): MinutesContent {
+  const data = (value && typeof value === "object" ? value : {}) as Record<
+    string,
+    unknown
+  >;
+  const strings = (items: unknown) =>
+    Array.isArray(items)
+      ? items
+          .filter((item): item is string => typeof item === "string")
+          .map((item) => item.trim())
+          .filter(Boolean)
+      : [];
+  const actionItems = Array.isArray(data.actionItems)
+    ? data.actionItems.flatMap((item): MinutesActionItem[] => {
+        const record = (item || {}) as Record<string, unknown>;
+        const task = typeof record.task === "string" ? record.task.trim() : "";
+        if (!task) return [];
+
+        const actionItem: MinutesActionItem = { task };
+        if (typeof record.owner === "string" && record.owner.trim()) {
+          actionItem.owner = record.owner.trim();
+        }
+        if (
+          typeof record.dueDate === "string" &&
+          /^\d{4}-\d{2}-\d{2}$/.test(record.dueDate)
+        ) {
+          actionItem.dueDate = record.dueDate;
+        }
+        return [actionItem];
+      })
+    : [];
+
+  return {
+    agenda: strings(data.agenda),
+    decisions: strings(data.decisions),
+    actionItems,
+  };
+}
+
+// Markdown のコードブロックで囲まれた応答にも対応する
+function parseJsonContent(content: string): unknown {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const body = fenced ? fenced[1] : content;
+  const start = body.indexOf("{");
+  const end = body.lastIndexOf("}");
+  if (start === -1 || end < start) {
+    throw new MinutesProviderError("Model response did not contain JSON");
+  }
+  try {
+    return JSON.parse(body.slice(start, end + 1));
+  } catch (error) {
+    throw new MinutesProviderError("Model response was not valid JSON", {
+      cause: error,
+    });
+  }
+}
+
+export interface OpenAICompatibleOptions {
+  // 例: https://api.openai.com/v1 / http://localhost:11434/v1
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  timeoutMs?: number;
+}
+
+// OpenAI 互換の Chat Completions API（ローカルのモデルサーバーを含む）
+export class OpenAICompatibleMinutesProvider implements MinutesProvider {
+  readonly name = "openai-compatible";
+  readonly model: string;
+  private baseUrl: string;
+  private apiKey?: string;
+  private timeoutMs: number;
+
+  constructor(options: OpenAICompatibleOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, "");
+    this.model = options.model;
+    this.apiKey = options.apiKey;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_LLM_TIMEOUT_MS;
+  }
+
+  async generate(chunk: MinutesChunk): Promise<MinutesContent> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+      },
+      body: JSON.stringify({
+        model: this.model,
+        temperature: 0,
+        messages: [
+          { role: "system", content: SYSTEM_PROMPT },
+          { role: "user", content: this.buildPrompt(chunk) },
+        ],
+      }),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    }).catch((error) => {
+      throw new MinutesProviderError("Failed to reach the model server", {
+        cause: error,
+      });
+    });
+
+    if (!response.ok) {
+      throw new MinutesProviderError(
+        `Model server responded with ${response.status}`
+      );
+    }
+
+    const data = (await response.json()) as {
+      choices?: Array<{ message?: { content?: string } }>;
+    };
+    const content = data.choices?.[0]?.message?.content;
+    if (!content) {
+      throw new MinutesProviderError("Model response was empty");
+    }
+    return sanitizeMinutesContent(parseJsonContent(content));
+  }
+
+  private buildPrompt(chunk: MinutesChunk): string {
+    return [
+      `会議名: ${chunk.title}`,
+      chunk.date && `日時: ${chunk.date}`,
+      chunk.attendees.length > 0 && `参加者: ${chunk.attendees.join(", ")}`,
+      chunk.chunkCount > 1 &&
+        `（長い会議のため分割しています: ${chunk.chunkIndex + 1}/${chunk.chunkCount}）`,
+      "",
+      "文字起こし:",
+      chunk.text,
+    ]
+      .filter((line): line is string => typeof line === "string")
+      .join("\n");
+  }
+}
+
+// 期限として読み取れる日付（YYYY-MM-DD / YYYY/M/D / M月D日 / M/D）
+function extractDueDate(text: string, baseDate?: string): string | undefined {
+  const base = baseDate ? new Date(baseDate) : undefined;
+  const year =
+    base && !Number.isNaN(base.getTime()) ? base.getFullYear() : undefined;
+  const format = (y: number, m: number, d: number) =>
+    `${y}-${String(m).padStart(2, "0")}-${String(d).padStart(2, "0")}`;
+
+  const full = text.match(/(\d{4})[-/年](\d{1,2})[-/月](\d{1,2})/);
+  if (full) return format(Number(full[1]), Number(full[2]), Number(full[3]));
+
+  const short = text.match(/(\d{1,2})(?:月|\/)(\d{1,2})日?/);
+  if (short && year) return format(year, Number(short[1]), Number(short[2]));
+
+  return undefined;
+}
+
+// 外部サービスを使わない決定的なプロバイダー（テスト・モデル未設定時の代替）
+export class FakeMinutesProvider implements MinutesProvider {
+  readonly name = "fake";
+
+  async generate(chunk: MinutesChunk): Promise<MinutesContent> {
+    const summary = summarizeTranscript(chunk.entries, {
+      maxSentences: MAX_FAKE_AGENDA_ITEMS,
+    });
+
+    return {
+      agenda: summary.sentences.map((sentence) => sentence.text),
+      decisions: summary.decisions.map((decision) => decision.text),
+      actionItems: summary.actionItems.map((item) => {
+        const dueDate = extractDueDate(item.text, chunk.date);
+        return {
+          task: item.text,
+          ...(item.assignee && { owner: item.assignee }),
+          ...(dueDate && { dueDate }),
+        };
+      }),
+    };
+  }
+}
+
+// MINUTES_PROVIDER=openai|fake（未指定時はモデルサーバーの URL があれば openai）
+export function createMinutesProvider(): MinutesProvider {
+  const baseUrl = process.env.MINUTES_LLM_BASE_URL;
+  const provider =
+    process.env.MINUTES_PROVIDER || (baseUrl ? "openai" : "fake");
+
+  if (provider === "openai") {
+    if (!baseUrl) {
+      throw new MinutesProviderError(
+        "MINUTES_LLM_BASE_URL is required for the openai provider"
+      );
+    }
+    return new OpenAICompatibleMinutesProvider({
+      baseUrl,
+      model: process.env.MINUTES_LLM_MODEL || "gpt-4o-mini",
+      apiKey: process.env.MINUTES_LLM_API_KEY,
+      timeoutMs: Number(process.env.MINUTES_LLM_TIMEOUT_MS) || undefined,
+    });
+  }
+  return new FakeMinutesProvider();
+}
+
+export async function generateMinutes(
+  input: MinutesInput,
+  provider: MinutesProvider = createMinutesProvider(),
+  options: { maxChunkChars?: number } = {}
+): Promise<MeetingMinutes> {
+  const event = input.calendarEvent;
+  const title = event?.summary || input.meetingName || "会議";
+  const attendees = (event?.attendees || []).map(
+    (attendee) => attendee.displayName || attendee.email
+  );
+  const chunks = chunkEntries(
+    input.entries,
+    options.maxChunkChars ||
+      Number(process.env.MINUTES_CHUNK_CHARS) ||
+      DEFAULT_CHUNK_CHARS
+  );
+
+  log.info("Generating meeting minutes", {
+    provider: provider.name,
+    model: provider.model,
+    chunks: chunks.length,
+  });
+
+  // ローカルのモデルサーバーに負荷をかけないよう順番に処理する
+  const contents: MinutesContent[] = [];
+  for (const [chunkIndex, entries] of chunks.entries()) {
+    contents.push(
+      await provider.generate({
+        title,
+        date: event?.startTime,
+        attendees,
+        chunkIndex,
+        chunkCount: chunks.length,
+        entries,
+        text: entries.map(formatEntry).join("\n"),
+      })
+    );
+  }
+
+  return {
+    title,
+    date: event?.startTime,
+    attendees,
+    ...mergeContents(contents),
+    provider: provider.name,
+    model: provider.model,
+    chunkCount: chunks.length,
+    generatedAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,130 @@
+import { stripTags } from "./content-extractors";
+
+export interface NoteTopic {
+  title?: string;
+  text: string;
+  // 「(00:05:12)」のような文字起こし上の位置
+  timestamp?: string;
+}
+
+export interface NoteNextStep {
+  task: string;
+  assignees: string[];
+}
+
+export interface ParsedMeetingNotes {
+  summary: string[];
+  topics: NoteTopic[];
+  nextSteps: NoteNextStep[];
+}
+
+// Gemini が作成した会議メモ（Google ドキュメント）
+export interface MeetingNotes extends ParsedMeetingNotes {
+  documentId: string;
+  name: string;
+  modifiedTime?: string;
+  webViewLink?: string;
+}
+
+type NotesSection = keyof ParsedMeetingNotes;
+
+interface Block {
+  tag: string;
+  text: string;
+}
+
+// 見出しの文言からメモの節を判定する（日本語・英語のメモ）
+const SECTION_PATTERNS: Array<[NotesSection, RegExp]> = [
+  ["summary", /^(まとめ|概要|要約|summary)$/i],
+  ["topics", /^(詳細|details)$/i],
+  [
+    "nextSteps",
+    /^(推奨される次のステップ|次のステップ|(suggested )?next steps|action items)$/i,
+  ],
+];
+
+const MAX_HEADING_LEVEL = 6;
+
+// 「[田中 太郎、鈴木] 資料を作成する」形式の担当者
+const ASSIGNEE_PREFIX = /^\[([^\]]+)\]\s*/;
+// 「話題: 内容」形式の詳細
+const TOPIC_TITLE = /^([^:：]{1,60}?)\s*[:：]\s*(.+)$/;
+const TRAILING_TIMESTAMP = /\s*[(（](\d{1,2}:\d{2}(?::\d{2})?)[)）]\s*$/;
+
+function toBlocks(html: string): Block[] {
+  return [...html.matchAll(/<(h[1-6]|p|li)\b[^>]*>([\s\S]*?)<\/\1>/gi)]
+    .map((match) => ({
+      tag: match[1].toLowerCase(),
+      text: stripTags(match[2]),
+    }))
+    .filter((block) => block.text.length > 0);
+}
+
+function findSection(text: string): NotesSection | undefined {
+  // 先頭の絵文字や末尾のコロンを除いて比較する
+  const label = text
+    .replace(/^[^\p{L}\p{N}]+/u, "")
+    .replace(/[:：]\s*$/, "")
+    .trim();
+  return SECTION_PATTERNS.find(([, pattern]) => pattern.test(label))?.[0];
+}
+
+function parseTopic(text: string): NoteTopic {
+  const timestamp = text.match(TRAILING_TIMESTAMP)?.[1];
+  const body = text.replace(TRAILING_TIMESTAMP, "");
+  const titled = body.match(TOPIC_TITLE);
+  return {
+    ...(titled ? { title: titled[1], text: titled[2] } : { text: body }),
+    ...(timestamp && { timestamp }),
+  };
+}
+
+function parseNextStep(text: string): NoteNextStep {
+  const assignees = text.match(ASSIGNEE_PREFIX);
+  return {
+    task: text.replace(ASSIGNEE_PREFIX, ""),
+    assignees: assignees
+      ? assignees[1]
+          .split(/[,、，]/)
+          .map((name) => name.trim())
+          .filter(Boolean)
+      : [],
+  };
+}
+
+// Gemini のメモを HTML で書き出したものから、まとめ・詳細・次のステップを取り出す
+export function parseMeetingNotes(html: string): ParsedMeetingNotes {
+  const notes: ParsedMeetingNotes = { summary: [], topics: [], nextSteps: [] };
+  let section: NotesSection | undefined;
+  // 節の見出しの階層（段落を見出し代わりにしている場合は最下位）
+  let sectionLevel = MAX_HEADING_LEVEL;
+
+  for (const block of toBlocks(html)) {
+    const level = block.tag.startsWith("h")
+      ? Number(block.tag.slice(1))
+      : undefined;
+
+    // 見出しの書式が付いていない段落も節の見出しとして扱う
+    const heading = findSection(block.text);
+    if (heading && block.tag !== "li") {
+      section = heading;
+      sectionLevel = level ?? MAX_HEADING_LEVEL;
+      continue;
+    }
+    if (level !== undefined) {
+      // 同じか上の階層の見出し（文字起こしなど）に入ったら節の終わり
+      if (level <= sectionLevel) section = undefined;
+      continue;
+    }
+
+    if (section === "summary") {
+      notes.summary.push(block.text);
+    } else if (section === "topics") {
+      notes.topics.push(parseTopic(block.text));
+    } else if (section === "nextSteps") {
+      notes.nextSteps.push(parseNextStep(block.text));
+    }
+  }
+
+  return notes;
+}
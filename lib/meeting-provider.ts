@@ -0,0 +1,343 @@
+import {
+  GoogleMeetAPI,
+  GoogleMeetAPIOptions,
+  Meeting,
+  MeetingListOptions,
+  MeetingPage,
+  MeetingSource,
+  Transcript,
+} from "./google-meet-api";
+import { MeetRestAPI, MeetRestAPIOptions } from "./meet-rest-api";
+import type { MeetingNotes } from "./meeting-notes";
+import type { MeetingChat } from "./chat-parser";
+import { GOOGLE_DOC_MIME_TYPE } from "./content-extractors";
+import {
+  createMeetingBundle,
+  MeetingArtifact,
+  MeetingBundle,
+  transcriptToArtifact,
+} from "./meeting-bundle";
+import { parseTranscript } from "./transcript-parser";
+import { getMeetingPin } from "./pin-store";
+import { isGoogleAuthError } from "./google-api-errors";
+import { getLogger } from "./logger";
+import {
+  collectAssignedEventKeys,
+  decodeMeetingCursor,
+  encodeMeetingCursor,
+} from "./page-cursor";
+
+const log = getLogger("provider");
+
+export type MeetingProviderOptions = MeetRestAPIOptions & GoogleMeetAPIOptions;
+
+// 会議一覧・文字起こしの取得元を抽象化したプロバイダー
+export interface MeetingProvider {
+  readonly source: MeetingSource;
+  getMeetings(options?: MeetingListOptions): Promise<MeetingPage>;
+  getMeeting(meetingId: string): Promise<Meeting | null>;
+  getAllTranscripts(meetingId: string): Promise<Transcript[]>;
+  getTranscriptById(
+    meetingId: string,
+    transcriptId: string
+  ): Promise<Transcript | null>;
+  // Gemini が作成した会議メモ（ない場合は null）
+  getMeetingNotes(meetingId: string): Promise<MeetingNotes | null>;
+  // 会議のメモ・文字起こし・録画・チャットとカレンダー予定をまとめて返す
+  getMeetingBundle(meetingId: string): Promise<MeetingBundle | null>;
+  // 会議中のチャット（書き出しファイルがない場合は null）
+  getMeetingChat(meetingId: string): Promise<MeetingChat | null>;
+}
+
+// Meet REST API を一次データソースとするプロバイダー
+export class MeetApiProvider implements MeetingProvider {
+  readonly source = "meet" as const;
+  private meetAPI: MeetRestAPI;
+  private driveAPI: GoogleMeetAPI;
+  private userKey?: string;
+
+  constructor(accessToken: string, options: MeetingProviderOptions = {}) {
+    this.meetAPI = new MeetRestAPI(accessToken, options);
+    // カレンダー連携は Drive 版と同じロジックを使う
+    this.driveAPI = new GoogleMeetAPI(accessToken, options);
+    this.userKey = options.userKey;
+  }
+
+  async getMeetings(options: MeetingListOptions = {}): Promise<MeetingPage> {
+    const cursor = decodeMeetingCursor(options.cursor);
+    const page = await this.meetAPI.listConferenceRecords({
+      ...options,
+      cursor: cursor.pageToken,
+    });
+    // 前のページで割り当てた予定は、このページの会議に割り当てない
+    const meetings = await this.driveAPI.enrichMeetingsWithCalendarData(
+      page.meetings,
+      { assignedEventKeys: cursor.assigned }
+    );
+
+    return {
+      ...page,
+      nextCursor: page.nextCursor
+        ? encodeMeetingCursor({
+            pageToken: page.nextCursor,
+            seen: [],
+            assigned: [
+              ...cursor.assigned,
+              ...collectAssignedEventKeys(meetings),
+            ],
+          })
+        : undefined,
+      meetings: meetings.map((meeting) => this.applyEventName(meeting)),
+      // 会議記録は毎回取得するため、カレンダーのキャッシュの時刻が最古になる
+      fetchedAt: this.driveAPI.getFetchedAt(),
+    };
+  }
+
+  async getMeeting(meetingId: string): Promise<Meeting | null> {
+    const meeting = await this.meetAPI.getConferenceRecord(meetingId);
+    if (!meeting) return null;
+
+    const [enriched] = await this.driveAPI.enrichMeetingsWithCalendarData([
+      meeting,
+    ]);
+    return this.applyEventName(enriched);
+  }
+
+  async getAllTranscripts(meetingId: string): Promise<Transcript[]> {
+    // 手動で固定された文字起こしを先頭にする
+    const pin = this.userKey
+      ? await getMeetingPin(this.userKey, meetingId).catch(() => null)
+      : null;
+    const transcripts = await this.meetAPI.getTranscriptsWithEntries(
+      meetingId,
+      pin?.transcriptId
+    );
+
+    const pinned = transcripts.find(
+      (transcript) => transcript.id === pin?.transcriptId
+    );
+    return pinned
+      ? [
+          { ...pinned, pinned: true },
+          ...transcripts.filter((transcript) => transcript !== pinned),
+        ]
+      : transcripts;
+  }
+
+  async getTranscriptById(
+    meetingId: string,
+    transcriptId: string
+  ): Promise<Transcript | null> {
+    const transcripts = await this.meetAPI.getTranscriptsWithEntries(
+      meetingId,
+      transcriptId
+    );
+    // 会議記録に属さない ID は見つからないものとして扱う
+    return transcripts.find((transcript) => transcript.id === transcriptId) || null;
+  }
+
+  async getMeetingNotes(meetingId: string): Promise<MeetingNotes | null> {
+    // 会議記録からメモを直接たどれないため、会議の時間帯に作成されたものを探す
+    const meeting = await this.getMeeting(meetingId);
+    return meeting ? this.driveAPI.findMeetingNotes(meeting) : null;
+  }
+
+  async getMeetingBundle(meetingId: string): Promise<MeetingBundle | null> {
+    const meeting = await this.getMeeting(meetingId);
+    if (!meeting) return null;
+
+    const pin = this.userKey
+      ? await getMeetingPin(this.userKey, meetingId).catch(() => null)
+      : null;
+    const [artifacts, transcripts, recordings] = await Promise.all([
+      this.driveAPI.findSessionArtifacts(meeting),
+      this.meetAPI.listTranscripts(meetingId),
+      this.meetAPI.listRecordings(meetingId),
+    ]);
+
+    // 会議記録に紐付いた文字起こし・録画は Drive の検索結果より優先する
+    const transcript =
+      transcripts.find((item) => item.id === pin?.transcriptId) ||
+      transcripts[0];
+    const recording = recordings.find((item) => item.driveFileId);
+    const recordingFile = artifacts.find(
+      (artifact) => artifact.id === recording?.driveFileId
+    );
+    const recordingArtifact: MeetingArtifact | undefined = recording
+      ? {
+          kind: "recording",
+          id: recording.driveFileId!,
+          name: recordingFile?.name || "録画",
+          mimeType: recordingFile?.mimeType,
+          createdTime: recording.startTime,
+          webViewLink: recordingFile?.webViewLink || recording.exportUri,
+        }
+      : undefined;
+
+    return createMeetingBundle(meeting, artifacts, {
+      ...(transcript && { transcript: transcriptToArtifact(transcript) }),
+      ...(recordingArtifact && { recording: recordingArtifact }),
+    });
+  }
+
+  async getMeetingChat(meetingId: string): Promise<MeetingChat | null> {
+    const meeting = await this.getMeeting(meetingId);
+    return meeting ? this.driveAPI.findMeetingChat(meeting) : null;
+  }
+
+  // カレンダーの予定名が取れた場合はそれを会議名として使う
+  private applyEventName(meeting: Meeting): Meeting {
+    return meeting.calendarEvent?.summary
+      ? { ...meeting, name: meeting.calendarEvent.summary }
+      : meeting;
+  }
+}
+
+// Drive のファイル名ヒューリスティックによるプロバイダー（フォールバック）
+export class DriveProvider implements MeetingProvider {
+  readonly source = "drive" as const;
+  private driveAPI: GoogleMeetAPI;
+
+  constructor(accessToken: string, options: GoogleMeetAPIOptions = {}) {
+    this.driveAPI = new GoogleMeetAPI(accessToken, options);
+  }
+
+  getMeetings(options: MeetingListOptions = {}): Promise<MeetingPage> {
+    return this.driveAPI.getMeetings(options);
+  }
+
+  getMeeting(meetingId: string): Promise<Meeting | null> {
+    return this.driveAPI.getMeeting(meetingId);
+  }
+
+  getAllTranscripts(meetingId: string): Promise<Transcript[]> {
+    return this.driveAPI.getAllTranscripts(meetingId);
+  }
+
+  getTranscriptById(
+    meetingId: string,
+    transcriptId: string
+  ): Promise<Transcript | null> {
+    return this.driveAPI.getTranscriptById(meetingId, transcriptId);
+  }
+
+  getMeetingNotes(meetingId: string): Promise<MeetingNotes | null> {
+    // Drive では会議 ID が Gemini のメモのドキュメント ID
+    return this.driveAPI.getMeetingNotes(meetingId);
+  }
+
+  async getMeetingBundle(meetingId: string): Promise<MeetingBundle | null> {
+    const meeting = await this.driveAPI.getMeeting(meetingId);
+    if (!meeting) return null;
+
+    // 本文は開いたときに取得するため、ここではメタデータだけを取得する
+    const [artifacts, transcripts] = await Promise.all([
+      this.driveAPI.findSessionArtifacts(meeting),
+      this.driveAPI.listTranscriptFiles(meetingId),
+    ]);
+
+    // 会議ファイル自体がメモで、文字起こしは照合（固定を含む）で選ばれたものを使う
+    return createMeetingBundle(meeting, artifacts, {
+      notes: {
+        kind: "notes",
+        id: meeting.id,
+        name: meeting.name,
+        mimeType: GOOGLE_DOC_MIME_TYPE,
+        createdTime: meeting.createdTime,
+        modifiedTime: meeting.modifiedTime,
+        webViewLink: meeting.webViewLink,
+      },
+      ...(transcripts[0] && {
+        transcript: transcriptToArtifact(transcripts[0]),
+      }),
+    });
+  }
+
+  async getMeetingChat(meetingId: string): Promise<MeetingChat | null> {
+    const meeting = await this.driveAPI.getMeeting(meetingId);
+    return meeting ? this.driveAPI.findMeetingChat(meeting) : null;
+  }
+}
+
+export function parseMeetingSource(
+  value: string | null | undefined
+): MeetingSource | undefined {
+  return value === "meet" || value === "drive" ? value : undefined;
+}
+
+export function getDefaultMeetingSource(): MeetingSource {
+  return parseMeetingSource(process.env.MEETING_SOURCE) || "meet";
+}
+
+export function createMeetingProvider(
+  accessToken: string,
+  source: MeetingSource = getDefaultMeetingSource(),
+  options: MeetingProviderOptions = {}
+): MeetingProvider {
+  return source === "meet"
+    ? new MeetApiProvider(accessToken, options)
+    : new DriveProvider(accessToken, options);
+}
+
+// Meet REST API で取得できない場合（API 無効・権限不足・記録なし）は Drive にフォールバックする
+export async function getMeetingsWithFallback(
+  accessToken: string,
+  options: MeetingListOptions = {},
+  source?: MeetingSource,
+  providerOptions: MeetingProviderOptions = {}
+): Promise<MeetingPage> {
+  const primary = createMeetingProvider(accessToken, source, providerOptions);
+
+  // ページ送り中や Drive 指定時は取得元を切り替えない
+  if (primary.source === "drive" || options.cursor) {
+    return primary.getMeetings(options);
+  }
+
+  try {
+    const page = await primary.getMeetings(options);
+    if (page.meetings.length > 0 || page.nextCursor) {
+      return page;
+    }
+    log.info("No conference records found, falling back to Drive");
+  } catch (error) {
+    // トークン切れは Drive でも失敗するためフォールバックしない
+    if (isGoogleAuthError(error)) throw error;
+    log.warn("Meet REST API unavailable, falling back to Drive", { error });
+  }
+
+  return new DriveProvider(accessToken, providerOptions).getMeetings(options);
+}
+
+export interface TranscriptLookupOptions extends MeetingProviderOptions {
+  source?: MeetingSource;
+  transcriptId?: string;
+}
+
+// 会議の文字起こしを1件取得し、話者付きエントリを付与する
+export async function getTranscriptForMeeting(
+  accessToken: string,
+  meetingId: string,
+  options: TranscriptLookupOptions = {}
+): Promise<Transcript | null> {
+  const provider = createMeetingProvider(
+    accessToken,
+    options.source || getDefaultMeetingSource(),
+    options
+  );
+  let result: Transcript | null;
+
+  if (options.transcriptId) {
+    result = await provider.getTranscriptById(meetingId, options.transcriptId);
+  } else {
+    const transcripts = await provider.getAllTranscripts(meetingId);
+    log.debug("Found transcripts", { meetingId, count: transcripts.length });
+    result = transcripts.length > 0 ? transcripts[0] : null;
+  }
+
+  // Drive の文字起こしは本文を解析して話者付きエントリを付与する
+  if (result && !result.entries && result.content) {
+    result.entries = parseTranscript(result.content).entries;
+  }
+
+  return result;
+}
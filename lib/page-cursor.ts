@@ -0,0 +1,68 @@
+import { createHash } from "crypto";
+import type { Meeting } from "./google-meet-api";
+
+// 会議一覧の nextCursor に、前のページまでの状態を引き継ぐ
+export interface MeetingCursor {
+  // 取得元（Meet REST API / Drive / ローカルインデックス）のページトークン
+  pageToken?: string;
+  // 前のページまでに返した会議のキー（短縮ハッシュ）
+  seen: string[];
+  // 前のページまでに会議へ割り当てたカレンダー予定の ID（短縮ハッシュ）
+  assigned: string[];
+}
+
+const CURSOR_PREFIX = "mc1.";
+// カーソルが URL に収まるよう、引き継ぐキーは新しいものから上限まで
+export const MAX_CURSOR_KEYS = 500;
+
+// キーを短い固定長の文字列にする（カーソルの長さを抑えるため）
+export function hashCursorKey(key: string): string {
+  return createHash("sha1").update(key).digest("base64url").slice(0, 10);
+}
+
+export function encodeMeetingCursor(cursor: MeetingCursor): string {
+  const payload = {
+    p: cursor.pageToken,
+    s: cursor.seen.slice(-MAX_CURSOR_KEYS),
+    a: cursor.assigned.slice(-MAX_CURSOR_KEYS),
+  };
+  return (
+    CURSOR_PREFIX + Buffer.from(JSON.stringify(payload)).toString("base64url")
+  );
+}
+
+// 形式の異なるカーソル（以前のバージョンの pageToken など）はそのままページトークンとして扱う
+export function decodeMeetingCursor(cursor: string | undefined): MeetingCursor {
+  if (!cursor) return { seen: [], assigned: [] };
+  if (!cursor.startsWith(CURSOR_PREFIX)) {
+    return { pageToken: cursor, seen: [], assigned: [] };
+  }
+
+  try {
+    const payload = JSON.parse(
+      Buffer.from(cursor.slice(CURSOR_PREFIX.length), "base64url").toString()
+    );
+    return {
+      pageToken: typeof payload.p === "string" ? payload.p : undefined,
+      seen: toKeys(payload.s),
+      assigned: toKeys(payload.a),
+    };
+  } catch {
+    return { seen: [], assigned: [] };
+  }
+}
+
+function toKeys(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((key): key is string => typeof key === "string")
+    : [];
+}
+
+// ページ内で会議に紐付けた予定のキー（次のページで同じ予定を割り当てないため）
+export function collectAssignedEventKeys(meetings: Meeting[]): string[] {
+  return meetings.flatMap((meeting) =>
+    meeting.calendarEvent?.eventId
+      ? [hashCursorKey(meeting.calendarEvent.eventId)]
+      : []
+  );
+}
@@ -0,0 +1,74 @@
+import path from "path";
+import { createJsonStore, getDataDirectory } from "./json-store";
+
+// ユーザーが手動で固定した会議との紐付け
+export interface MeetingPin {
+  transcriptId?: string;
+  calendarEventId?: string;
+  calendarId?: string;
+  updatedAt: string;
+}
+
+// null を指定した項目は固定を解除する
+export type MeetingPinUpdate = {
+  transcriptId?: string | null;
+  calendarEventId?: string | null;
+  calendarId?: string | null;
+};
+
+type PinFile = Record<string, Record<string, MeetingPin>>;
+
+const store = createJsonStore<PinFile>(
+  process.env.PIN_STORE_PATH || path.join(getDataDirectory(), "pins.json"),
+  () => ({})
+);
+
+export async function getUserPins(
+  userKey: string
+): Promise<Record<string, MeetingPin>> {
+  const data = await store.read();
+  return data[userKey] || {};
+}
+
+export async function getMeetingPin(
+  userKey: string,
+  meetingId: string
+): Promise<MeetingPin | null> {
+  const pins = await getUserPins(userKey);
+  return pins[meetingId] || null;
+}
+
+export function setMeetingPin(
+  userKey: string,
+  meetingId: string,
+  update: MeetingPinUpdate
+): Promise<MeetingPin | null> {
+  return store.update((data) => {
+    const userPins = data[userKey] || {};
+    const current: Partial<MeetingPin> = userPins[meetingId] || {};
+
+    const next: Partial<MeetingPin> = { ...current };
+    for (const key of ["transcriptId", "calendarEventId", "calendarId"] as const) {
+      if (update[key] === null) {
+        delete next[key];
+      } else if (update[key] !== undefined) {
+        next[key] = update[key];
+      }
+    }
+    // 予定の固定を外したらカレンダー ID も不要
+    if (!next.calendarEventId) {
+      delete next.calendarId;
+    }
+
+    let result: MeetingPin | null = null;
+    if (next.transcriptId || next.calendarEventId) {
+      result = { ...next, updatedAt: new Date().toISOString() };
+      userPins[meetingId] = result;
+    } else {
+      delete userPins[meetingId];
+    }
+
+    data[userKey] = userPins;
+    return result;
+  });
+}
@@ -0,0 +1,123 @@
+import { parseTranscript } from "./transcript-parser";
+import { TranscriptSearchIndex } from "./transcript-search";
+import {
+  createMeetingProvider,
+  getMeetingsWithFallback,
+} from "./meeting-provider";
+import { getLogger } from "./logger";
+import { isGoogleAuthError } from "./google-api-errors";
+import type { Meeting } from "./google-meet-api";
+
+// 検索対象にする会議数の上限（超えた場合は応答の truncated で知らせる）
+const MAX_INDEXED_MEETINGS = 500;
+// 会議一覧を取得する1ページあたりの件数
+const MEETING_PAGE_SIZE = 100;
+// 文字起こしを並行取得する件数
+const INDEX_CONCURRENCY = 4;
+// インデックスを再構築するまでの時間
+const INDEX_TTL_MS = 10 * 60 * 1000;
+
+const log = getLogger("search");
+
+// ユーザーごとのインデックス（サーバープロセス内のメモリに保持）
+const indexes = new Map<string, Promise<TranscriptSearchIndex>>();
+
+export async function getSearchIndex(
+  accessToken: string,
+  userKey: string | undefined,
+  options: { refresh?: boolean } = {}
+): Promise<TranscriptSearchIndex> {
+  // メールアドレスが取れない場合はトークン単位でキャッシュする
+  const cacheKey = userKey || accessToken;
+  const cached = indexes.get(cacheKey);
+  if (cached && !options.refresh) {
+    const index = await cached.catch(() => null);
+    if (index && Date.now() - index.builtAt.getTime() < INDEX_TTL_MS) {
+      return index;
+    }
+  }
+
+  const building = buildSearchIndex(accessToken, userKey, !!options.refresh);
+  indexes.set(cacheKey, building);
+  // 取得に失敗した会議を含むインデックスは次回の検索で作り直す
+  building.then(
+    (index) => {
+      if (index.failedCount > 0 && indexes.get(cacheKey) === building) {
+        indexes.delete(cacheKey);
+      }
+    },
+    () => indexes.delete(cacheKey)
+  );
+  return building;
+}
+
+async function buildSearchIndex(
+  accessToken: string,
+  userKey: string | undefined,
+  forceRefresh: boolean
+): Promise<TranscriptSearchIndex> {
+  log.info("Building transcript search index");
+  const index = new TranscriptSearchIndex();
+
+  // 直近の会議から順に、上限に達するまで一覧をページ送りする
+  const meetings: Meeting[] = [];
+  let page = await getMeetingsWithFallback(
+    accessToken,
+    { pageSize: MEETING_PAGE_SIZE },
+    undefined,
+    { userKey, forceRefresh }
+  );
+  const source = page.source;
+  meetings.push(...page.meetings);
+  while (page.nextCursor && meetings.length < MAX_INDEXED_MEETINGS) {
+    page = await getMeetingsWithFallback(
+      accessToken,
+      { pageSize: MEETING_PAGE_SIZE, cursor: page.nextCursor },
+      source,
+      { userKey, forceRefresh }
+    );
+    meetings.push(...page.meetings);
+  }
+  index.truncated =
+    meetings.length > MAX_INDEXED_MEETINGS || !!page.nextCursor;
+  meetings.splice(MAX_INDEXED_MEETINGS);
+
+  const provider = createMeetingProvider(accessToken, source, {
+    userKey,
+    forceRefresh,
+  });
+
+  for (let i = 0; i < meetings.length; i += INDEX_CONCURRENCY) {
+    const batch = meetings.slice(i, i + INDEX_CONCURRENCY);
+    await Promise.all(
+      batch.map(async (meeting) => {
+        try {
+          const [transcript] = await provider.getAllTranscripts(meeting.id);
+          if (!transcript) return;
+
+          const entries =
+            transcript.entries ||
+            parseTranscript(transcript.content || "").entries;
+          index.addDocument(meeting, transcript, entries);
+        } catch (error) {
+          // トークン切れは再ログインが必要なため検索全体を失敗させる
+          if (isGoogleAuthError(error)) throw error;
+          // それ以外の1件の取得失敗では検索全体を止めず、件数を応答で知らせる
+          index.failedCount++;
+          log.warn("Failed to index transcript", {
+            meetingId: meeting.id,
+            error,
+          });
+        }
+      })
+    );
+  }
+
+  log.info("Indexed transcripts", {
+    transcripts: index.size,
+    entryCount: index.entryCount,
+    failed: index.failedCount,
+    truncated: index.truncated,
+  });
+  return index;
+}
@@ -0,0 +1,256 @@
+import type { MeetingCalendarEvent, TranscriptEntry } from "./google-meet-api";
+
+// 発話量の算出方法（発話時刻があれば時間、なければ文字数）
+export type TalkBasis = "time" | "characters";
+
+export interface SpeakerStats {
+  // 話者名（話者が不明な発話は undefined）
+  speaker?: string;
+  talkTimeMs?: number;
+  characters: number;
+  // 全体に占める割合（0〜1、basis に応じて時間または文字数）
+  share: number;
+  // 連続した発話をまとめた発言回数
+  turns: number;
+  entries: number;
+  longestMonologue: {
+    entryIndex: number;
+    durationMs?: number;
+    characters: number;
+  };
+  // 他の話者の発話中に話し始めた回数 / 話している途中で割り込まれた回数
+  interruptions: number;
+  interrupted: number;
+}
+
+export interface SilentAttendee {
+  email: string;
+  displayName?: string;
+  responseStatus?: string;
+}
+
+export interface SpeakerAnalytics {
+  basis: TalkBasis;
+  totalTalkTimeMs?: number;
+  totalCharacters: number;
+  totalTurns: number;
+  // 発話の重なりの回数と合計時間（basis が time の場合のみ）
+  overlaps: number;
+  overlapMs: number;
+  // 多い順
+  speakers: SpeakerStats[];
+  // 予定に招待されていたが一度も発言しなかった人
+  silentAttendees: SilentAttendee[];
+  generatedAt: string;
+}
+
+interface Turn {
+  speaker?: string;
+  entries: TranscriptEntry[];
+}
+
+// これより短い重なりは相づちや時刻の誤差とみなす
+const MIN_OVERLAP_MS = 500;
+// 会議室などのリソースはカレンダーの出席者から除く
+const RESOURCE_EMAIL = /@resource\.calendar\.google\.com$/i;
+
+function hasTiming(
+  entry: TranscriptEntry
+): entry is TranscriptEntry & { startMs: number; endMs: number } {
+  return (
+    entry.startMs !== undefined &&
+    entry.endMs !== undefined &&
+    entry.endMs >= entry.startMs
+  );
+}
+
+function countChars(text: string): number {
+  return text.replace(/\s+/g, "").length;
+}
+
+function buildTurns(entries: TranscriptEntry[]): Turn[] {
+  const turns: Turn[] = [];
+  for (const entry of entries) {
+    const last = turns[turns.length - 1];
+    if (last && last.speaker === entry.speaker) {
+      last.entries.push(entry);
+    } else {
+      turns.push({ speaker: entry.speaker, entries: [entry] });
+    }
+  }
+  return turns;
+}
+
+function turnDuration(turn: Turn): number | undefined {
+  const first = turn.entries[0];
+  const last = turn.entries[turn.entries.length - 1];
+  if (!hasTiming(first) || !hasTiming(last)) return undefined;
+  return Math.max(last.endMs - first.startMs, 0);
+}
+
+// 比較用に空白・記号を除き小文字にする（「田中 太郎」と「田中太郎」を同一視）
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[\s._\-・()（）]/g, "");
+}
+
+// 招待者の表示名・メールアドレスのいずれかが話者名と一致するか
+function attendeeSpoke(
+  attendee: { email: string; displayName?: string },
+  speakers: string[]
+): boolean {
+  const candidates = [attendee.displayName, attendee.email.split("@")[0]]
+    .filter((name): name is string => !!name)
+    .map(normalizeName)
+    .filter((name) => name.length >= 2);
+
+  return speakers.some((speaker) =>
+    candidates.some(
+      (name) =>
+        name === speaker ||
+        // 「Taro Tanaka」と「Taro Tanaka (Example Inc.)」のような表記揺れ
+        (Math.min(name.length, speaker.length) >= 3 &&
+          (name.includes(speaker) || speaker.includes(name)))
+    )
+  );
+}
+
+function findSilentAttendees(
+  calendarEvent: MeetingCalendarEvent | undefined,
+  speakers: string[]
+): SilentAttendee[] {
+  const normalized = speakers.map(normalizeName);
+  return (calendarEvent?.attendees || [])
+    .filter((attendee) => !RESOURCE_EMAIL.test(attendee.email))
+    .filter((attendee) => !attendeeSpoke(attendee, normalized))
+    .map((attendee) => ({
+      email: attendee.email,
+      ...(attendee.displayName && { displayName: attendee.displayName }),
+      ...(attendee.responseStatus && {
+        responseStatus: attendee.responseStatus,
+      }),
+    }));
+}
+
+// 話者ごとの発話時間・発言回数・最長の発言・割り込みと、発言しなかった招待者を集計する
+export function analyzeSpeakers(
+  entries: TranscriptEntry[],
+  calendarEvent?: MeetingCalendarEvent
+): SpeakerAnalytics {
+  const spoken = entries.filter((entry) => entry.text.trim().length > 0);
+  const basis: TalkBasis =
+    spoken.length > 0 && spoken.every(hasTiming) ? "time" : "characters";
+
+  const stats = new Map<string | undefined, SpeakerStats>();
+  const statsOf = (speaker: string | undefined) => {
+    let current = stats.get(speaker);
+    if (!current) {
+      current = {
+        ...(speaker !== undefined && { speaker }),
+        ...(basis === "time" && { talkTimeMs: 0 }),
+        characters: 0,
+        share: 0,
+        turns: 0,
+        entries: 0,
+        longestMonologue: { entryIndex: -1, characters: 0 },
+        interruptions: 0,
+        interrupted: 0,
+      };
+      stats.set(speaker, current);
+    }
+    return current;
+  };
+
+  for (const entry of spoken) {
+    const current = statsOf(entry.speaker);
+    current.entries++;
+    current.characters += countChars(entry.text);
+    if (current.talkTimeMs !== undefined && hasTiming(entry)) {
+      current.talkTimeMs += entry.endMs - entry.startMs;
+    }
+  }
+
+  const turns = buildTurns(spoken);
+  for (const turn of turns) {
+    const current = statsOf(turn.speaker);
+    current.turns++;
+
+    const characters = turn.entries.reduce(
+      (sum, entry) => sum + countChars(entry.text),
+      0
+    );
+    const durationMs = basis === "time" ? turnDuration(turn) : undefined;
+    const longest = current.longestMonologue;
+    const longer =
+      durationMs !== undefined && longest.durationMs !== undefined
+        ? durationMs > longest.durationMs
+        : characters > longest.characters;
+    if (longest.entryIndex < 0 || longer) {
+      current.longestMonologue = {
+        entryIndex: turn.entries[0].index,
+        ...(durationMs !== undefined && { durationMs }),
+        characters,
+      };
+    }
+  }
+
+  // 発話時刻がある場合のみ、前の話者が話し終える前に話し始めた発話を数える
+  let overlaps = 0;
+  let overlapMs = 0;
+  if (basis === "time") {
+    const timed = [...spoken]
+      .filter(hasTiming)
+      .sort((a, b) => a.startMs - b.startMs || a.index - b.index);
+    // 話し始めの時点でまだ話している発話
+    let active: typeof timed = [];
+    for (const entry of timed) {
+      active = active.filter((other) => other.endMs > entry.startMs);
+      const previous = [...active]
+        .reverse()
+        .find((other) => other.speaker !== entry.speaker);
+      active.push(entry);
+      if (!previous) continue;
+
+      const overlap = Math.min(previous.endMs, entry.endMs) - entry.startMs;
+      if (overlap < MIN_OVERLAP_MS) continue;
+      overlaps++;
+      overlapMs += overlap;
+      statsOf(entry.speaker).interruptions++;
+      statsOf(previous.speaker).interrupted++;
+    }
+  }
+
+  const speakers = [...stats.values()];
+  const totalCharacters = speakers.reduce(
+    (sum, speaker) => sum + speaker.characters,
+    0
+  );
+  const totalTalkTimeMs =
+    basis === "time"
+      ? speakers.reduce((sum, speaker) => sum + (speaker.talkTimeMs || 0), 0)
+      : undefined;
+  for (const speaker of speakers) {
+    const [amount, total] =
+      totalTalkTimeMs !== undefined
+        ? [speaker.talkTimeMs || 0, totalTalkTimeMs]
+        : [speaker.characters, totalCharacters];
+    speaker.share = total > 0 ? Math.round((amount / total) * 1000) / 1000 : 0;
+  }
+  speakers.sort((a, b) => b.share - a.share || b.characters - a.characters);
+
+  return {
+    basis,
+    ...(totalTalkTimeMs !== undefined && { totalTalkTimeMs }),
+    totalCharacters,
+    totalTurns: turns.length,
+    overlaps,
+    overlapMs,
+    speakers,
+    silentAttendees: findSilentAttendees(
+      calendarEvent,
+      speakers
+        .map((speaker) => speaker.speaker)
+        .filter((name): name is string => !!name)
+    ),
+    generatedAt: new Date().toISOString(),
+  };
+}
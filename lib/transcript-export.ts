@@ -0,0 +1,352 @@
+import type { Meeting, Transcript, TranscriptEntry } from "./google-meet-api";
+import { formatMsAsTimestamp } from "./transcript-parser";
+
+export const TRANSCRIPT_EXPORT_FORMATS = [
+  "srt",
+  "vtt",
+  "md",
+  "html",
+  "json",
+] as const;
+
+export type TranscriptExportFormat = (typeof TRANSCRIPT_EXPORT_FORMATS)[number];
+
+// JSON エクスポートのスキーマバージョン（互換性のない変更時に上げる）
+export const TRANSCRIPT_EXPORT_SCHEMA_VERSION = "1.0";
+
+export interface TranscriptExportInput {
+  meeting: Meeting | null;
+  transcript: Transcript;
+  entries: TranscriptEntry[];
+}
+
+export interface TranscriptExportResult {
+  body: string;
+  contentType: string;
+  fileName: string;
+}
+
+interface Cue {
+  entry: TranscriptEntry;
+  startMs: number;
+  endMs: number;
+}
+
+// 時刻情報がない発話の長さの目安
+const ESTIMATED_MS_PER_CHAR = 150;
+const MIN_CUE_MS = 1500;
+
+const CONTENT_TYPES: Record<TranscriptExportFormat, string> = {
+  srt: "application/x-subrip; charset=utf-8",
+  vtt: "text/vtt; charset=utf-8",
+  md: "text/markdown; charset=utf-8",
+  html: "text/html; charset=utf-8",
+  json: "application/json; charset=utf-8",
+};
+
+export function isTranscriptExportFormat(
+  value: string | null
+): value is TranscriptExportFormat {
+  return (
+    value !== null &&
+    (TRANSCRIPT_EXPORT_FORMATS as readonly string[]).includes(value)
+  );
+}
+
+export function exportTranscript(
+  format: TranscriptExportFormat,
+  input: TranscriptExportInput
+): TranscriptExportResult {
+  const body = (() => {
+    switch (format) {
+      case "srt":
+        return toSrt(input.entries);
+      case "vtt":
+        return toVtt(input.entries);
+      case "md":
+        return toMarkdown(input);
+      case "html":
+        return toHtml(input);
+      case "json":
+        return toJson(input);
+    }
+  })();
+
+  return {
+    body,
+    contentType: CONTENT_TYPES[format],
+    fileName: `${sanitizeFileName(getTitle(input))}.${format}`,
+  };
+}
+
+// 各発話の字幕表示区間を決める（終了時刻がなければ次の発話の開始まで）
+export function buildCues(entries: TranscriptEntry[]): Cue[] {
+  const cues: Cue[] = [];
+  let cursor = 0;
+
+  for (const [index, entry] of entries.entries()) {
+    const startMs = entry.startMs ?? cursor;
+    const nextStart = entries
+      .slice(index + 1)
+      .find((next) => next.startMs !== undefined)?.startMs;
+    const estimated =
+      startMs + Math.max(entry.text.length * ESTIMATED_MS_PER_CHAR, MIN_CUE_MS);
+    let endMs =
+      entry.endMs ??
+      (nextStart !== undefined && nextStart > startMs ? nextStart : estimated);
+    if (endMs <= startMs) {
+      endMs = startMs + MIN_CUE_MS;
+    }
+
+    cues.push({ entry, startMs, endMs });
+    cursor = endMs;
+  }
+
+  return cues;
+}
+
+function toSrt(entries: TranscriptEntry[]): string {
+  return buildCues(entries)
+    .map((cue, index) =>
+      [
+        String(index + 1),
+        `${formatCueTime(cue.startMs, ",")} --> ${formatCueTime(cue.endMs, ",")}`,
+        toCuePayload(
+          cue.entry.speaker
+            ? `${cue.entry.speaker}: ${cue.entry.text}`
+            : cue.entry.text
+        ),
+      ].join("\n")
+    )
+    .join("\n\n")
+    .concat("\n");
+}
+
+function toVtt(entries: TranscriptEntry[]): string {
+  const cues = buildCues(entries).map((cue) => {
+    const text = escapeVtt(toCuePayload(cue.entry.text));
+    return [
+      `${formatCueTime(cue.startMs, ".")} --> ${formatCueTime(cue.endMs, ".")}`,
+      cue.entry.speaker
+        ? `<v ${escapeVtt(toCuePayload(cue.entry.speaker))}>${text}`
+        : text,
+    ].join("\n");
+  });
+  return ["WEBVTT", ...cues].join("\n\n").concat("\n");
+}
+
+function toMarkdown(input: TranscriptExportInput): string {
+  const lines = [`# ${escapeMarkdown(getTitle(input))}`, ""];
+
+  for (const [label, value] of getMetadataRows(input)) {
+    lines.push(`- **${escapeMarkdown(label)}**: ${escapeMarkdown(value)}`);
+  }
+  lines.push("", "## 文字起こし", "");
+
+  let previousSpeaker: string | undefined;
+  for (const entry of input.entries) {
+    const speaker = entry.speaker || "不明な話者";
+    if (speaker !== previousSpeaker) {
+      const timestamp = getEntryTimestamp(entry);
+      lines.push(
+        `### ${escapeMarkdown(speaker)}${timestamp ? ` (${timestamp})` : ""}`,
+        ""
+      );
+      previousSpeaker = speaker;
+    }
+    lines.push(escapeMarkdown(entry.text), "");
+  }
+
+  return lines.join("\n");
+}
+
+function toHtml(input: TranscriptExportInput): string {
+  const title = escapeHtml(getTitle(input));
+  const metadata = getMetadataRows(input)
+    .map(
+      ([label, value]) =>
+        `<dt>${escapeHtml(label)}</dt><dd>${escapeHtml(value)}</dd>`
+    )
+    .join("\n");
+  const entries = input.entries
+    .map((entry) => {
+      const timestamp = getEntryTimestamp(entry);
+      return `<div class="entry">
+  <div class="meta">${timestamp ? `<span class="time">${escapeHtml(timestamp)}</span>` : ""}<span class="speaker">${escapeHtml(entry.speaker || "不明な話者")}</span></div>
+  <p>${escapeHtml(entry.text).replace(/\n/g, "<br>")}</p>
+</div>`;
+    })
+    .join("\n");
+
+  return `<!DOCTYPE html>
+<html lang="ja">
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>
+body { font-family: sans-serif; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; color: #171717; line-height: 1.7; }
+dl { display: grid; grid-template-columns: max-content 1fr; gap: 0.25rem 1rem; background: #f3f4f6; padding: 1rem; border-radius: 0.5rem; }
+dt { font-weight: bold; }
+dd { margin: 0; }
+.entry { border-left: 4px solid #bfdbfe; padding-left: 0.75rem; margin: 1rem 0; }
+.meta { font-size: 0.875rem; color: #4b5563; }
+.time { font-family: monospace; color: #2563eb; margin-right: 0.5rem; }
+.speaker { font-weight: bold; }
+p { margin: 0.25rem 0 0; }
+</style>
+</head>
+<body>
+<h1>${title}</h1>
+<dl>
+${metadata}
+</dl>
+<h2>文字起こし</h2>
+${entries}
+</body>
+</html>
+`;
+}
+
+function toJson(input: TranscriptExportInput): string {
+  const event = input.meeting?.calendarEvent;
+
+  return JSON.stringify(
+    {
+      schemaVersion: TRANSCRIPT_EXPORT_SCHEMA_VERSION,
+      exportedAt: new Date().toISOString(),
+      meeting: input.meeting
+        ? {
+            id: input.meeting.id,
+            name: input.meeting.name,
+            source: input.meeting.source,
+            createdTime: input.meeting.createdTime,
+            startTime: input.meeting.startTime,
+            endTime: input.meeting.endTime,
+            meetingCode: input.meeting.meetingCode,
+            conferenceRecord: input.meeting.conferenceRecord,
+            calendarEvent: event
+              ? {
+                  eventId: event.eventId,
+                  calendarId: event.calendarId,
+                  summary: event.summary,
+                  startTime: event.startTime,
+                  endTime: event.endTime,
+                  organizer: event.organizer,
+                  attendees: event.attendees,
+                }
+              : null,
+          }
+        : null,
+      transcript: {
+        id: input.transcript.id,
+        name: input.transcript.name,
+        createdTime: input.transcript.createdTime,
+        webViewLink: input.transcript.webViewLink,
+      },
+      entries: buildCues(input.entries).map((cue) => ({
+        index: cue.entry.index,
+        speaker: cue.entry.speaker ?? null,
+        text: cue.entry.text,
+        startMs: cue.startMs,
+        endMs: cue.endMs,
+      })),
+    },
+    null,
+    2
+  );
+}
+
+function getTitle(input: TranscriptExportInput): string {
+  return (
+    input.meeting?.calendarEvent?.summary ||
+    input.meeting?.name ||
+    input.transcript.name ||
+    "文字起こし"
+  );
+}
+
+function getMetadataRows(input: TranscriptExportInput): Array<[string, string]> {
+  const rows: Array<[string, string]> = [];
+  const event = input.meeting?.calendarEvent;
+  const startTime =
+    event?.startTime || input.meeting?.startTime || input.meeting?.createdTime;
+
+  if (startTime) {
+    rows.push(["日時", formatDateTime(startTime, event?.endTime)]);
+  }
+  if (event?.organizer) {
+    rows.push([
+      "主催者",
+      event.organizer.displayName || event.organizer.email,
+    ]);
+  }
+  if (event?.attendees && event.attendees.length > 0) {
+    rows.push([
+      "参加者",
+      event.attendees
+        .map((attendee) => attendee.displayName || attendee.email)
+        .join(", "),
+    ]);
+  }
+  if (input.meeting?.meetingCode) {
+    rows.push(["会議コード", input.meeting.meetingCode]);
+  }
+  rows.push(["文字起こし", input.transcript.name]);
+
+  return rows;
+}
+
+function getEntryTimestamp(entry: TranscriptEntry): string | undefined {
+  return entry.startMs !== undefined
+    ? formatMsAsTimestamp(entry.startMs)
+    : entry.timestamp;
+}
+
+function formatDateTime(start: string, end?: string): string {
+  const format = (value: string) =>
+    new Date(value).toLocaleString("ja-JP", { timeZone: "Asia/Tokyo" });
+  return end ? `${format(start)} 〜 ${format(end)}` : format(start);
+}
+
+function formatCueTime(ms: number, separator: "," | "."): string {
+  const millis = String(Math.floor(ms % 1000)).padStart(3, "0");
+  return `${formatMsAsTimestamp(ms)}${separator}${millis}`;
+}
+
+// 空行はキューの区切り、"-->" はタイミング行として解釈されるため、本文から取り除く
+function toCuePayload(text: string): string {
+  return text
+    .replace(/-->/g, "→")
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .join("\n");
+}
+
+function escapeVtt(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+// 本文中の記号が強調・リンク・見出し・リストとして解釈されないようにする
+function escapeMarkdown(text: string): string {
+  return text
+    .replace(/([\\`*_[\]<>|])/g, "\\$1")
+    .replace(/^(\s*)([#+-])(?=\s|$)/gm, "$1\\$2")
+    .replace(/^(\s*\d+)([.)])(?=\s|$)/gm, "$1\\$2");
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function sanitizeFileName(name: string): string {
+  return name.replace(/[\\/:*?"<>|\r\n]+/g, "_").trim().slice(0, 100) || "transcript";
+}
@@ -0,0 +1,248 @@
+import type { TranscriptEntry } from "./google-meet-api";
+
+export interface ParsedTranscript {
+  title?: string;
+  attendees: string[];
+  entries: TranscriptEntry[];
+  // 「Transcription ended after 01:02:03」等の終了時刻（わかる場合）
+  durationMs?: number;
+}
+
+// 1文字あたりの発話時間の目安（終了時刻が不明な最終ブロックの推定に使う）
+const ESTIMATED_MS_PER_CHAR = 150;
+const MIN_ESTIMATED_ENTRY_MS = 2000;
+
+// "00:05:12" / "05:12" / "[05:12]" 形式の単独タイムスタンプ行
+const TIMESTAMP_LINE = /^\[?(\d{1,2}:\d{2}(?::\d{2})?)\]?$/;
+// "[05:12] テキスト" 形式（旧来の1行1発話形式）
+const INLINE_TIMESTAMP = /^\[?(\d{1,2}:\d{2}(?::\d{2})?)\]?\s+(.+)$/;
+// "話者名: テキスト" / "話者名：テキスト"
+const SPEAKER_LINE = /^([^:：\[\]()（）]{1,40}?)\s*[:：]\s*(.+)$/;
+
+const TRANSCRIPT_MARKERS = [/^(📖\s*)?transcript$/i, /^(📖\s*)?文字起こし$/];
+const ATTENDEES_LABEL = /^(attendees|participants|参加者)\s*[:：]?\s*(.*)$/i;
+const TITLE_SUFFIX = /\s*-\s*(transcript|文字起こし)\s*$/i;
+const ENDED_LINE =
+  /^(?:transcription ended after|文字起こしの終了時間)\s*[:：]?\s*(\d{1,2}:\d{2}(?::\d{2})?)$/i;
+const BOILERPLATE_LINES = [
+  /^this editable transcript was computer generated/i,
+  /^この編集可能な文字起こしはコンピュータによって生成/,
+  /^文字起こしは終了しました/,
+];
+
+export function parseTimestampToMs(timestamp: string): number | undefined {
+  const parts = timestamp
+    .replace(/[\[\]]/g, "")
+    .split(":")
+    .map((part) => Number(part));
+  if (parts.length < 2 || parts.some((part) => !Number.isFinite(part))) {
+    return undefined;
+  }
+
+  const [hours, minutes, seconds] =
+    parts.length === 3 ? parts : [0, parts[0], parts[1]];
+  return ((hours * 60 + minutes) * 60 + seconds) * 1000;
+}
+
+export function formatMsAsTimestamp(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return [hours, minutes, seconds]
+    .map((value) => String(value).padStart(2, "0"))
+    .join(":");
+}
+
+// Meet の文字起こしドキュメント（日本語・英語エクスポート）を話者付きエントリに変換する
+export function parseTranscript(content: string): ParsedTranscript {
+  const result: ParsedTranscript = { attendees: [], entries: [] };
+  if (!content) return result;
+
+  const lines = content
+    .replace(/^﻿/, "")
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+
+  // 見出し（📖 文字起こし・参加者）がなければ1行目も発話として扱う
+  const firstTimestamp = lines.findIndex((line) => TIMESTAMP_LINE.test(line));
+  const hasHeaderMarker = lines
+    .slice(0, firstTimestamp === -1 ? lines.length : firstTimestamp)
+    .some(
+      (line) =>
+        TRANSCRIPT_MARKERS.some((pattern) => pattern.test(line)) ||
+        ATTENDEES_LABEL.test(line)
+    );
+
+  let inHeader = true;
+  let expectAttendees = false;
+  let blockStartMs: number | undefined;
+  // 同じタイムスタンプブロック内のエントリ（終了時刻の按分に使う）
+  const blocks: Array<{ startMs?: number; entries: TranscriptEntry[] }> = [];
+  let currentBlock: { startMs?: number; entries: TranscriptEntry[] } = {
+    entries: [],
+  };
+  blocks.push(currentBlock);
+
+  const startBlock = (startMs: number | undefined) => {
+    blockStartMs = startMs;
+    currentBlock = { startMs, entries: [] };
+    blocks.push(currentBlock);
+  };
+
+  for (const line of lines) {
+    if (BOILERPLATE_LINES.some((pattern) => pattern.test(line))) {
+      continue;
+    }
+
+    const endedMatch = line.match(ENDED_LINE);
+    if (endedMatch) {
+      result.durationMs = parseTimestampToMs(endedMatch[1]);
+      continue;
+    }
+
+    const timestampMatch = line.match(TIMESTAMP_LINE);
+    if (timestampMatch) {
+      inHeader = false;
+      expectAttendees = false;
+      startBlock(parseTimestampToMs(timestampMatch[1]));
+      continue;
+    }
+
+    if (inHeader) {
+      if (TRANSCRIPT_MARKERS.some((pattern) => pattern.test(line))) {
+        inHeader = false;
+        expectAttendees = false;
+        continue;
+      }
+
+      const attendeesMatch = line.match(ATTENDEES_LABEL);
+      if (attendeesMatch) {
+        if (attendeesMatch[2]) {
+          result.attendees.push(...splitAttendees(attendeesMatch[2]));
+        } else {
+          expectAttendees = true;
+        }
+        continue;
+      }
+
+      if (expectAttendees) {
+        result.attendees.push(...splitAttendees(line));
+        expectAttendees = false;
+        continue;
+      }
+
+      if (
+        !result.title &&
+        (TITLE_SUFFIX.test(line) ||
+          (hasHeaderMarker &&
+            !SPEAKER_LINE.test(line) &&
+            !INLINE_TIMESTAMP.test(line)))
+      ) {
+        result.title = line.replace(TITLE_SUFFIX, "").trim();
+        continue;
+      }
+
+      inHeader = false;
+    }
+
+    const inlineMatch = line.match(INLINE_TIMESTAMP);
+    if (inlineMatch) {
+      startBlock(parseTimestampToMs(inlineMatch[1]));
+      currentBlock.entries.push(
+        createEntry(inlineMatch[2], inlineMatch[1], blockStartMs)
+      );
+      continue;
+    }
+
+    const speakerMatch = line.match(SPEAKER_LINE);
+    if (speakerMatch && !/^https?$/i.test(speakerMatch[1])) {
+      currentBlock.entries.push({
+        ...createEntry(speakerMatch[2], undefined, blockStartMs),
+        speaker: speakerMatch[1].trim(),
+      });
+      continue;
+    }
+
+    // 話者のない行は直前の発話の続きとして扱う
+    const previous = currentBlock.entries[currentBlock.entries.length - 1];
+    if (previous) {
+      previous.text = `${previous.text}\n${line}`;
+    } else {
+      currentBlock.entries.push(createEntry(line, undefined, blockStartMs));
+    }
+  }
+
+  assignEndTimes(blocks, result.durationMs);
+
+  result.entries = blocks.flatMap((block) => block.entries);
+  result.entries.forEach((entry, index) => {
+    entry.index = index;
+  });
+
+  return result;
+}
+
+function createEntry(
+  text: string,
+  timestamp: string | undefined,
+  startMs: number | undefined
+): TranscriptEntry {
+  return {
+    index: 0,
+    text: text.trim(),
+    timestamp:
+      timestamp ?? (startMs !== undefined ? formatMsAsTimestamp(startMs) : undefined),
+    startMs,
+  };
+}
+
+function splitAttendees(line: string): string[] {
+  return line
+    .split(/[,、，]/)
+    .map((name) => name.trim())
+    .filter((name) => name.length > 0);
+}
+
+// ブロック内の各発話にブロック開始〜次ブロック開始の時間を文字数で按分する
+function assignEndTimes(
+  blocks: Array<{ startMs?: number; entries: TranscriptEntry[] }>,
+  durationMs?: number
+) {
+  for (const [index, block] of blocks.entries()) {
+    if (block.startMs === undefined || block.entries.length === 0) continue;
+
+    const nextStart = blocks
+      .slice(index + 1)
+      .find((next) => next.startMs !== undefined)?.startMs;
+    const totalChars = block.entries.reduce(
+      (sum, entry) => sum + Math.max(entry.text.length, 1),
+      0
+    );
+    const blockEnd =
+      nextStart ??
+      (durationMs !== undefined && durationMs > block.startMs
+        ? durationMs
+        : block.startMs +
+          Math.max(
+            totalChars * ESTIMATED_MS_PER_CHAR,
+            MIN_ESTIMATED_ENTRY_MS * block.entries.length
+          ));
+    const span = Math.max(blockEnd - block.startMs, 0);
+
+    let cursor = block.startMs;
+    for (const entry of block.entries) {
+      const share = Math.round(
+        (span * Math.max(entry.text.length, 1)) / totalChars
+      );
+      entry.startMs = cursor;
+      entry.endMs = cursor + share;
+      // 按分後の開始時刻に合わせて表示用のタイムスタンプも更新する
+      entry.timestamp = formatMsAsTimestamp(cursor);
+      cursor += share;
+    }
+    // 丸め誤差はブロック最後の発話で吸収する
+    block.entries[block.entries.length - 1].endMs = blockEnd;
+  }
+}
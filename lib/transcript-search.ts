@@ -0,0 +1,247 @@
+import type { Meeting, Transcript, TranscriptEntry } from "./google-meet-api";
+
+export interface SearchEntryHit {
+  entryIndex: number;
+  speaker?: string;
+  timestamp?: string;
+  score: number;
+  snippet: string;
+  // snippet 内のハイライト範囲 [開始, 終了)
+  highlights: Array<[number, number]>;
+}
+
+export interface SearchResult {
+  meeting: Meeting;
+  transcriptId: string;
+  transcriptName: string;
+  score: number;
+  hits: SearchEntryHit[];
+}
+
+interface IndexedDocument {
+  meeting: Meeting;
+  transcript: Pick<Transcript, "id" | "name">;
+  entries: TranscriptEntry[];
+}
+
+interface Posting {
+  docIndex: number;
+  entryIndex: number;
+  tf: number;
+}
+
+// BM25 のパラメータ
+const K1 = 1.2;
+const B = 0.75;
+const SNIPPET_RADIUS = 40;
+const MAX_HITS_PER_MEETING = 3;
+
+const CJK_RUN = /[\u3005\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff]+/g;
+const WORD_RUN = /[\p{L}\p{N}]+/gu;
+
+function normalize(text: string): string {
+  return text.normalize("NFKC").toLowerCase();
+}
+
+// 英語は単語単位、日本語（かな・漢字）は文字 bigram に分割する
+// （unigrams: true で1文字ずつのトークンも含める。1文字の検索語に一致させるため索引側で使う）
+export function tokenize(
+  text: string,
+  options: { unigrams?: boolean } = {}
+): string[] {
+  const normalized = normalize(text);
+  const tokens: string[] = [];
+
+  for (const match of normalized.matchAll(CJK_RUN)) {
+    const chars = Array.from(match[0]);
+    if (chars.length === 1 || options.unigrams) {
+      tokens.push(...chars);
+    }
+    for (let i = 0; i < chars.length - 1; i++) {
+      tokens.push(chars[i] + chars[i + 1]);
+    }
+  }
+
+  const latin = normalized.replace(CJK_RUN, " ");
+  for (const match of latin.matchAll(WORD_RUN)) {
+    tokens.push(match[0]);
+  }
+
+  return tokens;
+}
+
+export class TranscriptSearchIndex {
+  private documents: IndexedDocument[] = [];
+  private postings = new Map<string, Posting[]>();
+  private entryLengths = new Map<string, number>();
+  private totalLength = 0;
+
+  readonly builtAt = new Date();
+  // 上限に達して索引に含めなかった会議があるか
+  truncated = false;
+  // 文字起こしの取得に失敗した会議の数
+  failedCount = 0;
+
+  get size(): number {
+    return this.documents.length;
+  }
+
+  get entryCount(): number {
+    return this.entryLengths.size;
+  }
+
+  addDocument(
+    meeting: Meeting,
+    transcript: Pick<Transcript, "id" | "name">,
+    entries: TranscriptEntry[]
+  ): void {
+    const docIndex = this.documents.length;
+    this.documents.push({ meeting, transcript, entries });
+
+    for (const entry of entries) {
+      const tokens = tokenize(
+        entry.speaker ? `${entry.speaker} ${entry.text}` : entry.text,
+        { unigrams: true }
+      );
+      const counts = new Map<string, number>();
+      for (const token of tokens) {
+        counts.set(token, (counts.get(token) || 0) + 1);
+      }
+
+      for (const [token, tf] of counts) {
+        const list = this.postings.get(token) || [];
+        list.push({ docIndex, entryIndex: entry.index, tf });
+        this.postings.set(token, list);
+      }
+
+      this.entryLengths.set(`${docIndex}:${entry.index}`, tokens.length);
+      this.totalLength += tokens.length;
+    }
+  }
+
+  search(query: string, limit = 20): SearchResult[] {
+    const queryTokens = Array.from(new Set(tokenize(query)));
+    if (queryTokens.length === 0 || this.entryCount === 0) return [];
+
+    const averageLength = this.totalLength / this.entryCount;
+    const entryScores = new Map<string, { score: number; matched: number }>();
+
+    for (const token of queryTokens) {
+      const list = this.postings.get(token);
+      if (!list) continue;
+
+      const idf = Math.log(
+        1 + (this.entryCount - list.length + 0.5) / (list.length + 0.5)
+      );
+      for (const posting of list) {
+        const key = `${posting.docIndex}:${posting.entryIndex}`;
+        const length = this.entryLengths.get(key) || 0;
+        const score =
+          (idf * posting.tf * (K1 + 1)) /
+          (posting.tf + K1 * (1 - B + (B * length) / averageLength));
+        const current = entryScores.get(key) || { score: 0, matched: 0 };
+        entryScores.set(key, {
+          score: current.score + score,
+          matched: current.matched + 1,
+        });
+      }
+    }
+
+    const phrase = normalize(query.trim());
+    const terms = this.extractHighlightTerms(query);
+    const byDocument = new Map<number, SearchEntryHit[]>();
+
+    for (const [key, { score, matched }] of entryScores) {
+      const [docIndex, entryIndex] = key.split(":").map(Number);
+      const document = this.documents[docIndex];
+      const entry = document.entries.find((e) => e.index === entryIndex);
+      if (!entry) continue;
+
+      // 全トークンを含む発話・フレーズ完全一致を優先する
+      let finalScore = score * (matched / queryTokens.length);
+      if (normalize(entry.text).includes(phrase)) {
+        finalScore *= 2;
+      }
+
+      const hits = byDocument.get(docIndex) || [];
+      hits.push({
+        entryIndex,
+        speaker: entry.speaker,
+        timestamp: entry.timestamp,
+        score: finalScore,
+        ...this.buildSnippet(entry.text, terms),
+      });
+      byDocument.set(docIndex, hits);
+    }
+
+    const results: SearchResult[] = [];
+    for (const [docIndex, hits] of byDocument) {
+      hits.sort((a, b) => b.score - a.score);
+      const document = this.documents[docIndex];
+      const topHits = hits.slice(0, MAX_HITS_PER_MEETING);
+      results.push({
+        meeting: document.meeting,
+        transcriptId: document.transcript.id,
+        transcriptName: document.transcript.name,
+        // 最も関連する発話を重視しつつ、ヒット数も加味する
+        score:
+          topHits[0].score +
+          0.1 * hits.slice(1).reduce((sum, hit) => sum + hit.score, 0),
+        hits: topHits,
+      });
+    }
+
+    return results.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  private extractHighlightTerms(query: string): string[] {
+    return normalize(query)
+      .split(/\s+/)
+      .filter((term) => term.length > 0)
+      .sort((a, b) => b.length - a.length);
+  }
+
+  private buildSnippet(
+    text: string,
+    terms: string[]
+  ): Pick<SearchEntryHit, "snippet" | "highlights"> {
+    const normalized = normalize(text);
+    // NFKC 正規化で長さが変わる場合は位置がずれるため、正規化後の文字列を表示する
+    const source = normalized.length === text.length ? text : normalized;
+
+    let firstMatch = -1;
+    for (const term of terms) {
+      const position = normalized.indexOf(term);
+      if (position !== -1 && (firstMatch === -1 || position < firstMatch)) {
+        firstMatch = position;
+      }
+    }
+
+    const start =
+      firstMatch === -1 ? 0 : Math.max(0, firstMatch - SNIPPET_RADIUS);
+    const end = Math.min(
+      source.length,
+      (firstMatch === -1 ? 0 : firstMatch) + SNIPPET_RADIUS * 2
+    );
+    const prefix = start > 0 ? "…" : "";
+    const suffix = end < source.length ? "…" : "";
+    const snippet = `${prefix}${source.slice(start, end)}${suffix}`;
+
+    const visible = normalized.slice(start, end);
+    const highlights: Array<[number, number]> = [];
+    for (const term of terms) {
+      let position = visible.indexOf(term);
+      while (position !== -1) {
+        const from = position + prefix.length;
+        const to = from + term.length;
+        if (!highlights.some(([a, b]) => from < b && to > a)) {
+          highlights.push([from, to]);
+        }
+        position = visible.indexOf(term, position + term.length);
+      }
+    }
+    highlights.sort((a, b) => a[0] - b[0]);
+
+    return { snippet, highlights };
+  }
+}
@@ -0,0 +1,310 @@
+import type { TranscriptEntry } from "./google-meet-api";
+import { tokenize } from "./transcript-search";
+
+export interface SummarySentence {
+  entryIndex: number;
+  speaker?: string;
+  timestamp?: string;
+  text: string;
+  score: number;
+}
+
+export type ExtractedItemKind = "action_item" | "decision";
+
+export interface ExtractedItem {
+  kind: ExtractedItemKind;
+  entryIndex: number;
+  // 発言者
+  speaker?: string;
+  timestamp?: string;
+  text: string;
+  // 一致した手がかりの語句
+  cue: string;
+  // 担当者（「〇〇さん、お願いします」の〇〇、自分で引き受けた場合は発言者）
+  assignee?: string;
+}
+
+export interface TranscriptSummary {
+  sentences: SummarySentence[];
+  actionItems: ExtractedItem[];
+  decisions: ExtractedItem[];
+  sentenceCount: number;
+  generatedAt: string;
+}
+
+export interface SummaryOptions {
+  maxSentences?: number;
+}
+
+interface Sentence {
+  entry: TranscriptEntry;
+  text: string;
+  vector: Map<string, number>;
+  norm: number;
+}
+
+interface CuePattern {
+  pattern: RegExp;
+  // 発言者自身が引き受ける表現か
+  selfAssigned?: boolean;
+  // 会話でもよく使う表現のため、作業の対象・期限・担当者のいずれかを伴う場合だけ採用する
+  needsTask?: boolean;
+}
+
+// 要約に使う文の長さの下限（相づちを除く）
+const MIN_SENTENCE_LENGTH = 12;
+const DEFAULT_SUMMARY_SENTENCES = 5;
+const MAX_SUMMARY_SENTENCES = 10;
+// TextRank の計算量を抑えるため、TF-IDF の上位だけをグラフにする
+const MAX_RANKED_SENTENCES = 300;
+const DAMPING = 0.85;
+const TEXTRANK_ITERATIONS = 30;
+// これ以上似ている文は要約に重ねて入れない
+const MAX_SIMILARITY = 0.6;
+
+const SENTENCE_BOUNDARY = /(?<=[。！？!?])|(?<=\.)\s+/;
+
+const ACTION_CUES: CuePattern[] = [
+  {
+    pattern: /(?<!よろしく)お願い(します|いたします|できますか|できれば)/,
+    needsTask: true,
+  },
+  {
+    pattern: /(やって|確認して|対応して|調べて|送って|共有して)(おき|み)ます/,
+    selfAssigned: true,
+    needsTask: true,
+  },
+  {
+    pattern: /(対応|確認|共有|連絡|準備|作成)(します|しておきます)/,
+    selfAssigned: true,
+    needsTask: true,
+  },
+  { pattern: /宿題|アクションアイテム|タスク/ },
+  { pattern: /\bTODO\b|\bto-?do\b/i },
+  { pattern: /\baction items?\b/i },
+  {
+    pattern: /\bI(?: will|['’]ll)\b|\bI can take\b|\bwill do\b/i,
+    selfAssigned: true,
+    needsTask: true,
+  },
+  {
+    pattern: /\b(can|could) you\b|\bplease\b|\bfollow[- ]up\b/i,
+    needsTask: true,
+  },
+];
+
+// 作業の対象になる語（「画面を共有します」のような会議中の操作は含めない）
+const JA_TASK_OBJECT =
+  /資料|議事録|見積|レビュー|報告|メール|スライド|ドキュメント|チケット|仕様|設計|テスト|修正|日程|手配|契約|提案|アンケート|一覧|リスト|結果/;
+const EN_TASK_OBJECT =
+  /\b(send|share|review|update|prepare|draft|write|fix|schedule|set up|look into|follow up on|circulate|create|book)\s+(?!(?:my|your|the)?\s*(?:screen|mic|microphone|camera|audio)\b)(?:the|a|an|our|my|your|this|that|these|those|it|them)\b/i;
+// 期限（「明日まで」「来週中」「5/10」「by Friday」など）
+const JA_DEADLINE =
+  /明日|明後日|今日中|本日中|今週中|週末|来週|週明け|月末|来月|までに|\d{1,2}\s*[\/月]\s*\d{1,2}/;
+const EN_DEADLINE =
+  /\b(?:by|before|until|due)\s+(?:tomorrow|today|tonight|eod|end of (?:the )?(?:day|week|month)|next \w+|this \w+|monday|tuesday|wednesday|thursday|friday|\d{1,2}(?:[\/.-]\d{1,2})?(?:st|nd|rd|th)?)\b|\b(?:tomorrow|next week)\b/i;
+
+const DECISION_CUES: CuePattern[] = [
+  { pattern: /決定|決まり|決めました|確定/ },
+  { pattern: /合意|了承/ },
+  { pattern: /(ことに|方針に|方向で)(します|しましょう|なりました)/ },
+  { pattern: /(で|に)(いき|行き)ましょう/ },
+  { pattern: /\bdecided\b|\bdecision\b|\bagreed\b/i },
+  { pattern: /\b(let'?s|we'?ll) go with\b/i },
+];
+
+// 「田中さん、」「@tanaka」「Tanaka, can you」形式の担当者
+const JA_ASSIGNEE =
+  /(?:^|[\s、,。「」])([^\s、,。「」]{1,12}?)(さん|くん|君|様)(?:[、,\s]|に|へ|が|は)/;
+// 名前の前に付く接続詞
+const LEADING_CONJUNCTION = /^(それでは|それじゃあ|では|じゃあ|あと|なので)/;
+const EN_ASSIGNEE = /@([\w.-]+)|^([A-Z][a-z]+),\s*(can|could|please|will)\b/;
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(SENTENCE_BOUNDARY)
+    .map((sentence) => sentence.trim())
+    .filter((sentence) => sentence.length > 0);
+}
+
+function hasTaskContext(text: string): boolean {
+  return (
+    JA_TASK_OBJECT.test(text) ||
+    EN_TASK_OBJECT.test(text) ||
+    JA_DEADLINE.test(text) ||
+    EN_DEADLINE.test(text) ||
+    findAssignee(text) !== undefined
+  );
+}
+
+function findCue(text: string, cues: CuePattern[]) {
+  for (const cue of cues) {
+    const match = text.match(cue.pattern);
+    if (!match || (cue.needsTask && !hasTaskContext(text))) continue;
+    return { cue: match[0], selfAssigned: !!cue.selfAssigned };
+  }
+  return null;
+}
+
+function findAssignee(text: string): string | undefined {
+  const ja = text.match(JA_ASSIGNEE);
+  if (ja) return ja[1].replace(LEADING_CONJUNCTION, "") || undefined;
+  const en = text.match(EN_ASSIGNEE);
+  return en ? en[1] || en[2] : undefined;
+}
+
+function cosine(a: Sentence, b: Sentence): number {
+  if (a.norm === 0 || b.norm === 0) return 0;
+  const [small, large] =
+    a.vector.size < b.vector.size ? [a.vector, b.vector] : [b.vector, a.vector];
+  let dot = 0;
+  for (const [token, weight] of small) {
+    const other = large.get(token);
+    if (other) dot += weight * other;
+  }
+  return dot / (a.norm * b.norm);
+}
+
+// 文ごとの TF-IDF ベクトルを作る（文を1文書として IDF を計算する）
+function buildSentences(entries: TranscriptEntry[]): Sentence[] {
+  const raw = entries.flatMap((entry) =>
+    splitSentences(entry.text)
+      .filter((text) => text.length >= MIN_SENTENCE_LENGTH)
+      .map((text) => ({ entry, text, tokens: tokenize(text) }))
+  );
+
+  const documentFrequency = new Map<string, number>();
+  for (const { tokens } of raw) {
+    for (const token of new Set(tokens)) {
+      documentFrequency.set(token, (documentFrequency.get(token) || 0) + 1);
+    }
+  }
+
+  return raw.map(({ entry, text, tokens }) => {
+    const counts = new Map<string, number>();
+    for (const token of tokens) {
+      counts.set(token, (counts.get(token) || 0) + 1);
+    }
+    const vector = new Map<string, number>();
+    for (const [token, count] of counts) {
+      const idf = Math.log(raw.length / (documentFrequency.get(token) || 1));
+      vector.set(token, (count / tokens.length) * idf);
+    }
+    const norm = Math.sqrt(
+      [...vector.values()].reduce((sum, weight) => sum + weight * weight, 0)
+    );
+    return { entry, text, vector, norm };
+  });
+}
+
+// 文の類似度グラフ上で PageRank を計算する
+function textRank(sentences: Sentence[]): number[] {
+  const n = sentences.length;
+  const weights = sentences.map((sentence, i) =>
+    sentences.map((other, j) => (i === j ? 0 : cosine(sentence, other)))
+  );
+  const outSums = weights.map((row) => row.reduce((sum, w) => sum + w, 0));
+
+  let scores = new Array<number>(n).fill(1 / n);
+  for (let iteration = 0; iteration < TEXTRANK_ITERATIONS; iteration++) {
+    scores = scores.map((_, i) => {
+      let rank = 0;
+      for (let j = 0; j < n; j++) {
+        if (weights[j][i] > 0 && outSums[j] > 0) {
+          rank += (weights[j][i] / outSums[j]) * scores[j];
+        }
+      }
+      return (1 - DAMPING) / n + DAMPING * rank;
+    });
+  }
+  return scores;
+}
+
+function extractSummary(
+  sentences: Sentence[],
+  maxSentences: number
+): SummarySentence[] {
+  const candidates = [...sentences]
+    .sort((a, b) => b.norm - a.norm)
+    .slice(0, MAX_RANKED_SENTENCES);
+  const scores = textRank(candidates);
+
+  const ranked = candidates
+    .map((sentence, i) => ({ sentence, score: scores[i] }))
+    .sort((a, b) => b.score - a.score);
+
+  const selected: typeof ranked = [];
+  for (const item of ranked) {
+    if (selected.length >= maxSentences) break;
+    if (
+      selected.some(
+        (picked) => cosine(picked.sentence, item.sentence) > MAX_SIMILARITY
+      )
+    ) {
+      continue;
+    }
+    selected.push(item);
+  }
+
+  // 会議の流れに沿って並べ直す
+  return selected
+    .sort((a, b) => a.sentence.entry.index - b.sentence.entry.index)
+    .map(({ sentence, score }) => ({
+      entryIndex: sentence.entry.index,
+      speaker: sentence.entry.speaker,
+      timestamp: sentence.entry.timestamp,
+      text: sentence.text,
+      score: Math.round(score * 10000) / 10000,
+    }));
+}
+
+function extractItems(
+  entries: TranscriptEntry[],
+  kind: ExtractedItemKind,
+  cues: CuePattern[]
+): ExtractedItem[] {
+  const items: ExtractedItem[] = [];
+  for (const entry of entries) {
+    for (const text of splitSentences(entry.text)) {
+      const found = findCue(text, cues);
+      if (!found) continue;
+
+      const assignee =
+        kind === "action_item"
+          ? findAssignee(text) || (found.selfAssigned ? entry.speaker : undefined)
+          : undefined;
+      items.push({
+        kind,
+        entryIndex: entry.index,
+        speaker: entry.speaker,
+        timestamp: entry.timestamp,
+        text,
+        cue: found.cue,
+        ...(assignee && { assignee }),
+      });
+    }
+  }
+  return items;
+}
+
+// 文字起こしから要約（重要文の抽出）・アクションアイテム・決定事項を取り出す
+export function summarizeTranscript(
+  entries: TranscriptEntry[],
+  options: SummaryOptions = {}
+): TranscriptSummary {
+  const sentences = buildSentences(entries);
+  // 長い会議ほど多めに抽出する
+  const maxSentences = Math.min(
+    options.maxSentences ??
+      Math.max(DEFAULT_SUMMARY_SENTENCES, Math.ceil(sentences.length * 0.03)),
+    MAX_SUMMARY_SENTENCES
+  );
+
+  return {
+    sentences: extractSummary(sentences, maxSentences),
+    actionItems: extractItems(entries, "action_item", ACTION_CUES),
+    decisions: extractItems(entries, "decision", DECISION_CUES),
+    sentenceCount: sentences.length,
+    generatedAt: new Date().toISOString(),
+  };
+}
@@ -3,8 +3,20 @@ import { DefaultSession } from "next-auth"
 declare module "next-auth" {
   interface Session {
     accessToken?: string
+    // トークンの更新に失敗した場合（再ログインが必要）
+    error?: "RefreshAccessTokenError"
     user: {
       id?: string
     } & DefaultSession["user"]
   }
-}
\ No newline at end of file
+}
+
+declare module "next-auth/jwt" {
+  interface JWT {
+    accessToken?: string
+    refreshToken?: string
+    // アクセストークンの有効期限（エポックミリ秒）
+    expiresAt?: number
+    error?: "RefreshAccessTokenError"
+  }
+}